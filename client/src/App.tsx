@@ -5,10 +5,22 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import NotFound from "@/pages/not-found";
 import Login from "@/pages/Login";
+import VerifyEmail from "@/pages/VerifyEmail";
+import ResetPassword from "@/pages/ResetPassword";
 import StudentDashboard from "@/pages/student/Dashboard";
 import MissionControl from "@/pages/student/MissionControl";
 import GameEngine from "@/pages/student/GameEngine";
+import StudentAssignments from "@/pages/student/Assignments";
 import TeacherDashboard from "@/pages/teacher/Dashboard";
+import TeacherClasses from "@/pages/teacher/Classes";
+import ClassRoster from "@/pages/teacher/ClassRoster";
+import TeacherAnalytics from "@/pages/teacher/Analytics";
+import TeacherAssignments from "@/pages/teacher/Assignments";
+import TeacherQuestions from "@/pages/teacher/Questions";
+import ParentDashboard from "@/pages/parent/Dashboard";
+import ParentChildren from "@/pages/parent/Children";
+import ParentSettings from "@/pages/parent/Settings";
+import AdminDashboard from "@/pages/admin/Dashboard";
 import { useAuth } from "@/hooks/use-auth";
 import { Loader2 } from "lucide-react";
 
@@ -42,6 +54,8 @@ function Router() {
   return (
     <Switch>
       <Route path="/" component={Login} />
+      <Route path="/verify-email" component={VerifyEmail} />
+      <Route path="/reset-password" component={ResetPassword} />
       
       {/* Student Routes */}
       <Route path="/student/dashboard">
@@ -50,14 +64,51 @@ function Router() {
       <Route path="/student/mission-control">
         {() => <ProtectedRoute component={MissionControl} allowedRoles={['student']} />}
       </Route>
+      <Route path="/student/assignments">
+        {() => <ProtectedRoute component={StudentAssignments} allowedRoles={['student']} />}
+      </Route>
       <Route path="/student/play/:topicId">
         {() => <ProtectedRoute component={GameEngine} allowedRoles={['student']} />}
       </Route>
+      <Route path="/student/quiz/:assignmentId">
+        {() => <ProtectedRoute component={GameEngine} allowedRoles={['student']} />}
+      </Route>
       
       {/* Teacher Routes */}
       <Route path="/teacher/dashboard">
         {() => <ProtectedRoute component={TeacherDashboard} allowedRoles={['teacher']} />}
       </Route>
+      <Route path="/teacher/classes">
+        {() => <ProtectedRoute component={TeacherClasses} allowedRoles={['teacher']} />}
+      </Route>
+      <Route path="/teacher/classes/:id">
+        {() => <ProtectedRoute component={ClassRoster} allowedRoles={['teacher']} />}
+      </Route>
+      <Route path="/teacher/questions">
+        {() => <ProtectedRoute component={TeacherQuestions} allowedRoles={['teacher']} />}
+      </Route>
+      <Route path="/teacher/assignments">
+        {() => <ProtectedRoute component={TeacherAssignments} allowedRoles={['teacher']} />}
+      </Route>
+      <Route path="/teacher/analytics">
+        {() => <ProtectedRoute component={TeacherAnalytics} allowedRoles={['teacher']} />}
+      </Route>
+
+      {/* Parent Routes */}
+      <Route path="/parent/dashboard">
+        {() => <ProtectedRoute component={ParentDashboard} allowedRoles={['parent']} />}
+      </Route>
+      <Route path="/parent/children">
+        {() => <ProtectedRoute component={ParentChildren} allowedRoles={['parent']} />}
+      </Route>
+      <Route path="/parent/settings">
+        {() => <ProtectedRoute component={ParentSettings} allowedRoles={['parent']} />}
+      </Route>
+
+      {/* Admin Routes */}
+      <Route path="/admin/dashboard">
+        {() => <ProtectedRoute component={AdminDashboard} allowedRoles={['admin']} />}
+      </Route>
 
       {/* Fallback */}
       <Route component={NotFound} />
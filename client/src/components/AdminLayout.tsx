@@ -7,6 +7,7 @@ import {
   Users, 
   BookOpen, 
   BarChart, 
+  FileQuestion,
   Settings,
   Baby
 } from "lucide-react";
@@ -18,14 +19,16 @@ interface AdminLayoutProps {
 }
 
 export function AdminLayout({ children }: AdminLayoutProps) {
-  const { user, logout } = useAuth();
+  const { user, logout, logoutAll } = useAuth();
   const [location] = useLocation();
 
   const isTeacher = user?.role === 'teacher';
+  const isAdmin = user?.role === 'admin';
 
   const teacherNav = [
     { href: "/teacher/dashboard", icon: LayoutDashboard, label: "Dashboard" },
     { href: "/teacher/classes", icon: Users, label: "My Classes" },
+    { href: "/teacher/questions", icon: FileQuestion, label: "Questions" },
     { href: "/teacher/assignments", icon: BookOpen, label: "Assignments" },
     { href: "/teacher/analytics", icon: BarChart, label: "Analytics" },
   ];
@@ -36,18 +39,23 @@ export function AdminLayout({ children }: AdminLayoutProps) {
     { href: "/parent/settings", icon: Settings, label: "Settings" },
   ];
 
-  const navItems = isTeacher ? teacherNav : parentNav;
+  const adminNav = [
+    { href: "/admin/dashboard", icon: Users, label: "Users" },
+  ];
+
+  const navItems = isAdmin ? adminNav : isTeacher ? teacherNav : parentNav;
+  const portalName = isAdmin ? "Admin Portal" : isTeacher ? "Teacher Portal" : "Parent Portal";
 
   return (
     <div className="min-h-screen bg-slate-50 flex">
       {/* Sidebar */}
-      <aside className="w-64 bg-white border-r border-slate-200 hidden md:flex flex-col sticky top-0 h-screen">
+      <aside className="w-64 bg-white border-r border-slate-200 hidden md:flex flex-col sticky top-0 h-screen print:hidden">
         <div className="p-6">
           <h1 className="text-2xl font-bold text-slate-900 flex items-center gap-2 font-display">
             <span className="text-primary text-3xl">✦</span> EduKid
           </h1>
           <p className="text-xs text-slate-500 uppercase tracking-wider font-semibold mt-1 ml-9">
-            {isTeacher ? "Teacher Portal" : "Parent Portal"}
+            {portalName}
           </p>
         </div>
 
@@ -81,13 +89,16 @@ export function AdminLayout({ children }: AdminLayoutProps) {
             <LogOut className="w-4 h-4" />
             Sign Out
           </Button>
+          <Button variant="ghost" size="sm" className="w-full mt-1 text-xs text-slate-500" onClick={() => logoutAll()}>
+            Sign out on all devices
+          </Button>
         </div>
       </aside>
 
       {/* Main Content */}
       <div className="flex-1 flex flex-col min-w-0">
         {/* Mobile Header */}
-        <header className="bg-white border-b border-slate-200 md:hidden p-4 flex items-center justify-between sticky top-0 z-20">
+        <header className="bg-white border-b border-slate-200 md:hidden p-4 flex items-center justify-between sticky top-0 z-20 print:hidden">
           <h1 className="text-xl font-bold font-display">EduKid</h1>
           <Button size="icon" variant="ghost" onClick={() => logout()}>
             <LogOut className="w-5 h-5" />
@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { useAuth, useClassLogin } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { PicturePassword } from "@/components/PicturePassword";
+import { motion } from "framer-motion";
+import type { ClassLogin as ClassList } from "@shared/routes";
+
+// Remembered so a shared classroom tablet goes straight to the class list
+const CLASS_CODE_KEY = "edukid-class-code";
+
+const AVATAR_COLOURS = ["bg-pink-400", "bg-amber-400", "bg-emerald-400", "bg-sky-400", "bg-violet-400", "bg-rose-400"];
+
+const backButtonClass = "text-white/80 font-bold text-sm hover:text-white italic";
+
+// Student login in three taps: class code, your name, your pictures
+export function ClassLogin({ onUseUsername }: { onUseUsername: () => void }) {
+  const { pictureLogin, isLoggingIn } = useAuth();
+  const { mutate: findClass, isPending: isFinding } = useClassLogin();
+  const { toast } = useToast();
+  const [code, setCode] = useState(() => localStorage.getItem(CLASS_CODE_KEY) ?? "");
+  const [classList, setClassList] = useState<ClassList | null>(null);
+  const [student, setStudent] = useState<ClassList["students"][number] | null>(null);
+  const [attempt, setAttempt] = useState(0); // Clears the picked pictures after a wrong try
+
+  const handleFindClass = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    findClass(code, {
+      onSuccess: (result) => {
+        localStorage.setItem(CLASS_CODE_KEY, code);
+        setClassList(result);
+      },
+      onError: (error) => toast({ title: "Class not found", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  const handlePictures = (picturePassword: string[]) => {
+    if (!student) return;
+    pictureLogin({ code, studentId: student.id, picturePassword }, {
+      onError: () => setAttempt((n) => n + 1),
+    });
+  };
+
+  if (classList && student) {
+    return (
+      <div className="space-y-6 text-center">
+        <p className="text-white font-black text-2xl drop-shadow">Hi {student.firstName}!</p>
+        <PicturePassword
+          key={attempt}
+          icons={classList.icons}
+          length={student.pictureCount}
+          onComplete={handlePictures}
+          disabled={isLoggingIn}
+        />
+        <button type="button" className={backButtonClass} onClick={() => setStudent(null)}>
+          THAT'S NOT ME
+        </button>
+      </div>
+    );
+  }
+
+  if (classList) {
+    return (
+      <div className="space-y-6 text-center">
+        <p className="text-white font-black text-xl drop-shadow">{classList.className}: tap your name</p>
+        {classList.students.length === 0 ? (
+          <p className="text-white/80 font-bold">Nobody in this class can log in with pictures yet. Ask your teacher.</p>
+        ) : (
+          <div className="grid grid-cols-3 sm:grid-cols-4 gap-3 max-h-80 overflow-y-auto p-1">
+            {classList.students.map((s, i) => (
+              <motion.button
+                key={s.id}
+                type="button"
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={() => setStudent(s)}
+                className="flex flex-col items-center gap-1 rounded-2xl bg-white/90 p-3 shadow-md"
+              >
+                <span className={`w-12 h-12 rounded-full ${AVATAR_COLOURS[i % AVATAR_COLOURS.length]} flex items-center justify-center text-white font-black text-xl`}>
+                  {s.firstName.charAt(0).toUpperCase()}
+                </span>
+                <span className="text-purple-900 font-bold text-sm truncate max-w-full">{s.firstName}</span>
+              </motion.button>
+            ))}
+          </div>
+        )}
+        <button type="button" className={backButtonClass} onClick={() => setClassList(null)}>
+          NOT MY CLASS
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleFindClass} className="space-y-6">
+      <div className="grid grid-cols-[100px_1fr] items-center gap-4">
+        <label className="text-white font-black text-right text-sm drop-shadow">CLASS CODE</label>
+        <Input
+          value={code}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+          className="bg-white/95 border-[3px] border-white/50 rounded-xl h-12 text-purple-900 font-bold font-mono tracking-widest shadow-lg focus-visible:ring-4 focus-visible:ring-pink-400 focus-visible:border-white transition-all"
+        />
+      </div>
+      <div className="flex flex-col items-center gap-3 pt-4">
+        <Button
+          type="submit"
+          className="bg-gradient-to-r from-emerald-500 via-green-500 to-teal-500 hover:from-emerald-600 hover:via-green-600 hover:to-teal-600 text-white border-[3px] border-white/30 rounded-xl px-12 h-14 font-black text-xl shadow-[0_0_30px_rgba(16,185,129,0.5)] transition-all"
+          disabled={isFinding || !code.trim()}
+        >
+          {isFinding ? "FINDING..." : "FIND MY CLASS"}
+        </Button>
+        <button type="button" className={backButtonClass} onClick={onUseUsername}>
+          I HAVE A USERNAME AND PASSWORD
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,209 @@
+import { useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { ArrowDown, ArrowUp, GripVertical } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Answer, DragDropConfig } from "@shared/schema";
+
+interface DragDropQuestionProps {
+  config: DragDropConfig;
+  onSubmit: (answer: Answer) => void;
+  disabled?: boolean;
+  correctAnswer?: Answer; // Set once marked, to highlight each item
+}
+
+function shuffle<T>(items: T[]): T[] {
+  return [...items].sort(() => Math.random() - 0.5);
+}
+
+const itemClass = "px-5 py-4 rounded-2xl border-2 text-lg md:text-xl font-bold text-white transition-all";
+
+export function DragDropQuestion({ config, onSubmit, disabled, correctAnswer }: DragDropQuestionProps) {
+  return config.variant === "ordering"
+    ? <OrderingQuestion items={config.items} prompt={config.prompt} onSubmit={onSubmit} disabled={disabled} correctAnswer={correctAnswer} />
+    : <BucketingQuestion items={config.items} buckets={config.buckets} onSubmit={onSubmit} disabled={disabled} correctAnswer={correctAnswer} />;
+}
+
+function CheckButton({ onClick, disabled }: { onClick: () => void; disabled?: boolean }) {
+  return (
+    <motion.button
+      whileHover={{ scale: 1.05 }}
+      whileTap={{ scale: 0.95 }}
+      onClick={onClick}
+      disabled={disabled}
+      className="mt-6 w-full md:w-auto px-10 py-4 bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-2xl font-bold text-xl disabled:opacity-40"
+    >
+      Check ✓
+    </motion.button>
+  );
+}
+
+// === ORDERING ===
+// Drag to reorder, or use the arrow buttons (reachable by keyboard and screen readers).
+function OrderingQuestion({
+  items, prompt, onSubmit, disabled, correctAnswer,
+}: {
+  items: string[];
+  prompt?: string;
+  onSubmit: (answer: Answer) => void;
+  disabled?: boolean;
+  correctAnswer?: Answer;
+}) {
+  const [order, setOrder] = useState(() => shuffle(items));
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+
+  const move = (from: number, to: number) => {
+    if (disabled || to < 0 || to >= order.length || from === to) return;
+    const next = [...order];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    setOrder(next);
+    setAnnouncement(`${item} moved to position ${to + 1} of ${next.length}`);
+  };
+
+  const expected = Array.isArray(correctAnswer) ? correctAnswer : undefined;
+
+  return (
+    <div className="flex flex-col items-center">
+      {prompt && <p className="text-white/80 font-bold mb-4">{prompt}</p>}
+      <ol className="w-full max-w-xl space-y-3" aria-label="Items to put in order">
+        {order.map((item, idx) => (
+          <li
+            key={item}
+            draggable={!disabled}
+            onDragStart={() => setDragIndex(idx)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={() => {
+              if (dragIndex !== null) move(dragIndex, idx);
+              setDragIndex(null);
+            }}
+            className={cn(
+              itemClass,
+              "flex items-center gap-3",
+              !expected && "bg-white/10 border-white/20",
+              expected && (expected[idx] === item ? "bg-green-500/90 border-green-400" : "bg-red-500/90 border-red-400"),
+              dragIndex === idx && "opacity-50",
+              !disabled && "cursor-grab"
+            )}
+          >
+            <GripVertical className="w-5 h-5 text-white/50 shrink-0" aria-hidden />
+            <span className="w-8 text-white/60">{idx + 1}.</span>
+            <span className="flex-1">{item}</span>
+            <button
+              type="button"
+              onClick={() => move(idx, idx - 1)}
+              disabled={disabled || idx === 0}
+              aria-label={`Move ${item} up`}
+              className="p-2 rounded-full hover:bg-white/20 disabled:opacity-30"
+            >
+              <ArrowUp className="w-5 h-5" />
+            </button>
+            <button
+              type="button"
+              onClick={() => move(idx, idx + 1)}
+              disabled={disabled || idx === order.length - 1}
+              aria-label={`Move ${item} down`}
+              className="p-2 rounded-full hover:bg-white/20 disabled:opacity-30"
+            >
+              <ArrowDown className="w-5 h-5" />
+            </button>
+          </li>
+        ))}
+      </ol>
+      <p className="sr-only" aria-live="polite">{announcement}</p>
+      {!disabled && <CheckButton onClick={() => onSubmit(order)} />}
+    </div>
+  );
+}
+
+// === BUCKETING ===
+// Drag an item onto a bucket, or select an item then select a bucket.
+function BucketingQuestion({
+  items, buckets, onSubmit, disabled, correctAnswer,
+}: {
+  items: string[];
+  buckets: string[];
+  onSubmit: (answer: Answer) => void;
+  disabled?: boolean;
+  correctAnswer?: Answer;
+}) {
+  const shuffled = useMemo(() => shuffle(items), [items]);
+  const [placement, setPlacement] = useState<Record<string, string>>({});
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const place = (item: string, bucket: string | null) => {
+    if (disabled) return;
+    setPlacement((prev) => {
+      const next = { ...prev };
+      if (bucket) next[item] = bucket;
+      else delete next[item];
+      return next;
+    });
+    setSelected(null);
+  };
+
+  const expected = correctAnswer && typeof correctAnswer === "object" && !Array.isArray(correctAnswer)
+    ? correctAnswer
+    : undefined;
+  const unplaced = shuffled.filter((item) => !placement[item]);
+
+  const renderItem = (item: string) => (
+    <button
+      key={item}
+      type="button"
+      draggable={!disabled}
+      onDragStart={(e) => e.dataTransfer.setData("text/plain", item)}
+      onClick={() => placement[item] && !selected ? place(item, null) : setSelected(selected === item ? null : item)}
+      aria-pressed={selected === item}
+      disabled={disabled}
+      className={cn(
+        itemClass,
+        "py-2",
+        !expected && "bg-white/10 border-white/20 hover:bg-white/20",
+        expected && (expected[item] === placement[item] ? "bg-green-500/90 border-green-400" : "bg-red-500/90 border-red-400"),
+        selected === item && "ring-4 ring-yellow-400"
+      )}
+    >
+      {item}
+    </button>
+  );
+
+  return (
+    <div className="flex flex-col items-center w-full">
+      <div className="flex flex-wrap justify-center gap-3 min-h-[56px] mb-6" aria-label="Items to sort">
+        {unplaced.map(renderItem)}
+      </div>
+
+      <div className="grid gap-4 w-full" style={{ gridTemplateColumns: `repeat(${buckets.length}, minmax(0, 1fr))` }}>
+        {buckets.map((bucket) => (
+          <div
+            key={bucket}
+            role="button"
+            tabIndex={disabled ? -1 : 0}
+            aria-label={selected ? `Put ${selected} in ${bucket}` : bucket}
+            onClick={() => selected && place(selected, bucket)}
+            onKeyDown={(e) => {
+              if ((e.key === "Enter" || e.key === " ") && selected) {
+                e.preventDefault();
+                place(selected, bucket);
+              }
+            }}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => place(e.dataTransfer.getData("text/plain"), bucket)}
+            className={cn(
+              "rounded-3xl border-2 border-dashed border-white/30 p-4 min-h-[160px] flex flex-col items-center gap-3",
+              selected && "border-yellow-400 bg-white/5"
+            )}
+          >
+            <h3 className="text-white font-display font-bold text-xl">{bucket}</h3>
+            <div className="flex flex-wrap justify-center gap-2">
+              {shuffled.filter((item) => placement[item] === bucket).map(renderItem)}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {!disabled && <CheckButton onClick={() => onSubmit(placement)} disabled={unplaced.length > 0} />}
+    </div>
+  );
+}
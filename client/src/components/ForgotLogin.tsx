@@ -0,0 +1,72 @@
+import { useState } from "react";
+import { useForgotPassword } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { MailCheck } from "lucide-react";
+
+// Students cannot reset their own pictures, so they are sent to a grown-up.
+// Teachers and parents get a reset link by email.
+export function ForgotLogin({ role, onBack }: { role: "student" | "teacher" | "parent"; onBack: () => void }) {
+  const { mutate: forgotPassword, isPending, data: sent } = useForgotPassword();
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+
+  const backButton = (
+    <button type="button" className="text-white/80 font-bold text-sm hover:text-white italic" onClick={onBack}>
+      BACK TO LOG IN
+    </button>
+  );
+
+  if (role === "student") {
+    return (
+      <div className="space-y-6 text-center text-white">
+        <p className="font-bold text-lg">Ask your teacher or a grown-up at home to give you new login pictures.</p>
+        {backButton}
+      </div>
+    );
+  }
+
+  if (sent) {
+    return (
+      <div className="space-y-6 text-center text-white">
+        <MailCheck className="w-16 h-16 mx-auto" />
+        <p className="font-bold text-lg">{sent.message}</p>
+        {backButton}
+      </div>
+    );
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+    forgotPassword(email, {
+      onError: (error) => toast({ title: "Could not send", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-white font-bold text-center">Enter your email address and we'll send you a link to choose a new password.</p>
+      <div className="grid grid-cols-[100px_1fr] items-center gap-4">
+        <label className="text-white font-black text-right text-sm drop-shadow">EMAIL</label>
+        <Input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          className="bg-white/95 border-[3px] border-white/50 rounded-xl h-12 text-purple-900 font-bold shadow-lg focus-visible:ring-4 focus-visible:ring-pink-400 focus-visible:border-white transition-all"
+        />
+      </div>
+      <div className="flex flex-col items-center gap-3 pt-4">
+        <Button
+          type="submit"
+          className="bg-gradient-to-r from-emerald-500 via-green-500 to-teal-500 hover:from-emerald-600 hover:via-green-600 hover:to-teal-600 text-white border-[3px] border-white/30 rounded-xl px-12 h-14 font-black text-xl shadow-[0_0_30px_rgba(16,185,129,0.5)] transition-all"
+          disabled={isPending || !email.trim()}
+        >
+          {isPending ? "SENDING..." : "SEND RESET LINK"}
+        </Button>
+        {backButton}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { Delete } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface NumberPadProps {
+  onSubmit: (answer: string) => void;
+  unit?: string;
+  disabled?: boolean;
+  correct?: boolean; // Set once marked
+}
+
+const KEYS = ["7", "8", "9", "4", "5", "6", "1", "2", "3", "−", "0", "."];
+
+export function NumberPad({ onSubmit, unit, disabled, correct }: NumberPadProps) {
+  const [value, setValue] = useState("");
+
+  const press = (key: string) => {
+    if (disabled || value.length >= 12) return;
+    // A minus sign only makes sense at the start
+    if (key === "−" && value.length > 0) return;
+    setValue(value + key);
+  };
+
+  const submit = () => {
+    if (!disabled && value.trim()) onSubmit(value);
+  };
+
+  return (
+    <div className="max-w-sm mx-auto w-full">
+      <div className={cn(
+        "flex items-center gap-2 mb-4 bg-white/10 border-2 rounded-2xl px-5 py-3",
+        correct === undefined ? "border-white/30" : correct ? "border-green-400 bg-green-500/30" : "border-red-400 bg-red-500/30"
+      )}>
+        <input
+          value={value}
+          onChange={(e) => !disabled && setValue(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && submit()}
+          inputMode="decimal"
+          aria-label="Your answer"
+          disabled={disabled}
+          autoFocus
+          className="flex-1 min-w-0 bg-transparent text-white text-4xl font-display font-bold text-center outline-none"
+        />
+        {unit && <span className="text-2xl font-bold text-white/70">{unit}</span>}
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        {KEYS.map((key) => (
+          <motion.button
+            key={key}
+            type="button"
+            whileTap={{ scale: 0.9 }}
+            onClick={() => press(key)}
+            disabled={disabled}
+            className="h-16 rounded-2xl bg-white/10 border-2 border-white/20 text-white text-2xl font-bold hover:bg-white/20 disabled:opacity-40"
+          >
+            {key}
+          </motion.button>
+        ))}
+        <motion.button
+          type="button"
+          whileTap={{ scale: 0.9 }}
+          onClick={() => press("/")}
+          disabled={disabled}
+          aria-label="Fraction bar"
+          className="h-16 rounded-2xl bg-white/10 border-2 border-white/20 text-white text-2xl font-bold hover:bg-white/20 disabled:opacity-40"
+        >
+          /
+        </motion.button>
+        <motion.button
+          type="button"
+          whileTap={{ scale: 0.9 }}
+          onClick={() => setValue(value.slice(0, -1))}
+          disabled={disabled}
+          aria-label="Delete"
+          className="h-16 rounded-2xl bg-white/10 border-2 border-white/20 text-white flex items-center justify-center hover:bg-white/20 disabled:opacity-40"
+        >
+          <Delete className="w-7 h-7" />
+        </motion.button>
+        <motion.button
+          type="button"
+          whileTap={{ scale: 0.9 }}
+          onClick={submit}
+          disabled={disabled || !value.trim()}
+          className="h-16 rounded-2xl bg-gradient-to-r from-green-500 to-emerald-500 text-white text-2xl font-bold disabled:opacity-40"
+        >
+          ✓
+        </motion.button>
+      </div>
+    </div>
+  );
+}
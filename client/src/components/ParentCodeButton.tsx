@@ -0,0 +1,37 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { useCreateLinkCode } from "@/hooks/use-teacher";
+import { useToast } from "@/hooks/use-toast";
+import { KeyRound, Loader2 } from "lucide-react";
+
+// Makes a one-time code for a parent to link their account to this student.
+// Making another replaces the last, so the code is shown until the page is left.
+export function ParentCodeButton({ studentId }: { studentId: number }) {
+  const { mutate: createCode, isPending } = useCreateLinkCode();
+  const { toast } = useToast();
+  const [issued, setIssued] = useState<{ code: string; expiresAt: string } | null>(null);
+
+  const handleClick = () => {
+    createCode(studentId, {
+      onSuccess: setIssued,
+      onError: (error) => toast({ title: "Could not make a parent code", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  if (issued) {
+    return (
+      <span className="text-sm">
+        <span className="font-mono font-bold tracking-wider">{issued.code.slice(0, 4)}-{issued.code.slice(4)}</span>
+        <span className="text-slate-400"> until {format(new Date(issued.expiresAt), "d MMM")}</span>
+      </span>
+    );
+  }
+
+  return (
+    <Button variant="ghost" size="sm" className="gap-1" disabled={isPending} onClick={handleClick}>
+      {isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <KeyRound className="w-4 h-4" />}
+      Parent code
+    </Button>
+  );
+}
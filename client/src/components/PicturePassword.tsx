@@ -1,9 +1,13 @@
 import { useState } from "react";
-import { Apple, Car, Cat, Circle, Cloud, Dog, Moon, Star, Sun } from "lucide-react";
+import {
+  Apple, Banana, Bike, Bird, Cake, Car, Carrot, Cat, Circle, Cloud, Dog, Fish, Flower, Heart, House, Leaf, Moon,
+  Rabbit, Rocket, Snowflake, Star, Sun, TreePine, Turtle, Umbrella,
+} from "lucide-react";
 import { motion } from "framer-motion";
 import { cn } from "@/lib/utils";
 
-const ICONS = [
+// Ids match PICTURE_PASSWORD_ICONS in shared/schema.ts
+export const PICTURE_ICONS = [
   { id: "apple", icon: Apple, color: "text-red-500" },
   { id: "sun", icon: Sun, color: "text-yellow-500" },
   { id: "cat", icon: Cat, color: "text-orange-500" },
@@ -13,54 +17,82 @@ const ICONS = [
   { id: "dog", icon: Dog, color: "text-brown-500" },
   { id: "cloud", icon: Cloud, color: "text-sky-400" },
   { id: "circle", icon: Circle, color: "text-green-500" },
+  { id: "fish", icon: Fish, color: "text-cyan-500" },
+  { id: "bird", icon: Bird, color: "text-sky-600" },
+  { id: "flower", icon: Flower, color: "text-pink-500" },
+  { id: "tree", icon: TreePine, color: "text-emerald-600" },
+  { id: "heart", icon: Heart, color: "text-rose-500" },
+  { id: "rocket", icon: Rocket, color: "text-slate-600" },
+  { id: "bike", icon: Bike, color: "text-teal-600" },
+  { id: "house", icon: House, color: "text-amber-700" },
+  { id: "umbrella", icon: Umbrella, color: "text-violet-500" },
+  { id: "leaf", icon: Leaf, color: "text-lime-600" },
+  { id: "snowflake", icon: Snowflake, color: "text-blue-300" },
+  { id: "rabbit", icon: Rabbit, color: "text-stone-500" },
+  { id: "turtle", icon: Turtle, color: "text-green-700" },
+  { id: "banana", icon: Banana, color: "text-yellow-400" },
+  { id: "cake", icon: Cake, color: "text-fuchsia-500" },
+  { id: "carrot", icon: Carrot, color: "text-orange-600" },
 ];
 
+// A stored picture password drawn as its icons, e.g. on login cards
+export function PictureSequence({ ids, size = "w-6 h-6" }: { ids: string[]; size?: string }) {
+  return (
+    <div className="flex gap-1">
+      {ids.map((id, i) => {
+        const icon = PICTURE_ICONS.find(ic => ic.id === id);
+        return icon ? <icon.icon key={i} className={cn(size, icon.color)} /> : null;
+      })}
+    </div>
+  );
+}
+
 interface PicturePasswordProps {
+  icons: string[]; // The school's grid, from the class login
+  length: number; // Pictures in this student's password
   onComplete: (password: string[]) => void;
-  resetTrigger?: number;
+  disabled?: boolean;
 }
 
-export function PicturePassword({ onComplete, resetTrigger }: PicturePasswordProps) {
+// Remount with a new key to clear the picks, e.g. after a wrong try
+export function PicturePassword({ icons, length, onComplete, disabled }: PicturePasswordProps) {
   const [selected, setSelected] = useState<string[]>([]);
-
-  // Effect to reset selection if needed from parent
-  if (resetTrigger !== undefined && selected.length > 0 && resetTrigger > 0) {
-    // This is handled via key change in parent usually, but simple state clear here
-    // In a real app we'd use a more robust reset mechanism or key prop
-  }
+  const grid = PICTURE_ICONS.filter(ic => icons.includes(ic.id));
+  // Square-ish grids: 9 pictures in 3 columns, 16 in 4, 25 in 5
+  const columns = Math.ceil(Math.sqrt(grid.length));
 
   const handleSelect = (id: string) => {
-    if (selected.length >= 3) return;
+    if (selected.length >= length) return;
     
     const newSelected = [...selected, id];
     setSelected(newSelected);
     
-    if (newSelected.length === 3) {
+    if (newSelected.length === length) {
       onComplete(newSelected);
     }
   };
 
   const clearSelection = () => {
     setSelected([]);
-    onComplete([]); // Reset parent state
   };
 
   return (
     <div className="w-full max-w-md mx-auto">
       <div className="flex justify-between items-center mb-4">
-        <h3 className="text-lg font-bold font-display text-primary">Pick your 3 secret pictures:</h3>
+        <h3 className="text-lg font-bold font-display text-white">Pick your {length} secret pictures:</h3>
         <button 
+          type="button"
           onClick={clearSelection}
-          className="text-sm text-muted-foreground hover:text-destructive transition-colors underline"
+          className="text-sm text-white/80 hover:text-white transition-colors underline"
         >
           Reset
         </button>
       </div>
 
       <div className="flex justify-center gap-2 mb-6 h-12">
-        {[0, 1, 2].map((i) => {
+        {Array.from({ length }, (_, i) => {
           const id = selected[i];
-          const iconObj = ICONS.find(ic => ic.id === id);
+          const iconObj = PICTURE_ICONS.find(ic => ic.id === id);
           const Icon = iconObj?.icon;
 
           return (
@@ -68,7 +100,7 @@ export function PicturePassword({ onComplete, resetTrigger }: PicturePasswordPro
               key={i} 
               className={cn(
                 "w-12 h-12 rounded-full border-2 border-dashed flex items-center justify-center transition-all",
-                id ? "border-primary bg-primary/10 border-solid" : "border-muted-foreground/30"
+                id ? "border-white bg-white border-solid" : "border-white/40"
               )}
             >
               {Icon && <Icon className={cn("w-6 h-6", iconObj?.color)} />}
@@ -77,21 +109,22 @@ export function PicturePassword({ onComplete, resetTrigger }: PicturePasswordPro
         })}
       </div>
 
-      <div className="grid grid-cols-3 gap-4">
-        {ICONS.map(({ id, icon: Icon, color }) => (
+      <div className="grid gap-3" style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}>
+        {grid.map(({ id, icon: Icon, color }) => (
           <motion.button
             key={id}
+            type="button"
             whileHover={{ scale: 1.05 }}
             whileTap={{ scale: 0.95 }}
             onClick={() => handleSelect(id)}
-            disabled={selected.length >= 3}
+            disabled={disabled || selected.length >= length}
             className={cn(
-              "aspect-square rounded-2xl bg-card border-2 shadow-sm flex items-center justify-center transition-all",
+              "aspect-square rounded-2xl bg-white border-2 shadow-sm flex items-center justify-center transition-all",
               "hover:border-primary/50 hover:shadow-md",
-              selected.includes(id) ? "border-primary ring-2 ring-primary/20 bg-primary/5" : "border-border"
+              selected.includes(id) ? "border-primary ring-2 ring-primary/20" : "border-border"
             )}
           >
-            <Icon className={cn("w-8 h-8 sm:w-10 sm:h-10", color)} />
+            <Icon className={cn(columns > 4 ? "w-6 h-6 sm:w-8 sm:h-8" : "w-8 h-8 sm:w-10 sm:h-10", color)} />
           </motion.button>
         ))}
       </div>
@@ -0,0 +1,106 @@
+import { motion } from "framer-motion";
+import { Check, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { DragDropQuestion } from "@/components/DragDropQuestion";
+import { NumberPad } from "@/components/NumberPad";
+import { dragDropConfigSchema, numericConfigSchema, type Answer } from "@shared/schema";
+import type { ServedQuestion } from "@shared/routes";
+
+export interface QuestionResult {
+  correct?: boolean; // Unknown in a teacher preview of a numeric or drag-drop question
+  correctAnswer: Answer;
+}
+
+interface QuestionViewProps {
+  question: Pick<ServedQuestion, "id" | "content" | "type" | "config" | "options">;
+  onAnswer: (answer: Answer) => void;
+  selectedAnswer: Answer | null;
+  result?: QuestionResult | null;
+  disabled?: boolean;
+}
+
+// The question card and answer area as students see them in a game
+export function QuestionView({ question, onAnswer, selectedAnswer, result, disabled }: QuestionViewProps) {
+  const dragDropConfig = question.type === "drag_drop" ? dragDropConfigSchema.safeParse(question.config).data : undefined;
+  const numericConfig = question.type === "numeric" ? numericConfigSchema.safeParse(question.config ?? {}).data : undefined;
+  const locked = !!result || disabled;
+
+  return (
+    <>
+      <div className="bg-white/10 backdrop-blur-md border border-white/20 rounded-3xl p-8 md:p-12 text-white shadow-2xl mb-8">
+        <h2 className="text-2xl md:text-4xl font-display font-bold text-center leading-relaxed">
+          {question.content}
+        </h2>
+      </div>
+
+      {dragDropConfig ? (
+        <DragDropQuestion
+          key={question.id}
+          config={dragDropConfig}
+          onSubmit={onAnswer}
+          disabled={locked}
+          correctAnswer={result?.correctAnswer}
+        />
+      ) : numericConfig ? (
+        <NumberPad
+          key={question.id}
+          unit={numericConfig.unit}
+          onSubmit={onAnswer}
+          disabled={locked}
+          correct={result?.correct}
+        />
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6">
+          {question.options.map((option, idx) => {
+            let statusClass = "bg-white/10 border-white/20 hover:bg-white/20 hover:border-white/40 hover:scale-105";
+            const isCorrectOption = result && option === result.correctAnswer;
+            const isWrongPick = result && selectedAnswer === option && !isCorrectOption;
+
+            if (isCorrectOption) {
+              statusClass = "bg-green-500/90 border-green-400 ring-4 ring-green-400/50 scale-105";
+            } else if (isWrongPick) {
+              statusClass = "bg-red-500/90 border-red-400 scale-95";
+            } else if (result) {
+              statusClass = "opacity-40 bg-white/5 border-transparent scale-95";
+            }
+
+            return (
+              <motion.button
+                key={idx}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: idx * 0.1 }}
+                onClick={() => onAnswer(option)}
+                disabled={locked}
+                className={cn(
+                  "p-6 rounded-2xl border-2 text-xl md:text-2xl font-bold text-white transition-all duration-300 text-center relative overflow-hidden",
+                  statusClass
+                )}
+              >
+                <span className="relative z-10">{option}</span>
+                {isCorrectOption && (
+                  <motion.div
+                    initial={{ scale: 0 }}
+                    animate={{ scale: 1 }}
+                    className="absolute right-4 top-1/2 -translate-y-1/2"
+                  >
+                    <Check className="w-8 h-8 text-white" />
+                  </motion.div>
+                )}
+                {isWrongPick && (
+                  <motion.div
+                    initial={{ scale: 0 }}
+                    animate={{ scale: 1 }}
+                    className="absolute right-4 top-1/2 -translate-y-1/2"
+                  >
+                    <X className="w-8 h-8 text-white" />
+                  </motion.div>
+                )}
+              </motion.button>
+            );
+          })}
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useRegister, useResendVerification } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormField, FormItem, FormMessage } from "@/components/ui/form";
+import { MailCheck } from "lucide-react";
+import { registerSchema } from "@shared/routes";
+
+const formSchema = registerSchema.omit({ role: true });
+type FormValues = z.infer<typeof formSchema>;
+
+const FIELDS: { name: keyof FormValues; label: string; type?: string }[] = [
+  { name: "firstName", label: "FIRST NAME" },
+  { name: "email", label: "EMAIL", type: "email" },
+  { name: "username", label: "USERNAME" },
+  { name: "password", label: "PASSWORD", type: "password" },
+];
+
+// Sign-up for teachers and parents. The account works once the emailed link is opened.
+export function RegisterForm({ role, onBack }: { role: "teacher" | "parent"; onBack: () => void }) {
+  const { mutate: register, isPending } = useRegister();
+  const { mutate: resend, isPending: isResending } = useResendVerification();
+  const { toast } = useToast();
+  const [sentTo, setSentTo] = useState<{ email: string; message: string } | null>(null);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: { firstName: "", email: "", username: "", password: "" },
+  });
+
+  const onSubmit = (data: FormValues) => {
+    register({ ...data, role }, {
+      onSuccess: (result) => setSentTo({ email: data.email, message: result.message }),
+      onError: (error) => toast({ title: "Sign-up failed", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  if (sentTo) {
+    return (
+      <div className="space-y-6 text-center text-white">
+        <MailCheck className="w-16 h-16 mx-auto" />
+        <p className="font-bold text-lg">{sentTo.message}</p>
+        <div className="flex flex-col gap-3 items-center">
+          <Button
+            variant="outline"
+            className="bg-white/90 text-purple-700 border-2 border-white rounded-xl font-bold"
+            disabled={isResending}
+            onClick={() => resend(sentTo.email, {
+              onSuccess: (result) => toast({ title: "Email sent", description: result.message }),
+              onError: (error) => toast({ title: "Could not send", description: error.message, variant: "destructive" }),
+            })}
+          >
+            Send the link again
+          </Button>
+          <button className="text-white/80 font-bold text-sm hover:text-white italic" onClick={onBack}>
+            BACK TO LOG IN
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        {FIELDS.map(({ name, label, type }) => (
+          <div key={name} className="grid grid-cols-[100px_1fr] items-center gap-4">
+            <label className="text-white font-black text-right text-sm drop-shadow">{label}</label>
+            <FormField
+              control={form.control}
+              name={name}
+              render={({ field }) => (
+                <FormItem className="space-y-0">
+                  <FormControl>
+                    <Input
+                      type={type}
+                      className="bg-white/95 border-[3px] border-white/50 rounded-xl h-12 text-purple-900 font-bold shadow-lg focus-visible:ring-4 focus-visible:ring-pink-400 focus-visible:border-white transition-all"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage className="text-pink-300 font-bold" />
+                </FormItem>
+              )}
+            />
+          </div>
+        ))}
+
+        <div className="flex flex-col items-center gap-3 pt-4">
+          <Button
+            type="submit"
+            className="bg-gradient-to-r from-emerald-500 via-green-500 to-teal-500 hover:from-emerald-600 hover:via-green-600 hover:to-teal-600 text-white border-[3px] border-white/30 rounded-xl px-12 h-14 font-black text-xl shadow-[0_0_30px_rgba(16,185,129,0.5)] transition-all"
+            disabled={isPending}
+          >
+            {isPending ? "SIGNING UP..." : `SIGN UP AS ${role === "teacher" ? "A TEACHER" : "A PARENT"}`}
+          </Button>
+          <button type="button" className="text-white/80 font-bold text-sm hover:text-white italic" onClick={onBack}>
+            I ALREADY HAVE AN ACCOUNT
+          </button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -6,7 +6,8 @@ import {
   Rocket, 
   Home, 
   Gamepad2, 
-  Trophy 
+  Trophy,
+  ClipboardList
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
@@ -21,6 +22,7 @@ export function StudentLayout({ children }: StudentLayoutProps) {
   const navItems = [
     { href: "/student/dashboard", icon: Home, label: "My Room" },
     { href: "/student/mission-control", icon: Rocket, label: "Missions" },
+    { href: "/student/assignments", icon: ClipboardList, label: "Tasks" },
     { href: "/student/achievements", icon: Trophy, label: "Awards" },
   ];
 
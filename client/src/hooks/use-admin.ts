@@ -0,0 +1,13 @@
+import { useQuery } from "@tanstack/react-query";
+import { api } from "@shared/routes";
+
+export function useUsers() {
+  return useQuery({
+    queryKey: [api.admin.getUsers.path],
+    queryFn: async () => {
+      const res = await fetch(api.admin.getUsers.path);
+      if (!res.ok) throw new Error("Failed to fetch users");
+      return api.admin.getUsers.responses[200].parse(await res.json());
+    },
+  });
+}
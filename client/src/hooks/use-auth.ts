@@ -1,10 +1,11 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { api, type User } from "@shared/routes";
+import { api, buildUrl, type PublicUser, type RegisterInput } from "@shared/routes";
 import { z } from "zod";
 import { useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
 
 type LoginInput = z.infer<typeof api.auth.login.input>;
+type PictureLoginInput = z.infer<typeof api.auth.pictureLogin.input>;
 
 export function useAuth() {
   const queryClient = useQueryClient();
@@ -22,6 +23,28 @@ export function useAuth() {
     retry: false,
   });
 
+  const onSignedIn = (user: PublicUser) => {
+    queryClient.setQueryData([api.auth.me.path], user);
+    toast({
+      title: `Welcome back, ${user.firstName}!`,
+      description: "Let's get learning!",
+    });
+    
+    // Redirect based on role
+    if (user.role === "student") setLocation("/student/dashboard");
+    else if (user.role === "teacher") setLocation("/teacher/dashboard");
+    else if (user.role === "parent") setLocation("/parent/dashboard");
+    else if (user.role === "admin") setLocation("/admin/dashboard");
+  };
+
+  const onLoginError = (error: Error) => {
+    toast({
+      title: "Login failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
   const loginMutation = useMutation({
     mutationFn: async (data: LoginInput) => {
       const res = await fetch(api.auth.login.path, {
@@ -32,29 +55,28 @@ export function useAuth() {
 
       if (!res.ok) {
         if (res.status === 401) throw new Error("Invalid credentials");
+        if (res.status === 403 || res.status === 429) throw new Error((await res.json()).message);
         throw new Error("Login failed");
       }
       return api.auth.login.responses[200].parse(await res.json());
     },
-    onSuccess: (user) => {
-      queryClient.setQueryData([api.auth.me.path], user);
-      toast({
-        title: `Welcome back, ${user.firstName}!`,
-        description: "Let's get learning!",
-      });
-      
-      // Redirect based on role
-      if (user.role === "student") setLocation("/student/dashboard");
-      else if (user.role === "teacher") setLocation("/teacher/dashboard");
-      else if (user.role === "parent") setLocation("/parent/dashboard");
-    },
-    onError: (error) => {
-      toast({
-        title: "Login failed",
-        description: error.message,
-        variant: "destructive",
+    onSuccess: onSignedIn,
+    onError: onLoginError,
+  });
+
+  // A young student chosen from their class list, signing in with pictures
+  const pictureLoginMutation = useMutation({
+    mutationFn: async (data: PictureLoginInput) => {
+      const res = await fetch(api.auth.pictureLogin.path, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
       });
+      if (!res.ok) throw new Error((await res.json()).message || "Login failed");
+      return api.auth.pictureLogin.responses[200].parse(await res.json());
     },
+    onSuccess: onSignedIn,
+    onError: onLoginError,
   });
 
   const logoutMutation = useMutation({
@@ -68,11 +90,125 @@ export function useAuth() {
     },
   });
 
+  // Ends every session for this account, on other devices too
+  const logoutAllMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(api.auth.logoutAll.path, { method: "POST" });
+      if (!res.ok) throw new Error("Logout failed");
+    },
+    onSuccess: () => {
+      queryClient.setQueryData([api.auth.me.path], null);
+      setLocation("/");
+    },
+  });
+
   return {
     user: userQuery.data,
     isLoading: userQuery.isLoading,
     login: loginMutation.mutate,
-    isLoggingIn: loginMutation.isPending,
+    pictureLogin: pictureLoginMutation.mutate,
+    isLoggingIn: loginMutation.isPending || pictureLoginMutation.isPending,
     logout: logoutMutation.mutate,
+    logoutAll: logoutAllMutation.mutate,
   };
 }
+
+// Looks up a class code, for the class list and picture grid
+export function useClassLogin() {
+  return useMutation({
+    mutationFn: async (code: string) => {
+      const res = await fetch(api.auth.classLogin.path, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code }),
+      });
+      if (!res.ok) throw new Error((await res.json()).message || "Could not find that class");
+      return api.auth.classLogin.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useRegister() {
+  return useMutation({
+    mutationFn: async (data: RegisterInput) => {
+      const res = await fetch(api.auth.register.path, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) throw new Error((await res.json()).message || "Sign-up failed");
+      return api.auth.register.responses[201].parse(await res.json());
+    },
+  });
+}
+
+export function useVerifyEmail() {
+  return useMutation({
+    mutationFn: async (token: string) => {
+      const res = await fetch(api.auth.verifyEmail.path, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+      });
+      if (!res.ok) throw new Error((await res.json()).message || "Could not confirm email address");
+      return api.auth.verifyEmail.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useResendVerification() {
+  return useMutation({
+    mutationFn: async (email: string) => {
+      const res = await fetch(api.auth.resendVerification.path, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email }),
+      });
+      if (!res.ok) throw new Error((await res.json()).message || "Could not send the email");
+      return api.auth.resendVerification.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useForgotPassword() {
+  return useMutation({
+    mutationFn: async (email: string) => {
+      const res = await fetch(api.auth.forgotPassword.path, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email }),
+      });
+      if (!res.ok) throw new Error((await res.json()).message || "Could not send the email");
+      return api.auth.forgotPassword.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useResetPassword() {
+  return useMutation({
+    mutationFn: async (data: { token: string; password: string }) => {
+      const res = await fetch(api.auth.resetPassword.path, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) throw new Error((await res.json()).message || "Could not reset password");
+      return api.auth.resetPassword.responses[200].parse(await res.json());
+    },
+  });
+}
+
+// For a teacher or parent giving a child new pictures
+export function useResetPicturePassword() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (studentId: number) => {
+      const res = await fetch(buildUrl(api.students.resetPicturePassword.path, { id: studentId }), { method: "POST" });
+      if (!res.ok) throw new Error((await res.json()).message || "Could not reset pictures");
+      return api.students.resetPicturePassword.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.roster.list.path] });
+    },
+  });
+}
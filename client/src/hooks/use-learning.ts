@@ -1,5 +1,19 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { api, buildUrl } from "@shared/routes";
+import { api, buildUrl, type SubmitAnswerInput } from "@shared/routes";
+
+export function useSubjects(stage?: string) {
+  return useQuery({
+    queryKey: [api.learning.getSubjects.path, stage],
+    queryFn: async () => {
+      const url = stage
+        ? `${api.learning.getSubjects.path}?stage=${stage}`
+        : api.learning.getSubjects.path;
+      const res = await fetch(url);
+      if (!res.ok) throw new Error("Failed to fetch subjects");
+      return api.learning.getSubjects.responses[200].parse(await res.json());
+    },
+  });
+}
 
 export function useTopics(stage?: string, subjectId?: number) {
   return useQuery({
@@ -34,25 +48,83 @@ export function useQuestion(topicId: number) {
   });
 }
 
+// Resolves to null once every question in the quiz has been answered
+export function useQuizQuestion(assignmentId: number) {
+  return useQuery({
+    queryKey: [api.learning.getQuizQuestion.path, assignmentId],
+    queryFn: async () => {
+      const res = await fetch(`${api.learning.getQuizQuestion.path}?assignmentId=${assignmentId}`);
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error("Failed to fetch question");
+      return api.learning.getQuizQuestion.responses[200].parse(await res.json());
+    },
+    enabled: !!assignmentId,
+    staleTime: 0,
+  });
+}
+
 export function useSubmitAnswer() {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: async (data: { questionId: number; answer: string; timeTaken: number }) => {
+    mutationFn: async (data: SubmitAnswerInput) => {
       const res = await fetch(api.learning.submitAnswer.path, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(data),
       });
-      if (!res.ok) throw new Error("Failed to submit answer");
+      if (!res.ok) throw new Error((await res.json()).message || "Failed to submit answer");
       return api.learning.submitAnswer.responses[200].parse(await res.json());
     },
     onSuccess: () => {
       // Invalidate questions so we get a new one next time
       queryClient.invalidateQueries({ queryKey: [api.learning.getNextQuestion.path] });
+      queryClient.invalidateQueries({ queryKey: [api.learning.getQuizQuestion.path] });
       // Update topics to reflect new mastery scores
       queryClient.invalidateQueries({ queryKey: [api.learning.getTopics.path] });
       // Update user coins
       queryClient.invalidateQueries({ queryKey: [api.auth.me.path] });
+      // Answers may complete an assignment
+      queryClient.invalidateQueries({ queryKey: [api.assignments.mine.path] });
+    },
+  });
+}
+
+export function useMyAssignments() {
+  return useQuery({
+    queryKey: [api.assignments.mine.path],
+    queryFn: async () => {
+      const res = await fetch(api.assignments.mine.path);
+      if (!res.ok) throw new Error("Failed to fetch assignments");
+      return api.assignments.mine.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useClassMembership() {
+  return useQuery({
+    queryKey: [api.classJoin.status.path],
+    queryFn: async () => {
+      const res = await fetch(api.classJoin.status.path);
+      if (!res.ok) throw new Error("Failed to fetch class");
+      return api.classJoin.status.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useJoinClass() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (code: string) => {
+      const res = await fetch(api.classJoin.join.path, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code }),
+      });
+      if (!res.ok) throw new Error((await res.json()).message || "Failed to join class");
+      return api.classJoin.join.responses[201].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.classJoin.status.path] });
     },
   });
 }
@@ -1,5 +1,5 @@
-import { useQuery } from "@tanstack/react-query";
-import { api } from "@shared/routes";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
 
 export function useChildren() {
   return useQuery({
@@ -11,3 +11,52 @@ export function useChildren() {
     },
   });
 }
+
+export function useJoinClassForChild() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ childId, code }: { childId: number; code: string }) => {
+      const res = await fetch(buildUrl(api.classJoin.joinForChild.path, { id: childId }), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code }),
+      });
+      if (!res.ok) throw new Error((await res.json()).message || "Failed to join class");
+      return api.classJoin.joinForChild.responses[201].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.parent.getChildren.path] });
+    },
+  });
+}
+
+export function useLinkChild() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (code: string) => {
+      const res = await fetch(api.parent.linkChild.path, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code }),
+      });
+      if (!res.ok) throw new Error((await res.json()).message || "Failed to link child");
+      return api.parent.linkChild.responses[201].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.parent.getChildren.path] });
+    },
+  });
+}
+
+export function useUnlinkChild() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (childId: number) => {
+      const res = await fetch(buildUrl(api.parent.unlinkChild.path, { id: childId }), { method: "DELETE" });
+      if (!res.ok) throw new Error((await res.json()).message || "Failed to unlink child");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.parent.getChildren.path] });
+    },
+  });
+}
@@ -1,5 +1,9 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { api, type InsertClass } from "@shared/routes";
+import {
+  api, buildUrl,
+  type InsertClass, type AnalyticsFilters, type CreateAssignmentInput, type UpdateAssignmentInput,
+  type QuestionInput, type QuizInput, type AddStudentInput, type PictureSettings,
+} from "@shared/routes";
 
 export function useClasses() {
   return useQuery({
@@ -30,17 +34,308 @@ export function useCreateClass() {
   });
 }
 
-export function useAnalytics(classId?: number) {
+export function useRegenerateClassCode() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (classId: number) => {
+      const res = await fetch(buildUrl(api.teacher.regenerateCode.path, { id: classId }), { method: "POST" });
+      if (!res.ok) throw new Error((await res.json()).message || "Failed to change class code");
+      return api.teacher.regenerateCode.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.teacher.getClasses.path] });
+    },
+  });
+}
+
+export function useUpdatePictureSettings(classId: number) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (settings: PictureSettings) => {
+      const res = await fetch(buildUrl(api.teacher.updatePictureSettings.path, { id: classId }), {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(settings),
+      });
+      if (!res.ok) throw new Error((await res.json()).message || "Failed to save picture settings");
+      return api.teacher.updatePictureSettings.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.teacher.getClasses.path] });
+    },
+  });
+}
+
+export function useAnalytics(classId?: number, filters: AnalyticsFilters = {}) {
   return useQuery({
-    queryKey: [api.teacher.getAnalytics.path, classId],
+    queryKey: [api.teacher.getAnalytics.path, classId, filters],
     queryFn: async () => {
-      const url = classId 
-        ? `${api.teacher.getAnalytics.path}?classId=${classId}` 
+      const params = new URLSearchParams();
+      if (classId) params.append("classId", String(classId));
+      if (filters.subjectId) params.append("subjectId", String(filters.subjectId));
+      if (filters.from) params.append("from", filters.from.toISOString());
+      if (filters.to) params.append("to", filters.to.toISOString());
+
+      const url = params.toString()
+        ? `${api.teacher.getAnalytics.path}?${params.toString()}`
         : api.teacher.getAnalytics.path;
-      
+
       const res = await fetch(url);
       if (!res.ok) throw new Error("Failed to fetch analytics");
       return api.teacher.getAnalytics.responses[200].parse(await res.json());
     },
   });
 }
+
+export function useAssignments() {
+  return useQuery({
+    queryKey: [api.assignments.list.path],
+    queryFn: async () => {
+      const res = await fetch(api.assignments.list.path);
+      if (!res.ok) throw new Error("Failed to fetch assignments");
+      return api.assignments.list.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useCreateAssignment() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (data: CreateAssignmentInput) => {
+      const res = await fetch(api.assignments.create.path, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) throw new Error((await res.json()).message || "Failed to create assignment");
+      return api.assignments.create.responses[201].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.assignments.list.path] });
+    },
+  });
+}
+
+export function useUpdateAssignment() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, ...data }: UpdateAssignmentInput & { id: number }) => {
+      const res = await fetch(buildUrl(api.assignments.update.path, { id }), {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) throw new Error("Failed to update assignment");
+      return api.assignments.update.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.assignments.list.path] });
+    },
+  });
+}
+
+export function useDeleteAssignment() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const res = await fetch(buildUrl(api.assignments.delete.path, { id }), { method: "DELETE" });
+      if (!res.ok) throw new Error("Failed to delete assignment");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.assignments.list.path] });
+    },
+  });
+}
+
+export function useMyQuestions() {
+  return useQuery({
+    queryKey: [api.questions.list.path],
+    queryFn: async () => {
+      const res = await fetch(api.questions.list.path);
+      if (!res.ok) throw new Error("Failed to fetch questions");
+      return api.questions.list.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useSaveQuestion() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, ...data }: QuestionInput & { id?: number }) => {
+      const res = await fetch(id ? buildUrl(api.questions.update.path, { id }) : api.questions.create.path, {
+        method: id ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) throw new Error((await res.json()).message || "Failed to save question");
+      return api.questions.create.responses[201].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.questions.list.path] });
+    },
+  });
+}
+
+export function useDeleteQuestion() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const res = await fetch(buildUrl(api.questions.delete.path, { id }), { method: "DELETE" });
+      if (!res.ok) throw new Error("Failed to delete question");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.questions.list.path] });
+      // Deleted questions drop out of any quiz
+      queryClient.invalidateQueries({ queryKey: [api.quizzes.list.path] });
+    },
+  });
+}
+
+export function useQuizzes() {
+  return useQuery({
+    queryKey: [api.quizzes.list.path],
+    queryFn: async () => {
+      const res = await fetch(api.quizzes.list.path);
+      if (!res.ok) throw new Error("Failed to fetch quizzes");
+      return api.quizzes.list.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useSaveQuiz() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, ...data }: QuizInput & { id?: number }) => {
+      const res = await fetch(id ? buildUrl(api.quizzes.update.path, { id }) : api.quizzes.create.path, {
+        method: id ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) throw new Error((await res.json()).message || "Failed to save quiz");
+      return api.quizzes.update.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.quizzes.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.assignments.list.path] });
+    },
+  });
+}
+
+export function useDeleteQuiz() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const res = await fetch(buildUrl(api.quizzes.delete.path, { id }), { method: "DELETE" });
+      if (!res.ok) throw new Error((await res.json()).message || "Failed to delete quiz");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.quizzes.list.path] });
+    },
+  });
+}
+
+export function useRoster(classId: number) {
+  return useQuery({
+    queryKey: [api.roster.list.path, classId],
+    queryFn: async () => {
+      const res = await fetch(buildUrl(api.roster.list.path, { id: classId }));
+      if (!res.ok) throw new Error((await res.json()).message || "Failed to fetch students");
+      return api.roster.list.responses[200].parse(await res.json());
+    },
+    enabled: !!classId,
+  });
+}
+
+// Fetched only when the teacher prints, so pictures are not kept on screen
+export function useLoginCards(classId: number) {
+  return useQuery({
+    queryKey: [api.roster.loginCards.path, classId],
+    queryFn: async () => {
+      const res = await fetch(buildUrl(api.roster.loginCards.path, { id: classId }));
+      if (!res.ok) throw new Error((await res.json()).message || "Failed to fetch login cards");
+      return api.roster.loginCards.responses[200].parse(await res.json());
+    },
+    enabled: false,
+  });
+}
+
+function invalidateRoster(queryClient: ReturnType<typeof useQueryClient>, classId: number) {
+  queryClient.invalidateQueries({ queryKey: [api.roster.list.path, classId] });
+  queryClient.invalidateQueries({ queryKey: [api.teacher.getClasses.path] });
+}
+
+export function useAddStudent(classId: number) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (data: AddStudentInput) => {
+      const res = await fetch(buildUrl(api.roster.addStudent.path, { id: classId }), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) throw new Error((await res.json()).message || "Failed to add student");
+      return api.roster.addStudent.responses[201].parse(await res.json());
+    },
+    onSuccess: () => invalidateRoster(queryClient, classId),
+  });
+}
+
+export function useImportRoster(classId: number) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (data: { data: string; dryRun?: boolean }) => {
+      const res = await fetch(buildUrl(api.roster.import.path, { id: classId }), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) throw new Error((await res.json()).message || "Failed to import roster");
+      return api.roster.import.responses[200].parse(await res.json());
+    },
+    onSuccess: (result) => {
+      if (result.created.length) invalidateRoster(queryClient, classId);
+    },
+  });
+}
+
+export function useJoinRequests(classId: number) {
+  return useQuery({
+    queryKey: [api.classJoin.pending.path, classId],
+    queryFn: async () => {
+      const res = await fetch(buildUrl(api.classJoin.pending.path, { id: classId }));
+      if (!res.ok) throw new Error((await res.json()).message || "Failed to fetch join requests");
+      return api.classJoin.pending.responses[200].parse(await res.json());
+    },
+    enabled: !!classId,
+  });
+}
+
+export function useDecideJoinRequest(classId: number) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ requestId, approve }: { requestId: number; approve: boolean }) => {
+      const res = await fetch(buildUrl(api.classJoin.decide.path, { id: classId, requestId }), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ approve }),
+      });
+      if (!res.ok) throw new Error((await res.json()).message || "Failed to answer join request");
+      return api.classJoin.decide.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.classJoin.pending.path, classId] });
+      invalidateRoster(queryClient, classId);
+    },
+  });
+}
+
+// Teachers for their own students; admins for any student
+export function useCreateLinkCode() {
+  return useMutation({
+    mutationFn: async (studentId: number) => {
+      const res = await fetch(buildUrl(api.guardians.createLinkCode.path, { id: studentId }), { method: "POST" });
+      if (!res.ok) throw new Error((await res.json()).message || "Failed to create parent code");
+      return api.guardians.createLinkCode.responses[201].parse(await res.json());
+    },
+  });
+}
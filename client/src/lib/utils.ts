@@ -4,3 +4,14 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+export function formatDuration(seconds: number) {
+  const minutes = Math.round(seconds / 60)
+  return minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
+
+// Gradient background for a subject or topic from its stored hex colour,
+// darkening towards the far corner
+export function colorGradient(color: string, direction = "to bottom right") {
+  return { backgroundImage: `linear-gradient(${direction}, ${color}, color-mix(in srgb, ${color}, black 30%))` }
+}
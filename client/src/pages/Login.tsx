@@ -3,7 +3,9 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useAuth } from "@/hooks/use-auth";
-import { PicturePassword } from "@/components/PicturePassword";
+import { RegisterForm } from "@/components/RegisterForm";
+import { ForgotLogin } from "@/components/ForgotLogin";
+import { ClassLogin } from "@/components/ClassLogin";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -28,6 +30,8 @@ export default function Login() {
   const [role, setRole] = useState<"student" | "teacher" | "parent">("student");
   const [floatingNumbers, setFloatingNumbers] = useState<FloatingNumber[]>([]);
   const [isAnimating, setIsAnimating] = useState(false);
+  const [mode, setMode] = useState<"login" | "register" | "forgot">("login"); // Only teachers and parents register
+  const [studentUsesClass, setStudentUsesClass] = useState(true); // Class code and pictures, or username and password
 
   const studentForm = useForm<z.infer<typeof studentSchema>>({
     resolver: zodResolver(studentSchema),
@@ -177,110 +181,144 @@ export default function Login() {
               </div>
             </div>
 
-            <Form {...(role === 'student' ? studentForm : standardForm)}>
-              <form 
-                onSubmit={role === 'student' ? studentForm.handleSubmit(onStudentSubmit) : standardForm.handleSubmit(onStandardSubmit)} 
-                className="space-y-6"
-              >
-                <div className="grid grid-cols-[100px_1fr] items-center gap-4">
-                  <label className="text-white font-black text-right text-sm drop-shadow">USERNAME</label>
-                  <FormField
-                    control={(role === 'student' ? studentForm : standardForm).control}
-                    name="username"
-                    render={({ field }) => (
-                      <FormItem className="space-y-0">
-                        <FormControl>
-                          <Input 
-                            className="bg-white/95 border-[3px] border-white/50 rounded-xl h-12 text-purple-900 font-bold shadow-lg focus-visible:ring-4 focus-visible:ring-pink-400 focus-visible:border-white transition-all" 
-                            {...field} 
-                          />
-                        </FormControl>
-                        <FormMessage className="text-pink-300 font-bold" />
-                      </FormItem>
-                    )}
-                  />
-                </div>
+            {mode === "register" && role !== "student" ? (
+              <RegisterForm role={role} onBack={() => setMode("login")} />
+            ) : mode === "forgot" ? (
+              <ForgotLogin role={role} onBack={() => setMode("login")} />
+            ) : (
+              <>
+                {role === "student" && studentUsesClass ? (
+                  <ClassLogin onUseUsername={() => setStudentUsesClass(false)} />
+                ) : (
+                  <Form {...(role === 'student' ? studentForm : standardForm)}>
+                    <form 
+                      onSubmit={role === 'student' ? studentForm.handleSubmit(onStudentSubmit) : standardForm.handleSubmit(onStandardSubmit)} 
+                      className="space-y-6"
+                    >
+                      <div className="grid grid-cols-[100px_1fr] items-center gap-4">
+                        <label className="text-white font-black text-right text-sm drop-shadow">USERNAME</label>
+                        <FormField
+                          control={(role === 'student' ? studentForm : standardForm).control}
+                          name="username"
+                          render={({ field }) => (
+                            <FormItem className="space-y-0">
+                              <FormControl>
+                                <Input 
+                                  className="bg-white/95 border-[3px] border-white/50 rounded-xl h-12 text-purple-900 font-bold shadow-lg focus-visible:ring-4 focus-visible:ring-pink-400 focus-visible:border-white transition-all" 
+                                  {...field} 
+                                />
+                              </FormControl>
+                              <FormMessage className="text-pink-300 font-bold" />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
 
-                <div className="grid grid-cols-[100px_1fr] items-center gap-4">
-                  <label className="text-white font-black text-right text-sm drop-shadow">PASSWORD</label>
-                  <FormField
-                    control={(role === 'student' ? studentForm : standardForm).control}
-                    name="password"
-                    render={({ field }) => (
-                      <FormItem className="space-y-0">
-                        <div className="relative">
-                          <FormControl>
-                            <Input 
-                              type="password"
-                              className="bg-white/95 border-[3px] border-white/50 rounded-xl h-12 text-purple-900 font-bold shadow-lg focus-visible:ring-4 focus-visible:ring-pink-400 focus-visible:border-white transition-all" 
-                              {...field} 
-                            />
-                          </FormControl>
-                          <motion.div 
-                            className="absolute right-[-50px] top-0 h-12 w-12 bg-gradient-to-r from-pink-500 to-rose-500 border-[3px] border-white/50 rounded-xl flex items-center justify-center cursor-pointer shadow-lg"
-                            whileHover={{ scale: 1.1, rotate: 10 }}
-                            whileTap={{ scale: 0.9 }}
-                          >
-                            <Baby className="w-6 h-6 text-white" />
-                          </motion.div>
-                        </div>
-                        <FormMessage className="text-pink-300 font-bold" />
-                      </FormItem>
-                    )}
-                  />
-                </div>
+                      <div className="grid grid-cols-[100px_1fr] items-center gap-4">
+                        <label className="text-white font-black text-right text-sm drop-shadow">PASSWORD</label>
+                        <FormField
+                          control={(role === 'student' ? studentForm : standardForm).control}
+                          name="password"
+                          render={({ field }) => (
+                            <FormItem className="space-y-0">
+                              <div className="relative">
+                                <FormControl>
+                                  <Input 
+                                    type="password"
+                                    className="bg-white/95 border-[3px] border-white/50 rounded-xl h-12 text-purple-900 font-bold shadow-lg focus-visible:ring-4 focus-visible:ring-pink-400 focus-visible:border-white transition-all" 
+                                    {...field} 
+                                  />
+                                </FormControl>
+                                <motion.div 
+                                  className="absolute right-[-50px] top-0 h-12 w-12 bg-gradient-to-r from-pink-500 to-rose-500 border-[3px] border-white/50 rounded-xl flex items-center justify-center cursor-pointer shadow-lg"
+                                  whileHover={{ scale: 1.1, rotate: 10 }}
+                                  whileTap={{ scale: 0.9 }}
+                                >
+                                  <Baby className="w-6 h-6 text-white" />
+                                </motion.div>
+                              </div>
+                              <FormMessage className="text-pink-300 font-bold" />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
 
-                <div className="flex justify-center pt-4 relative">
-                  <AnimatePresence>
-                    {floatingNumbers.map((num) => (
-                      <motion.span
-                        key={num.id}
-                        className="absolute text-2xl font-bold text-yellow-300 pointer-events-none"
-                        initial={{ opacity: 1, x: 0, y: 0, scale: 1 }}
-                        animate={{ 
-                          opacity: 0, 
-                          x: num.x, 
-                          y: num.y,
-                          scale: 1.5,
-                          rotate: Math.random() * 360
-                        }}
-                        exit={{ opacity: 0 }}
-                        transition={{ duration: 1.2, ease: "easeOut" }}
-                      >
-                        {num.value}
-                      </motion.span>
-                    ))}
-                  </AnimatePresence>
+                      <div className="flex justify-center pt-4 relative">
+                        <AnimatePresence>
+                          {floatingNumbers.map((num) => (
+                            <motion.span
+                              key={num.id}
+                              className="absolute text-2xl font-bold text-yellow-300 pointer-events-none"
+                              initial={{ opacity: 1, x: 0, y: 0, scale: 1 }}
+                              animate={{ 
+                                opacity: 0, 
+                                x: num.x, 
+                                y: num.y,
+                                scale: 1.5,
+                                rotate: Math.random() * 360
+                              }}
+                              exit={{ opacity: 0 }}
+                              transition={{ duration: 1.2, ease: "easeOut" }}
+                            >
+                              {num.value}
+                            </motion.span>
+                          ))}
+                        </AnimatePresence>
                   
-                  <motion.div
+                        <motion.div
+                          whileHover={{ scale: 1.05 }}
+                          whileTap={{ scale: 0.95 }}
+                        >
+                          <Button 
+                            type="submit" 
+                            className="bg-gradient-to-r from-emerald-500 via-green-500 to-teal-500 hover:from-emerald-600 hover:via-green-600 hover:to-teal-600 text-white border-[3px] border-white/30 rounded-xl px-12 h-14 font-black text-xl shadow-[0_0_30px_rgba(16,185,129,0.5)] transition-all"
+                            disabled={isLoggingIn || isAnimating}
+                          >
+                            <motion.span
+                              animate={isAnimating ? { scale: [1, 1.2, 1] } : {}}
+                              transition={{ duration: 0.3 }}
+                            >
+                              {isLoggingIn ? "LOGGING IN..." : "LOG IN"}
+                            </motion.span>
+                          </Button>
+                        </motion.div>
+                      </div>
+                    </form>
+                  </Form>
+                )}
+
+                <div className="text-center">
+                  <motion.button 
+                    className="text-white/80 font-bold text-sm hover:text-white italic transition-colors"
                     whileHover={{ scale: 1.05 }}
-                    whileTap={{ scale: 0.95 }}
+                    onClick={() => setMode("forgot")}
                   >
-                    <Button 
-                      type="submit" 
-                      className="bg-gradient-to-r from-emerald-500 via-green-500 to-teal-500 hover:from-emerald-600 hover:via-green-600 hover:to-teal-600 text-white border-[3px] border-white/30 rounded-xl px-12 h-14 font-black text-xl shadow-[0_0_30px_rgba(16,185,129,0.5)] transition-all"
-                      disabled={isLoggingIn || isAnimating}
-                    >
-                      <motion.span
-                        animate={isAnimating ? { scale: [1, 1.2, 1] } : {}}
-                        transition={{ duration: 0.3 }}
-                      >
-                        {isLoggingIn ? "LOGGING IN..." : "LOG IN"}
-                      </motion.span>
-                    </Button>
-                  </motion.div>
+                    I FORGOT MY LOGIN
+                  </motion.button>
                 </div>
-              </form>
-            </Form>
-
-            <div className="text-center">
-              <motion.button 
-                className="text-white/80 font-bold text-sm hover:text-white italic transition-colors"
-                whileHover={{ scale: 1.05 }}
-              >
-                I FORGOT MY LOGIN
-              </motion.button>
-            </div>
+                {role !== "student" ? (
+                  <div className="text-center">
+                    <motion.button
+                      className="text-white/80 font-bold text-sm hover:text-white italic transition-colors"
+                      whileHover={{ scale: 1.05 }}
+                      onClick={() => setMode("register")}
+                    >
+                      NEW HERE? CREATE AN ACCOUNT
+                    </motion.button>
+                  </div>
+                ) : !studentUsesClass && (
+                  <div className="text-center">
+                    <motion.button
+                      className="text-white/80 font-bold text-sm hover:text-white italic transition-colors"
+                      whileHover={{ scale: 1.05 }}
+                      onClick={() => setStudentUsesClass(true)}
+                    >
+                      USE MY CLASS CODE
+                    </motion.button>
+                  </div>
+                )}
+              </>
+            )}
           </div>
         </motion.div>
       </div>
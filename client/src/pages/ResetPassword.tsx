@@ -0,0 +1,59 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { useResetPassword } from "@/hooks/use-auth";
+import { AlertCircle, CheckCircle2, KeyRound } from "lucide-react";
+
+// Opened from the link in the password reset email
+export default function ResetPassword() {
+  const { mutate: reset, isPending, isSuccess, isError, error, data } = useResetPassword();
+  const [password, setPassword] = useState("");
+  const token = new URLSearchParams(window.location.search).get("token");
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md mx-4">
+        <CardContent className="pt-6">
+          <div className="flex mb-4 gap-2 items-center">
+            {isSuccess ? (
+              <CheckCircle2 className="h-8 w-8 text-green-500" />
+            ) : isError || !token ? (
+              <AlertCircle className="h-8 w-8 text-red-500" />
+            ) : (
+              <KeyRound className="h-8 w-8 text-indigo-500" />
+            )}
+            <h1 className="text-2xl font-bold text-gray-900">Choose a new password</h1>
+          </div>
+
+          <p className="mt-4 text-sm text-gray-600">
+            {!token
+              ? "This link is missing its code. Please open the link from the email again."
+              : isSuccess
+                ? data.message
+                : isError
+                  ? `${error.message}. You can ask for a new link from the sign in page.`
+                  : "Your new password must be at least 8 characters."}
+          </p>
+
+          {token && !isSuccess && (
+            <form
+              className="mt-4 flex gap-2"
+              onSubmit={(e) => { e.preventDefault(); if (password) reset({ token, password }); }}
+            >
+              <Input type="password" placeholder="New password" value={password} onChange={(e) => setPassword(e.target.value)} />
+              <Button type="submit" disabled={isPending || !password}>Save</Button>
+            </form>
+          )}
+
+          <div className="mt-6">
+            <Link href="/" className="inline-flex items-center justify-center px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors w-full">
+              Go to sign in
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
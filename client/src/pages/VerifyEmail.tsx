@@ -0,0 +1,68 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { useResendVerification, useVerifyEmail } from "@/hooks/use-auth";
+import { AlertCircle, CheckCircle2, Loader2 } from "lucide-react";
+
+// Opened from the link in the sign-up email
+export default function VerifyEmail() {
+  const { mutate: verify, isSuccess, isError, error, data } = useVerifyEmail();
+  const { mutate: resend, isPending: isResending, data: resent } = useResendVerification();
+  const [email, setEmail] = useState("");
+  const token = new URLSearchParams(window.location.search).get("token");
+
+  useEffect(() => {
+    if (token) verify(token);
+  }, [token, verify]);
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md mx-4">
+        <CardContent className="pt-6">
+          <div className="flex mb-4 gap-2 items-center">
+            {isSuccess ? (
+              <CheckCircle2 className="h-8 w-8 text-green-500" />
+            ) : isError || !token ? (
+              <AlertCircle className="h-8 w-8 text-red-500" />
+            ) : (
+              <Loader2 className="h-8 w-8 animate-spin text-indigo-500" />
+            )}
+            <h1 className="text-2xl font-bold text-gray-900">Confirm your email</h1>
+          </div>
+
+          <p className="mt-4 text-sm text-gray-600">
+            {!token
+              ? "This link is missing its code. Please open the link from the email again."
+              : isSuccess
+                ? data.message
+                : isError
+                  ? `${error.message}. Enter your email address for a new link.`
+                  : "Checking your link..."}
+          </p>
+
+          {(isError || !token) && (
+            resent ? (
+              <p className="mt-4 text-sm text-gray-600">{resent.message}</p>
+            ) : (
+              <form
+                className="mt-4 flex gap-2"
+                onSubmit={(e) => { e.preventDefault(); if (email.trim()) resend(email); }}
+              >
+                <Input type="email" placeholder="Email address" value={email} onChange={(e) => setEmail(e.target.value)} />
+                <Button type="submit" variant="outline" disabled={isResending || !email.trim()}>Send</Button>
+              </form>
+            )
+          )}
+
+          <div className="mt-6">
+            <Link href="/" className="inline-flex items-center justify-center px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors w-full">
+              Go to sign in
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { AdminLayout } from "@/components/AdminLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ParentCodeButton } from "@/components/ParentCodeButton";
+import { useUsers } from "@/hooks/use-admin";
+import { Loader2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+export default function AdminDashboard() {
+  const { data: users, isLoading } = useUsers();
+
+  return (
+    <AdminLayout>
+      <div className="space-y-8">
+        <div>
+          <h2 className="text-3xl font-display font-bold text-slate-800">Users</h2>
+          <p className="text-slate-500">Every account on this EduKid installation.</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>All accounts</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="w-8 h-8 animate-spin text-primary" />
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Username</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Last login</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {users?.map((u) => (
+                    <TableRow key={u.id}>
+                      <TableCell className="font-mono">{u.username}</TableCell>
+                      <TableCell>{u.firstName}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className="capitalize">{u.role}</Badge>
+                      </TableCell>
+                      <TableCell className="text-slate-500">
+                        {u.lastLoginAt ? formatDistanceToNow(new Date(u.lastLoginAt), { addSuffix: true }) : "Never"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {u.role === "student" && <ParentCodeButton studentId={u.id} />}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+}
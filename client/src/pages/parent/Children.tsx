@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { AdminLayout } from "@/components/AdminLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useChildren, useJoinClassForChild, useLinkChild, useUnlinkChild } from "@/hooks/use-parent";
+import { useResetPicturePassword } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { PictureSequence } from "@/components/PicturePassword";
+import { formatDistanceToNow } from "date-fns";
+import { Check, Link2, Loader2, RefreshCw, Unlink, X } from "lucide-react";
+import type { JoinRequest } from "@shared/routes";
+
+// The child's class, and a class code form to ask their teacher for a place
+function ChildClass({ childId, currentClass, joinRequest }: { childId: number; currentClass: string | null; joinRequest: JoinRequest | null }) {
+  const { mutate: joinClass, isPending } = useJoinClassForChild();
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+
+  const handleJoin = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    joinClass({ childId, code }, {
+      onSuccess: (request) => {
+        setCode("");
+        toast({ title: "Request sent", description: `The teacher of ${request.className} will review it.` });
+      },
+      onError: (error) => toast({ title: "Could not join class", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  const pending = joinRequest?.status === "pending" ? joinRequest : null;
+  const rejected = joinRequest?.status === "rejected" ? joinRequest : null;
+
+  return (
+    <div className="flex flex-col md:flex-row md:items-center gap-3 text-sm text-slate-500">
+      <span>
+        {currentClass ? <>Class: <span className="font-medium text-slate-700">{currentClass}</span></> : "Not in a class yet"}
+        {pending && ` · waiting for approval to join ${pending.className}`}
+        {!pending && rejected && ` · request to join ${rejected.className} was declined`}
+      </span>
+      <form onSubmit={handleJoin} className="flex gap-2 md:ml-auto">
+        <Input
+          placeholder="Class code"
+          value={code}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+          className="w-36 font-mono"
+        />
+        <Button type="submit" variant="outline" disabled={isPending || !code.trim()}>
+          {isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : currentClass ? "Change class" : "Join class"}
+        </Button>
+      </form>
+    </div>
+  );
+}
+
+// New login pictures for a child who has forgotten theirs, shown once here
+function PictureReset({ childId }: { childId: number }) {
+  const { mutate: resetPictures, isPending, data: reset } = useResetPicturePassword();
+  const { toast } = useToast();
+
+  if (reset) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-slate-600">
+        New pictures: <PictureSequence ids={reset.picturePassword} />
+        <span className="text-slate-400">· username {reset.username}</span>
+      </div>
+    );
+  }
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="gap-1 text-slate-500"
+      disabled={isPending}
+      onClick={() => resetPictures(childId, {
+        onError: (error) => toast({ title: "Could not reset pictures", description: error.message, variant: "destructive" }),
+      })}
+    >
+      <RefreshCw className="w-4 h-4" /> New login pictures
+    </Button>
+  );
+}
+
+// Links a child using the one-time code their school gave the parent
+function LinkChildCard() {
+  const { mutate: linkChild, isPending } = useLinkChild();
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+
+  const handleLink = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    linkChild(code, {
+      onSuccess: (child) => {
+        setCode("");
+        toast({ title: `${child.firstName} linked`, description: "Their progress now shows below." });
+      },
+      onError: (error) => toast({ title: "Could not link child", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Link a Child</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-slate-500">Enter the parent code from your child's teacher or school.</p>
+        <form onSubmit={handleLink} className="flex gap-3 max-w-sm">
+          <Input
+            placeholder="ABCD-EFGH"
+            value={code}
+            onChange={(e) => setCode(e.target.value.toUpperCase())}
+            className="font-mono tracking-wider"
+          />
+          <Button type="submit" disabled={isPending || !code.trim()} className="gap-2">
+            {isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Link2 className="w-4 h-4" />}
+            Link
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ParentChildren() {
+  const { data: children, isLoading } = useChildren();
+  const { mutate: unlinkChild, isPending: isUnlinking } = useUnlinkChild();
+  const { toast } = useToast();
+
+  const handleUnlink = (childId: number, firstName: string) => {
+    unlinkChild(childId, {
+      onSuccess: () => toast({ title: `${firstName} unlinked`, description: "Ask the school for a new code to link again." }),
+      onError: (error) => toast({ title: "Could not unlink", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  return (
+    <AdminLayout>
+      <div className="space-y-8">
+        <div>
+          <h2 className="text-3xl font-display font-bold text-slate-800">Children</h2>
+          <p className="text-slate-500">Topic progress and recent practice.</p>
+        </div>
+
+        <LinkChildCard />
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : children?.length === 0 ? (
+          <p className="text-center text-slate-400 py-12">No children are linked to your account yet.</p>
+        ) : (
+          children?.map((child) => (
+            <div key={child.id} className="space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-xl font-bold text-slate-800">{child.firstName}</h3>
+                <div className="flex items-center gap-2">
+                  <PictureReset childId={child.id} />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="gap-1 text-slate-500"
+                    disabled={isUnlinking}
+                    onClick={() => handleUnlink(child.id, child.firstName)}
+                  >
+                    <Unlink className="w-4 h-4" /> Unlink
+                  </Button>
+                </div>
+              </div>
+              <ChildClass childId={child.id} currentClass={child.className} joinRequest={child.joinRequest} />
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Topics</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {child.masterySummary.length === 0 && (
+                      <p className="text-sm text-slate-400">No topics practised yet.</p>
+                    )}
+                    {child.masterySummary.map((m) => (
+                      <div key={m.topic} className="space-y-1">
+                        <div className="flex justify-between text-sm">
+                          <span className="font-medium text-slate-700">{m.topic}</span>
+                          <span className="text-slate-500">{Math.round(m.score * 100)}%</span>
+                        </div>
+                        <Progress value={m.score * 100} />
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Recent Activity</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {child.recentActivity.length === 0 && (
+                      <p className="text-sm text-slate-400">No activity yet.</p>
+                    )}
+                    <ul className="divide-y divide-slate-100">
+                      {child.recentActivity.map((a, idx) => (
+                        <li key={idx} className="flex items-center gap-3 py-2 text-sm">
+                          {a.correct
+                            ? <Check className="w-4 h-4 text-green-500" />
+                            : <X className="w-4 h-4 text-red-400" />}
+                          <span className="flex-1 text-slate-700">{a.topic}</span>
+                          <span className="text-slate-400">
+                            {a.timestamp && formatDistanceToNow(new Date(a.timestamp), { addSuffix: true })}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </CardContent>
+                </Card>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,107 @@
+import { useAuth } from "@/hooks/use-auth";
+import { AdminLayout } from "@/components/AdminLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useChildren } from "@/hooks/use-parent";
+import { formatDuration } from "@/lib/utils";
+import { Brain, Clock, Coins, Loader2 } from "lucide-react";
+
+export default function ParentDashboard() {
+  const { user } = useAuth();
+  const { data: children, isLoading } = useChildren();
+
+  return (
+    <AdminLayout>
+      <div className="space-y-8">
+        <div>
+          <h2 className="text-3xl font-display font-bold text-slate-800">Family Overview</h2>
+          <p className="text-slate-500">Welcome back, {user?.firstName}</p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : children?.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-slate-400">
+              No children are linked to your account yet. Ask your child's teacher for a link code.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {children?.map((child) => {
+              const averageMastery = child.masterySummary.length > 0
+                ? Math.round(child.masterySummary.reduce((sum, m) => sum + m.score, 0) / child.masterySummary.length * 100)
+                : 0;
+
+              return (
+                <Card key={child.id}>
+                  <CardHeader>
+                    <CardTitle className="flex items-center justify-between">
+                      <span>{child.firstName}</span>
+                      {child.yearGroup && (
+                        <span className="text-sm font-medium text-slate-500">Year {child.yearGroup}</span>
+                      )}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    <div className="grid grid-cols-3 gap-4">
+                      <div className="flex items-center gap-3">
+                        <div className="w-10 h-10 bg-green-100 rounded-full flex items-center justify-center text-green-600">
+                          <Brain className="w-5 h-5" />
+                        </div>
+                        <div>
+                          <p className="text-xs font-medium text-slate-500">Mastery</p>
+                          <p className="text-lg font-bold">{averageMastery}%</p>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center text-blue-600">
+                          <Clock className="w-5 h-5" />
+                        </div>
+                        <div>
+                          <p className="text-xs font-medium text-slate-500">This week</p>
+                          <p className="text-lg font-bold">{formatDuration(child.timeSpentThisWeek)}</p>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <div className="w-10 h-10 bg-amber-100 rounded-full flex items-center justify-center text-amber-600">
+                          <Coins className="w-5 h-5" />
+                        </div>
+                        <div>
+                          <p className="text-xs font-medium text-slate-500">Coins</p>
+                          <p className="text-lg font-bold">{child.coins}</p>
+                        </div>
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <p className="text-sm font-medium text-slate-700">Strengths</p>
+                      <div className="flex flex-wrap gap-2">
+                        {child.strengths.length === 0 && <span className="text-sm text-slate-400">Keep practising!</span>}
+                        {child.strengths.map((topic) => (
+                          <Badge key={topic} className="bg-green-100 text-green-700 hover:bg-green-100">{topic}</Badge>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <p className="text-sm font-medium text-slate-700">Needs practice</p>
+                      <div className="flex flex-wrap gap-2">
+                        {child.weaknesses.length === 0 && <span className="text-sm text-slate-400">Nothing flagged</span>}
+                        {child.weaknesses.map((topic) => (
+                          <Badge key={topic} className="bg-orange-100 text-orange-700 hover:bg-orange-100">{topic}</Badge>
+                        ))}
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
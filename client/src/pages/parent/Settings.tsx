@@ -0,0 +1,34 @@
+import { useAuth } from "@/hooks/use-auth";
+import { AdminLayout } from "@/components/AdminLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+export default function ParentSettings() {
+  const { user } = useAuth();
+
+  return (
+    <AdminLayout>
+      <div className="space-y-8">
+        <div>
+          <h2 className="text-3xl font-display font-bold text-slate-800">Settings</h2>
+          <p className="text-slate-500">Your account details.</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Account</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <p className="text-xs font-medium text-slate-500 uppercase tracking-wider">Name</p>
+              <p className="text-slate-800">{user?.firstName}</p>
+            </div>
+            <div>
+              <p className="text-xs font-medium text-slate-500 uppercase tracking-wider">Username</p>
+              <p className="text-slate-800">{user?.username}</p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+}
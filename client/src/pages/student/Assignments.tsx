@@ -0,0 +1,83 @@
+import { StudentLayout } from "@/components/StudentLayout";
+import { useMyAssignments } from "@/hooks/use-learning";
+import { useLocation } from "wouter";
+import { motion } from "framer-motion";
+import { format } from "date-fns";
+import { Check, Clock, Loader2, Play } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export default function StudentAssignments() {
+  const { data: assignments, isLoading } = useMyAssignments();
+  const [, setLocation] = useLocation();
+
+  return (
+    <StudentLayout>
+      <div className="space-y-6">
+        <header>
+          <h2 className="text-3xl font-display font-bold text-slate-800">My Assignments</h2>
+          <p className="text-slate-500 text-lg">Work your teacher has set for you.</p>
+        </header>
+
+        {isLoading ? (
+          <div className="h-[40vh] flex flex-col items-center justify-center">
+            <Loader2 className="w-12 h-12 text-indigo-500 animate-spin mb-4" />
+            <p className="text-xl font-display text-indigo-400">Loading assignments...</p>
+          </div>
+        ) : assignments?.length === 0 ? (
+          <div className="text-center py-16">
+            <span className="text-6xl block mb-4">🎉</span>
+            <p className="text-xl font-display text-slate-500">Nothing to do right now!</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {assignments?.map((a, index) => {
+              const progress = Math.min(100, Math.round((a.questionsAnswered / Math.max(1, a.targetQuestions)) * 100));
+              const done = a.status === "completed";
+
+              return (
+                <motion.div
+                  key={a.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.1 }}
+                  className={cn(
+                    "bg-white rounded-3xl p-6 shadow-sm border-2 flex items-center gap-6",
+                    done ? "border-green-200" : a.status === "overdue" ? "border-red-200" : "border-indigo-100"
+                  )}
+                >
+                  <div className={cn(
+                    "w-14 h-14 rounded-2xl flex items-center justify-center text-white shrink-0",
+                    done ? "bg-green-500" : a.status === "overdue" ? "bg-red-500" : "bg-indigo-500"
+                  )}>
+                    {done ? <Check className="w-8 h-8" /> : <Clock className="w-8 h-8" />}
+                  </div>
+
+                  <div className="flex-1 min-w-0">
+                    <h3 className="text-xl font-display font-bold text-slate-800">{a.topic}</h3>
+                    <p className="text-sm text-slate-500">
+                      {a.dueDate ? `Due ${format(new Date(a.dueDate), "EEEE d MMMM")}` : "No due date"}
+                      {a.status === "overdue" && <span className="text-red-500 font-bold"> · Overdue</span>}
+                    </p>
+                    <div className="mt-2 h-2 bg-slate-100 rounded-full overflow-hidden">
+                      <div className="h-full bg-indigo-500 rounded-full" style={{ width: `${done ? 100 : progress}%` }} />
+                    </div>
+                  </div>
+
+                  {!done && (
+                    <button
+                      onClick={() => setLocation(a.quizId ? `/student/quiz/${a.id}` : `/student/play/${a.topicId}`)}
+                      className="px-6 py-3 bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-2xl font-bold flex items-center gap-2 hover:shadow-lg transition-all"
+                    >
+                      <Play className="w-5 h-5" />
+                      Go
+                    </button>
+                  )}
+                </motion.div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </StudentLayout>
+  );
+}
@@ -1,17 +1,16 @@
 import { useState } from "react";
 import { useAuth } from "@/hooks/use-auth";
-import { useTopics } from "@/hooks/use-learning";
+import { useClassMembership, useJoinClass, useSubjects, useTopics } from "@/hooks/use-learning";
+import { useToast } from "@/hooks/use-toast";
 import { StudentLayout } from "@/components/StudentLayout";
 import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
 import { Link, useLocation } from "wouter";
 import { motion, AnimatePresence } from "framer-motion";
-import { Play, Star, Zap, Leaf, Calculator, Plus, Minus, X, Divide, Loader2, Trophy, Gamepad2 } from "lucide-react";
-import { cn } from "@/lib/utils";
-
-const SUBJECTS = [
-  { id: 1, name: "Science", icon: "🔬", color: "from-blue-500 to-indigo-600" },
-  { id: 2, name: "Maths", icon: "🔢", color: "from-purple-500 to-pink-600" },
-];
+import { Play, Star, Zap, Leaf, Calculator, Plus, Minus, X, Divide, Loader2, Trophy, Gamepad2, School, Hourglass } from "lucide-react";
+import { cn, colorGradient } from "@/lib/utils";
+import { stageForYearGroup } from "@shared/schema";
 
 const GAMES = [
   { id: "racing", name: "Number Racing", icon: "🏎️", description: "Race to answer questions!" },
@@ -20,36 +19,80 @@ const GAMES = [
   { id: "adventure", name: "Math Adventure", icon: "⚔️", description: "Battle with your brain!" },
 ];
 
-const topicIcons: Record<string, string> = {
-  "Electricity": "⚡",
-  "Plants": "🌿",
-  "Space": "🚀",
-  "Addition": "➕",
-  "Subtraction": "➖",
-  "Multiplication": "✖️",
-  "Division": "➗",
-  "Fractions": "🍕",
-};
-
-const topicColors: Record<string, string> = {
-  "Electricity": "from-yellow-400 to-orange-500",
-  "Plants": "from-green-400 to-emerald-600",
-  "Space": "from-indigo-500 to-purple-700",
-  "Addition": "from-blue-400 to-blue-600",
-  "Subtraction": "from-red-400 to-red-600",
-  "Multiplication": "from-purple-400 to-purple-600",
-  "Division": "from-teal-400 to-teal-600",
-  "Fractions": "from-orange-400 to-orange-600",
-};
+// Shows the student's class, or lets them ask to join one with its code
+function ClassCard() {
+  const { data: membership } = useClassMembership();
+  const { mutate: joinClass, isPending } = useJoinClass();
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+
+  if (!membership) return null;
+  const request = membership.joinRequest;
+
+  if (request?.status === "pending") {
+    return (
+      <Card className="p-4 flex items-center gap-3 bg-indigo-50 border-indigo-100">
+        <Hourglass className="w-6 h-6 text-indigo-500" />
+        <p className="text-slate-700">
+          Waiting for your teacher to let you into <span className="font-bold">{request.className}</span>.
+        </p>
+      </Card>
+    );
+  }
+
+  if (membership.className) {
+    return (
+      <div className="flex items-center gap-2 text-slate-500">
+        <School className="w-5 h-5" />
+        <span>Class: <span className="font-bold text-slate-700">{membership.className}</span></span>
+      </div>
+    );
+  }
+
+  const handleJoin = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    joinClass(code, {
+      onSuccess: () => setCode(""),
+      onError: (error) => toast({ title: "Could not join", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  return (
+    <Card className="p-4 space-y-3">
+      <p className="font-bold text-slate-700">
+        {request?.status === "rejected"
+          ? `Your teacher didn't add you to ${request.className}. Check the code and try again.`
+          : "Got a class code from your teacher? Type it here!"}
+      </p>
+      <form onSubmit={handleJoin} className="flex gap-3 max-w-sm">
+        <Input
+          placeholder="Class code"
+          value={code}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+          className="font-mono tracking-widest"
+        />
+        <Button type="submit" disabled={isPending || !code.trim()}>
+          {isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : "Join"}
+        </Button>
+      </form>
+    </Card>
+  );
+}
 
 export default function StudentDashboard() {
   const { user } = useAuth();
   const [, setLocation] = useLocation();
-  const [selectedSubject, setSelectedSubject] = useState<number>(2);
+  const [selectedSubject, setSelectedSubject] = useState<number | null>(null);
   const [selectedTopic, setSelectedTopic] = useState<number | null>(null);
   const [showGameSelect, setShowGameSelect] = useState(false);
   
-  const { data: topics, isLoading } = useTopics("KS2", selectedSubject);
+  // Students without a year group on file see KS2, the original content
+  const stage = stageForYearGroup(user?.yearGroup) ?? "KS2";
+  const { data: subjects, isLoading: subjectsLoading } = useSubjects(stage);
+  const subjectId = selectedSubject ?? subjects?.[0]?.id;
+  const { data: topics, isLoading: topicsLoading } = useTopics(stage, subjectId);
+  const isLoading = subjectsLoading || topicsLoading;
 
   const handleTopicClick = (topicId: number) => {
     setSelectedTopic(topicId);
@@ -78,17 +121,20 @@ export default function StudentDashboard() {
           </div>
         </header>
 
+        <ClassCard />
+
         <div className="flex gap-4 p-2 bg-slate-100 rounded-2xl w-fit">
-          {SUBJECTS.map((subject) => (
+          {subjects?.map((subject) => (
             <motion.button
               key={subject.id}
               onClick={() => setSelectedSubject(subject.id)}
               className={cn(
                 "flex items-center gap-3 px-6 py-3 rounded-xl font-bold text-lg transition-all",
-                selectedSubject === subject.id
-                  ? `bg-gradient-to-r ${subject.color} text-white shadow-lg`
+                subjectId === subject.id
+                  ? "text-white shadow-lg"
                   : "bg-white text-slate-600 hover:bg-slate-50"
               )}
+              style={subjectId === subject.id ? colorGradient(subject.color, "to right") : undefined}
               whileHover={{ scale: 1.02 }}
               whileTap={{ scale: 0.98 }}
             >
@@ -105,7 +151,7 @@ export default function StudentDashboard() {
           </div>
         ) : (
           <motion.div 
-            key={selectedSubject}
+            key={subjectId}
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
             className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6"
@@ -118,13 +164,11 @@ export default function StudentDashboard() {
                 transition={{ delay: index * 0.1 }}
                 whileHover={{ y: -5, scale: 1.02 }}
                 onClick={() => handleTopicClick(topic.id)}
-                className={cn(
-                  "bg-gradient-to-br rounded-3xl p-6 text-white shadow-lg cursor-pointer h-48 flex flex-col justify-between relative overflow-hidden group",
-                  topicColors[topic.name] || "from-slate-400 to-slate-600"
-                )}
+                className="rounded-3xl p-6 text-white shadow-lg cursor-pointer h-48 flex flex-col justify-between relative overflow-hidden group"
+                style={colorGradient(topic.color)}
               >
                 <div className="absolute top-0 right-0 p-4 opacity-20 group-hover:opacity-40 transition-opacity">
-                  <span className="text-8xl">{topicIcons[topic.name] || "📚"}</span>
+                  <span className="text-8xl">{topic.icon}</span>
                 </div>
                 
                 <div className="relative z-10 flex justify-between items-start">
@@ -1,10 +1,12 @@
 import { useState, useEffect, useCallback } from "react";
 import { useRoute, useLocation, useSearch } from "wouter";
-import { useQuestion, useSubmitAnswer } from "@/hooks/use-learning";
+import { useQuestion, useQuizQuestion, useSubmitAnswer } from "@/hooks/use-learning";
 import { motion, AnimatePresence } from "framer-motion";
 import { Loader2, ArrowLeft, Check, X, Clock, Trophy, Star, Zap } from "lucide-react";
 import { cn } from "@/lib/utils";
 import confetti from "canvas-confetti";
+import { QuestionView } from "@/components/QuestionView";
+import { numericConfigSchema, type Answer } from "@shared/schema";
 
 type GamePhase = "question" | "game" | "result" | "loading";
 
@@ -19,19 +21,24 @@ const gameBackgrounds: Record<string, string> = {
 
 export default function GameEngine() {
   const [, params] = useRoute("/student/play/:topicId");
+  const [, quizParams] = useRoute("/student/quiz/:assignmentId");
   const [, setLocation] = useLocation();
   const searchString = useSearch();
   const searchParams = new URLSearchParams(searchString);
   const gameType = searchParams.get("game") || "racing";
   const topicId = Number(params?.topicId);
+  const quizAssignmentId = Number(quizParams?.assignmentId);
   
-  const { data: question, isLoading, refetch, isFetching } = useQuestion(topicId);
+  // Quizzes play the teacher's questions in order; topics pick adaptively
+  const topicQuery = useQuestion(topicId);
+  const quizQuery = useQuizQuestion(quizAssignmentId);
+  const { data: question, isLoading, refetch, isFetching } = quizAssignmentId ? quizQuery : topicQuery;
+  const quizFinished = !!quizAssignmentId && question === null;
   const { mutate: submitAnswer, isPending: isSubmitting } = useSubmitAnswer();
 
   const [phase, setPhase] = useState<GamePhase>("question");
-  const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null);
-  const [result, setResult] = useState<{ correct: boolean; message: string; coinsEarned: number } | null>(null);
-  const [startTime, setStartTime] = useState(Date.now());
+  const [selectedAnswer, setSelectedAnswer] = useState<Answer | null>(null);
+  const [result, setResult] = useState<{ correct: boolean; message: string; coinsEarned: number; correctAnswer: Answer; explanation: string | null } | null>(null);
   const [score, setScore] = useState(0);
   const [streak, setStreak] = useState(0);
   const [questionsAnswered, setQuestionsAnswered] = useState(0);
@@ -39,7 +46,6 @@ export default function GameEngine() {
 
   useEffect(() => {
     if (question && phase === "question") {
-      setStartTime(Date.now());
       setSelectedAnswer(null);
       setResult(null);
     }
@@ -63,20 +69,20 @@ export default function GameEngine() {
     }
   }, [phase, refetch]);
 
-  const handleAnswer = useCallback((answer: string) => {
+  const handleAnswer = useCallback((answer: Answer) => {
     if (result || phase !== "question") return;
     
     setSelectedAnswer(answer);
-    const timeTaken = Math.round((Date.now() - startTime) / 1000);
-    
     submitAnswer(
-      { questionId: question!.id, answer, timeTaken },
+      { token: question!.token, answer },
       {
         onSuccess: (data) => {
           setResult({
             correct: data.correct,
             message: data.correct ? "Correct!" : "Not quite...",
-            coinsEarned: data.coinsEarned
+            coinsEarned: data.coinsEarned,
+            correctAnswer: data.correctAnswer,
+            explanation: data.explanation,
           });
 
           if (data.correct) {
@@ -96,7 +102,7 @@ export default function GameEngine() {
         }
       }
     );
-  }, [question, result, phase, startTime, streak, submitAnswer]);
+  }, [question, result, phase, streak, submitAnswer]);
 
   const handleContinue = () => {
     if (questionsAnswered % 3 === 0 && questionsAnswered > 0) {
@@ -112,6 +118,22 @@ export default function GameEngine() {
     }
   };
 
+  if (quizFinished) {
+    return (
+      <div className={cn("min-h-screen flex flex-col items-center justify-center text-white bg-gradient-to-br", gameBackgrounds[gameType] || "from-slate-900 to-slate-800")}>
+        <Trophy className="w-20 h-20 text-amber-400 mb-4" />
+        <h2 className="font-display text-4xl font-bold mb-2">Quiz complete!</h2>
+        <p className="text-xl text-white/80 mb-8">You scored {score} points.</p>
+        <button
+          onClick={() => setLocation("/student/assignments")}
+          className="px-10 py-4 bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-2xl font-bold text-xl hover:shadow-xl transition-all"
+        >
+          Back to assignments
+        </button>
+      </div>
+    );
+  }
+
   if (isLoading || isFetching || !question) {
     return (
       <div className={cn("min-h-screen flex flex-col items-center justify-center text-white bg-gradient-to-br", gameBackgrounds[gameType] || "from-slate-900 to-slate-800")}>
@@ -126,7 +148,7 @@ export default function GameEngine() {
     );
   }
 
-  const allOptions = [question.correctAnswer, ...(question.distractors as string[])].sort(() => Math.random() - 0.5);
+  const numericConfig = question.type === "numeric" ? numericConfigSchema.safeParse(question.config ?? {}).data : undefined;
 
   return (
     <div className={cn("min-h-screen relative overflow-hidden flex flex-col bg-gradient-to-br", gameBackgrounds[gameType] || "from-slate-900 to-slate-800")}>
@@ -137,7 +159,7 @@ export default function GameEngine() {
 
       <header className="relative z-10 p-4 flex justify-between items-center text-white">
         <button 
-          onClick={() => setLocation("/student/dashboard")}
+          onClick={() => setLocation(quizAssignmentId ? "/student/assignments" : "/student/dashboard")}
           className="bg-white/10 hover:bg-white/20 p-3 rounded-full backdrop-blur-sm transition-colors"
         >
           <ArrowLeft className="w-6 h-6" />
@@ -235,60 +257,13 @@ export default function GameEngine() {
               exit={{ opacity: 0, x: -50 }}
               className="w-full"
             >
-              <div className="bg-white/10 backdrop-blur-md border border-white/20 rounded-3xl p-8 md:p-12 text-white shadow-2xl mb-8">
-                <h2 className="text-2xl md:text-4xl font-display font-bold text-center leading-relaxed">
-                  {question.content}
-                </h2>
-              </div>
-
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6">
-                {allOptions.map((option, idx) => {
-                  let statusClass = "bg-white/10 border-white/20 hover:bg-white/20 hover:border-white/40 hover:scale-105";
-                  
-                  if (result && option === question.correctAnswer) {
-                    statusClass = "bg-green-500/90 border-green-400 ring-4 ring-green-400/50 scale-105";
-                  } else if (result && selectedAnswer === option && !result.correct) {
-                    statusClass = "bg-red-500/90 border-red-400 scale-95";
-                  } else if (result) {
-                    statusClass = "opacity-40 bg-white/5 border-transparent scale-95";
-                  }
-
-                  return (
-                    <motion.button
-                      key={idx}
-                      initial={{ opacity: 0, y: 20 }}
-                      animate={{ opacity: 1, y: 0 }}
-                      transition={{ delay: idx * 0.1 }}
-                      onClick={() => handleAnswer(option)}
-                      disabled={!!result}
-                      className={cn(
-                        "p-6 rounded-2xl border-2 text-xl md:text-2xl font-bold text-white transition-all duration-300 text-center relative overflow-hidden",
-                        statusClass
-                      )}
-                    >
-                      <span className="relative z-10">{option}</span>
-                      {result && option === question.correctAnswer && (
-                        <motion.div
-                          initial={{ scale: 0 }}
-                          animate={{ scale: 1 }}
-                          className="absolute right-4 top-1/2 -translate-y-1/2"
-                        >
-                          <Check className="w-8 h-8 text-white" />
-                        </motion.div>
-                      )}
-                      {result && selectedAnswer === option && !result.correct && (
-                        <motion.div
-                          initial={{ scale: 0 }}
-                          animate={{ scale: 1 }}
-                          className="absolute right-4 top-1/2 -translate-y-1/2"
-                        >
-                          <X className="w-8 h-8 text-white" />
-                        </motion.div>
-                      )}
-                    </motion.button>
-                  );
-                })}
-              </div>
+              <QuestionView
+                question={question}
+                onAnswer={handleAnswer}
+                selectedAnswer={selectedAnswer}
+                result={result}
+                disabled={isSubmitting}
+              />
             </motion.div>
           )}
         </AnimatePresence>
@@ -318,8 +293,13 @@ export default function GameEngine() {
                     {result.correct && (
                       <p className="text-green-600 font-bold">+{result.coinsEarned} coins earned!</p>
                     )}
-                    {!result.correct && question.explanation && (
-                      <p className="text-slate-500 text-sm mt-1">{question.explanation}</p>
+                    {!result.correct && numericConfig && typeof result.correctAnswer === "string" && (
+                      <p className="text-slate-700 font-bold">
+                        The answer was {result.correctAnswer}{numericConfig.unit ? ` ${numericConfig.unit}` : ""}
+                      </p>
+                    )}
+                    {!result.correct && result.explanation && (
+                      <p className="text-slate-500 text-sm mt-1">{result.explanation}</p>
                     )}
                   </div>
                 </div>
@@ -1,16 +1,13 @@
 import { useState } from "react";
 import { StudentLayout } from "@/components/StudentLayout";
-import { useTopics } from "@/hooks/use-learning";
+import { useSubjects, useTopics } from "@/hooks/use-learning";
+import { useAuth } from "@/hooks/use-auth";
 import { useLocation } from "wouter";
 import { motion, AnimatePresence } from "framer-motion";
 import { Card } from "@/components/ui/card";
 import { Loader2, Play, Gamepad2 } from "lucide-react";
-import { cn } from "@/lib/utils";
-
-const SUBJECTS = [
-  { id: 1, name: "Science", icon: "🔬", color: "from-blue-500 to-indigo-600" },
-  { id: 2, name: "Maths", icon: "🔢", color: "from-purple-500 to-pink-600" },
-];
+import { cn, colorGradient } from "@/lib/utils";
+import { stageForYearGroup } from "@shared/schema";
 
 const GAMES = [
   { id: "racing", name: "Number Racing", icon: "🏎️", description: "Race to answer questions!" },
@@ -19,33 +16,15 @@ const GAMES = [
   { id: "adventure", name: "Math Adventure", icon: "⚔️", description: "Battle with your brain!" },
 ];
 
-const topicIcons: Record<string, string> = {
-  "Electricity": "⚡",
-  "Plants": "🌿",
-  "Space": "🚀",
-  "Addition": "➕",
-  "Subtraction": "➖",
-  "Multiplication": "✖️",
-  "Division": "➗",
-  "Fractions": "🍕",
-};
-
-const topicColors: Record<string, string> = {
-  "Electricity": "from-yellow-400 to-orange-500",
-  "Plants": "from-green-400 to-emerald-600",
-  "Space": "from-indigo-500 to-purple-700",
-  "Addition": "from-blue-400 to-blue-600",
-  "Subtraction": "from-red-400 to-red-600",
-  "Multiplication": "from-purple-400 to-purple-600",
-  "Division": "from-teal-400 to-teal-600",
-  "Fractions": "from-orange-400 to-orange-600",
-};
-
 export default function MissionControl() {
-  const [selectedSubject, setSelectedSubject] = useState<number>(2);
+  const { user } = useAuth();
+  const [selectedSubject, setSelectedSubject] = useState<number | null>(null);
   const [selectedTopic, setSelectedTopic] = useState<number | null>(null);
   const [showGameSelect, setShowGameSelect] = useState(false);
-  const { data: topics, isLoading } = useTopics("KS2", selectedSubject);
+  const stage = stageForYearGroup(user?.yearGroup) ?? "KS2";
+  const { data: subjects, isLoading: subjectsLoading } = useSubjects(stage);
+  const subjectId = selectedSubject ?? subjects?.[0]?.id;
+  const { data: topics, isLoading: topicsLoading } = useTopics(stage, subjectId);
   const [, setLocation] = useLocation();
 
   const handleTopicClick = (topicId: number) => {
@@ -59,7 +38,7 @@ export default function MissionControl() {
     }
   };
 
-  if (isLoading) {
+  if (subjectsLoading || topicsLoading) {
     return (
       <StudentLayout>
         <div className="h-[60vh] flex flex-col items-center justify-center">
@@ -79,16 +58,17 @@ export default function MissionControl() {
         </header>
 
         <div className="flex gap-4 p-2 bg-slate-100 rounded-2xl w-fit">
-          {SUBJECTS.map((subject) => (
+          {subjects?.map((subject) => (
             <motion.button
               key={subject.id}
               onClick={() => setSelectedSubject(subject.id)}
               className={cn(
                 "flex items-center gap-3 px-6 py-3 rounded-xl font-bold text-lg transition-all",
-                selectedSubject === subject.id
-                  ? `bg-gradient-to-r ${subject.color} text-white shadow-lg`
+                subjectId === subject.id
+                  ? "text-white shadow-lg"
                   : "bg-white text-slate-600 hover:bg-slate-50"
               )}
+              style={subjectId === subject.id ? colorGradient(subject.color, "to right") : undefined}
               whileHover={{ scale: 1.02 }}
               whileTap={{ scale: 0.98 }}
             >
@@ -99,7 +79,7 @@ export default function MissionControl() {
         </div>
 
         <motion.div 
-          key={selectedSubject}
+          key={subjectId}
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
           className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6"
@@ -112,18 +92,15 @@ export default function MissionControl() {
               transition={{ delay: index * 0.1 }}
             >
               <Card className="overflow-hidden border-2 hover:border-indigo-400 transition-colors group cursor-pointer relative">
-                <div className={cn(
-                  "h-32 bg-gradient-to-r flex items-center justify-center",
-                  topicColors[topic.name] || "from-slate-200 to-slate-300"
-                )}>
+                <div className="h-32 flex items-center justify-center" style={colorGradient(topic.color, "to right")}>
                   <span className="text-6xl opacity-50 group-hover:opacity-80 group-hover:scale-110 transition-all">
-                    {topicIcons[topic.name] || "📚"}
+                    {topic.icon}
                   </span>
                 </div>
                 
                 <div className="p-6 relative">
                   <div className="absolute -top-10 left-6 w-20 h-20 bg-white rounded-2xl shadow-lg flex items-center justify-center text-4xl border-4 border-white">
-                    {topicIcons[topic.name] || "📚"}
+                    {topic.icon}
                   </div>
 
                   <div className="mt-8 space-y-4">
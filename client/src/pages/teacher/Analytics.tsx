@@ -0,0 +1,116 @@
+import { useMemo, useState } from "react";
+import { AdminLayout } from "@/components/AdminLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAnalytics, useClasses } from "@/hooks/use-teacher";
+import { formatDuration } from "@/lib/utils";
+import { formatDistanceToNow, subDays } from "date-fns";
+import { Loader2 } from "lucide-react";
+
+const RANGES = [
+  { id: "7", label: "Last 7 days" },
+  { id: "30", label: "Last 30 days" },
+  { id: "all", label: "All time" },
+];
+
+export default function TeacherAnalytics() {
+  const { data: classes } = useClasses();
+  const [classId, setClassId] = useState<string>("all");
+  const [range, setRange] = useState<string>("30");
+
+  // Memoised so the query key stays stable between renders
+  const filters = useMemo(
+    () => (range === "all" ? {} : { from: subDays(new Date(), Number(range)) }),
+    [range]
+  );
+  const { data: analytics, isLoading } = useAnalytics(
+    classId === "all" ? undefined : Number(classId),
+    filters
+  );
+
+  return (
+    <AdminLayout>
+      <div className="space-y-8">
+        <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <h2 className="text-3xl font-display font-bold text-slate-800">Analytics</h2>
+            <p className="text-slate-500">Mastery and activity for each of your students.</p>
+          </div>
+          <div className="flex gap-3">
+            <Select value={classId} onValueChange={setClassId}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue placeholder="Class" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All classes</SelectItem>
+                {classes?.map((c) => (
+                  <SelectItem key={c.id} value={String(c.id)}>{c.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={range} onValueChange={setRange}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RANGES.map((r) => (
+                  <SelectItem key={r.id} value={r.id}>{r.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Students</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="w-8 h-8 animate-spin text-primary" />
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead className="text-right">Mastery</TableHead>
+                    <TableHead className="text-right">Topics mastered</TableHead>
+                    <TableHead className="text-right">Accuracy</TableHead>
+                    <TableHead className="text-right">Questions</TableHead>
+                    <TableHead className="text-right">Time spent</TableHead>
+                    <TableHead>Last active</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {analytics?.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center text-slate-400 py-8">
+                        No students to show yet.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {analytics?.map((s) => (
+                    <TableRow key={s.studentId}>
+                      <TableCell className="font-medium">{s.name}</TableCell>
+                      <TableCell className="text-right">{Math.round(s.averageMastery * 100)}%</TableCell>
+                      <TableCell className="text-right">{s.topicsCompleted}</TableCell>
+                      <TableCell className="text-right">{Math.round(s.accuracy * 100)}%</TableCell>
+                      <TableCell className="text-right">{s.totalQuestions}</TableCell>
+                      <TableCell className="text-right">{formatDuration(s.timeSpent)}</TableCell>
+                      <TableCell className="text-slate-500">
+                        {s.lastActive ? formatDistanceToNow(new Date(s.lastActive), { addSuffix: true }) : "Never"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,220 @@
+import { useState } from "react";
+import { AdminLayout } from "@/components/AdminLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  useAnalytics, useAssignments, useClasses, useCreateAssignment, useDeleteAssignment, useQuizzes, useUpdateAssignment,
+} from "@/hooks/use-teacher";
+import { useTopics } from "@/hooks/use-learning";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { format } from "date-fns";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+
+const statusStyles: Record<string, string> = {
+  active: "bg-blue-100 text-blue-700 hover:bg-blue-100",
+  completed: "bg-green-100 text-green-700 hover:bg-green-100",
+  overdue: "bg-red-100 text-red-700 hover:bg-red-100",
+};
+
+export default function TeacherAssignments() {
+  const { data: assignments, isLoading } = useAssignments();
+  const { data: classes } = useClasses();
+  const { data: topics } = useTopics();
+  const { data: quizzes } = useQuizzes();
+  const { mutate: createAssignment, isPending } = useCreateAssignment();
+  const { mutate: updateAssignment } = useUpdateAssignment();
+  const { mutate: deleteAssignment } = useDeleteAssignment();
+  const { toast } = useToast();
+
+  const [work, setWork] = useState<string>(""); // "topic:<id>" or "quiz:<id>"
+  const [classId, setClassId] = useState<string>("");
+  const [studentId, setStudentId] = useState<string>("whole");
+  const [dueDate, setDueDate] = useState("");
+  const [targetQuestions, setTargetQuestions] = useState("10");
+
+  // Students for the optional individual assignment come from the class roster
+  const { data: roster } = useAnalytics(classId ? Number(classId) : undefined);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!work || !classId) return;
+
+    const individual = studentId !== "whole";
+    const [kind, id] = work.split(":");
+    createAssignment({
+      topicId: kind === "topic" ? Number(id) : null,
+      quizId: kind === "quiz" ? Number(id) : null,
+      classId: individual ? null : Number(classId),
+      studentId: individual ? Number(studentId) : null,
+      dueDate: dueDate ? new Date(dueDate) : null,
+      targetQuestions: Number(targetQuestions) || 10,
+    }, {
+      onSuccess: () => {
+        setWork("");
+        setStudentId("whole");
+        setDueDate("");
+        toast({ title: "Assignment set" });
+      },
+      onError: (error) => {
+        toast({ title: "Could not create assignment", description: error.message, variant: "destructive" });
+      },
+    });
+  };
+
+  return (
+    <AdminLayout>
+      <div className="space-y-8">
+        <div>
+          <h2 className="text-3xl font-display font-bold text-slate-800">Assignments</h2>
+          <p className="text-slate-500">Set topics or quizzes for a class or an individual student.</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>New Assignment</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-6 gap-3 items-end">
+              <div className="md:col-span-2 space-y-1">
+                <label className="text-xs font-medium text-slate-500">Topic or quiz</label>
+                <Select value={work} onValueChange={setWork}>
+                  <SelectTrigger><SelectValue placeholder="Choose a topic or quiz" /></SelectTrigger>
+                  <SelectContent>
+                    <SelectGroup>
+                      <SelectLabel>Topics</SelectLabel>
+                      {topics?.map((t) => (
+                        <SelectItem key={t.id} value={`topic:${t.id}`}>{t.name} ({t.stage})</SelectItem>
+                      ))}
+                    </SelectGroup>
+                    {!!quizzes?.length && (
+                      <SelectGroup>
+                        <SelectLabel>My quizzes</SelectLabel>
+                        {quizzes.map((q) => (
+                          <SelectItem key={q.id} value={`quiz:${q.id}`}>{q.name} ({q.questionIds.length} questions)</SelectItem>
+                        ))}
+                      </SelectGroup>
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs font-medium text-slate-500">Class</label>
+                <Select value={classId} onValueChange={(v) => { setClassId(v); setStudentId("whole"); }}>
+                  <SelectTrigger><SelectValue placeholder="Class" /></SelectTrigger>
+                  <SelectContent>
+                    {classes?.map((c) => (
+                      <SelectItem key={c.id} value={String(c.id)}>{c.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs font-medium text-slate-500">Student</label>
+                <Select value={studentId} onValueChange={setStudentId} disabled={!classId}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="whole">Whole class</SelectItem>
+                    {roster?.map((s) => (
+                      <SelectItem key={s.studentId} value={String(s.studentId)}>{s.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs font-medium text-slate-500">Due date</label>
+                <Input type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+              </div>
+              <div className="flex gap-2 items-end">
+                <div className="space-y-1 w-20">
+                  <label className="text-xs font-medium text-slate-500">Questions</label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={targetQuestions}
+                    onChange={(e) => setTargetQuestions(e.target.value)}
+                    disabled={work.startsWith("quiz:")}
+                  />
+                </div>
+                <Button type="submit" size="icon" disabled={isPending || !work || !classId}>
+                  {isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Set Work</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="w-8 h-8 animate-spin text-primary" />
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Work</TableHead>
+                    <TableHead>Assigned to</TableHead>
+                    <TableHead>Due</TableHead>
+                    <TableHead className="text-right">Completed</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {assignments?.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-slate-400 py-8">
+                        No assignments yet.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {assignments?.map((a) => (
+                    <TableRow key={a.id}>
+                      <TableCell className="font-medium">
+                        {a.topic}
+                        {a.quizId && <Badge variant="secondary" className="ml-2">Quiz</Badge>}
+                      </TableCell>
+                      <TableCell>{a.assignedTo}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="date"
+                          className="w-[150px] h-8"
+                          value={a.dueDate ? format(new Date(a.dueDate), "yyyy-MM-dd") : ""}
+                          onChange={(e) => updateAssignment({
+                            id: a.id,
+                            dueDate: e.target.value ? new Date(e.target.value) : null,
+                          })}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">{a.completedCount} / {a.assignedCount}</TableCell>
+                      <TableCell>
+                        <Badge className={cn("capitalize", statusStyles[a.status])}>{a.status}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button size="icon" variant="ghost" onClick={() => deleteAssignment(a.id)}>
+                          <Trash2 className="w-4 h-4 text-slate-400" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,370 @@
+import { useEffect, useState } from "react";
+import { Link, useRoute } from "wouter";
+import { AdminLayout } from "@/components/AdminLayout";
+import { PictureSequence } from "@/components/PicturePassword";
+import { ParentCodeButton } from "@/components/ParentCodeButton";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  useAddStudent, useClasses, useDecideJoinRequest, useImportRoster, useJoinRequests, useLoginCards, useRoster,
+  useUpdatePictureSettings,
+} from "@/hooks/use-teacher";
+import { useResetPicturePassword } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, Check, Loader2, Plus, Printer, RefreshCw, Upload, X } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import {
+  MAX_PICTURE_PASSWORD_LENGTH, MIN_PICTURE_GRID_SIZE, MIN_PICTURE_PASSWORD_LENGTH, PICTURE_PASSWORD_ICONS,
+} from "@shared/schema";
+import type { LoginCard, PictureSettings } from "@shared/routes";
+
+const YEAR_GROUPS = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+function PrintedCard({ student, classLabel, classCode }: { student: LoginCard; classLabel: string; classCode: string }) {
+  return (
+    <div className="border-2 border-dashed border-slate-300 rounded-xl p-4 break-inside-avoid space-y-2">
+      <p className="text-xs uppercase tracking-wider text-slate-500">EduKid login · {classLabel}</p>
+      <p className="text-2xl font-display font-bold">{student.firstName}</p>
+      <p className="text-sm text-slate-600">Class code: <span className="font-mono font-bold">{classCode}</span></p>
+      <p className="text-sm text-slate-600">Username: <span className="font-mono font-bold">{student.username}</span></p>
+      <div className="flex items-center gap-2 text-sm text-slate-600">
+        Pictures: <PictureSequence ids={student.picturePassword} size="w-8 h-8" />
+      </div>
+    </div>
+  );
+}
+
+const DEFAULT_SETTING = "default";
+const GRID_SIZES = Array.from({ length: PICTURE_PASSWORD_ICONS.length - MIN_PICTURE_GRID_SIZE + 1 }, (_, i) => MIN_PICTURE_GRID_SIZE + i);
+const PASSWORD_LENGTHS = Array.from({ length: MAX_PICTURE_PASSWORD_LENGTH - MIN_PICTURE_PASSWORD_LENGTH + 1 }, (_, i) => MIN_PICTURE_PASSWORD_LENGTH + i);
+
+function settingValue(value: number | null): string {
+  return value === null ? DEFAULT_SETTING : String(value);
+}
+
+// How many pictures the class login shows, and how many new passwords have
+function PictureSettingsCard({ classId, settings }: { classId: number; settings: PictureSettings }) {
+  const { mutate: save, isPending } = useUpdatePictureSettings(classId);
+  const { toast } = useToast();
+
+  const handleChange = (changes: Partial<PictureSettings>) => {
+    save({ ...settings, ...changes }, {
+      onSuccess: () => toast({ title: "Login pictures saved", description: "New and reset picture passwords will use them." }),
+      onError: (error) => toast({ title: "Could not save", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Login Pictures</CardTitle>
+      </CardHeader>
+      <CardContent className="flex flex-wrap items-center gap-3 text-sm text-slate-600">
+        Show
+        <Select
+          value={settingValue(settings.pictureGridSize)}
+          onValueChange={(v) => handleChange({ pictureGridSize: v === DEFAULT_SETTING ? null : Number(v) })}
+          disabled={isPending}
+        >
+          <SelectTrigger className="w-[150px]"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEFAULT_SETTING}>School default</SelectItem>
+            {GRID_SIZES.map(n => <SelectItem key={n} value={String(n)}>{n} pictures</SelectItem>)}
+          </SelectContent>
+        </Select>
+        and give passwords of
+        <Select
+          value={settingValue(settings.picturePasswordLength)}
+          onValueChange={(v) => handleChange({ picturePasswordLength: v === DEFAULT_SETTING ? null : Number(v) })}
+          disabled={isPending}
+        >
+          <SelectTrigger className="w-[150px]"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEFAULT_SETTING}>School default</SelectItem>
+            {PASSWORD_LENGTHS.map(n => <SelectItem key={n} value={String(n)}>{n} pictures</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Students who entered the class code, waiting to be let in
+function JoinRequests({ classId }: { classId: number }) {
+  const { data: requests } = useJoinRequests(classId);
+  const { mutate: decide, isPending } = useDecideJoinRequest(classId);
+  const { toast } = useToast();
+
+  if (!requests?.length) return null;
+
+  const handleDecide = (requestId: number, approve: boolean) => {
+    decide({ requestId, approve }, {
+      onError: (error) => toast({ title: "Could not answer request", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Waiting to Join</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y divide-slate-100">
+          {requests.map((r) => (
+            <li key={r.id} className="flex items-center gap-3 py-2">
+              <div className="flex-1">
+                <p className="font-medium text-slate-800">{r.firstName}</p>
+                <p className="text-sm text-slate-500">
+                  {r.yearGroup ? `Year ${r.yearGroup} · ` : ""}
+                  {r.viaParent ? "Requested by a parent" : "Entered the code"} {formatDistanceToNow(new Date(r.createdAt), { addSuffix: true })}
+                </p>
+              </div>
+              <Button size="sm" className="gap-1" disabled={isPending} onClick={() => handleDecide(r.id, true)}>
+                <Check className="w-4 h-4" /> Approve
+              </Button>
+              <Button size="sm" variant="outline" className="gap-1" disabled={isPending} onClick={() => handleDecide(r.id, false)}>
+                <X className="w-4 h-4" /> Reject
+              </Button>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ClassRoster() {
+  const [, params] = useRoute("/teacher/classes/:id");
+  const classId = Number(params?.id);
+  const { data: classes } = useClasses();
+  const { data: students, isLoading } = useRoster(classId);
+  const { mutate: addStudent, isPending: isAdding } = useAddStudent(classId);
+  const { mutate: importRoster, isPending: isImporting, data: importResult, reset: resetImport } = useImportRoster(classId);
+  const { mutate: resetPictures, isPending: isResetting } = useResetPicturePassword();
+  const { data: cards, refetch: fetchCards, isFetching: isFetchingCards } = useLoginCards(classId);
+  const { toast } = useToast();
+
+  const [firstName, setFirstName] = useState("");
+  const [yearGroup, setYearGroup] = useState("");
+  const [rosterText, setRosterText] = useState<string | null>(null);
+  const [printJob, setPrintJob] = useState(0);
+
+  // Prints once the freshly fetched cards have rendered
+  useEffect(() => {
+    if (printJob) window.print();
+  }, [printJob]);
+
+  const cls = classes?.find(c => c.id === classId);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!firstName.trim() || !yearGroup) return;
+
+    addStudent({ firstName, yearGroup: Number(yearGroup) }, {
+      onSuccess: (student) => {
+        setFirstName("");
+        toast({ title: `${student.firstName} added`, description: `Username: ${student.username}` });
+      },
+      onError: (error) => {
+        toast({ title: "Could not add student", description: error.message, variant: "destructive" });
+      },
+    });
+  };
+
+  // Checks the file first; nothing is created until the teacher confirms
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    setRosterText(text);
+    importRoster({ data: text, dryRun: true }, {
+      onError: (error) => toast({ title: "Could not read roster", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  const confirmImport = () => {
+    if (!rosterText) return;
+    importRoster({ data: rosterText }, {
+      onSuccess: (result) => {
+        if (result.errors.length) return;
+        setRosterText(null);
+        toast({ title: `${result.count} students added`, description: "Print their login cards below." });
+      },
+      onError: (error) => toast({ title: "Could not import roster", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  const handlePrint = async () => {
+    const result = await fetchCards();
+    if (result.data) setPrintJob((n) => n + 1);
+    else toast({ title: "Could not load login cards", description: result.error?.message, variant: "destructive" });
+  };
+
+  const handleResetPictures = (studentId: number) => {
+    resetPictures(studentId, {
+      onSuccess: (student) => toast({ title: `New pictures for ${student.firstName}`, description: "Print a new login card for them." }),
+      onError: (error) => toast({ title: "Could not reset pictures", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  return (
+    <AdminLayout>
+      <div className="space-y-8 print:hidden">
+        <div>
+          <Link href="/teacher/classes" className="inline-flex items-center gap-1 text-sm text-slate-500 hover:text-slate-700">
+            <ArrowLeft className="w-4 h-4" /> My Classes
+          </Link>
+          <h2 className="text-3xl font-display font-bold text-slate-800">{cls?.name ?? "Class"}</h2>
+          <p className="text-slate-500">Add students and print their login cards.</p>
+        </div>
+
+        <JoinRequests classId={classId} />
+
+        {cls && (
+          <PictureSettingsCard
+            classId={classId}
+            settings={{ pictureGridSize: cls.pictureGridSize, picturePasswordLength: cls.picturePasswordLength }}
+          />
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Add a Student</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleAdd} className="flex gap-3">
+                <Input placeholder="First name" value={firstName} onChange={(e) => setFirstName(e.target.value)} />
+                <Select value={yearGroup} onValueChange={setYearGroup}>
+                  <SelectTrigger className="w-[120px]"><SelectValue placeholder="Year" /></SelectTrigger>
+                  <SelectContent>
+                    {YEAR_GROUPS.map(y => <SelectItem key={y} value={String(y)}>Year {y}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <Button type="submit" size="icon" disabled={isAdding || !firstName.trim() || !yearGroup}>
+                  {isAdding ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Upload a Roster</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <p className="text-sm text-slate-500">
+                A CSV file with <span className="font-mono">first name</span> and <span className="font-mono">year group</span> columns.
+              </p>
+              <Input
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => { resetImport(); handleFile(e.target.files?.[0]); }}
+              />
+              {importResult?.dryRun && (
+                importResult.errors.length ? (
+                  <ul className="text-sm text-red-600 space-y-1 max-h-40 overflow-y-auto">
+                    {importResult.errors.map((err, i) => (
+                      <li key={i}>{err.row > 0 ? `Row ${err.row}: ` : ""}{err.message}</li>
+                    ))}
+                  </ul>
+                ) : (
+                  <Button onClick={confirmImport} disabled={isImporting || importResult.count === 0} className="gap-2">
+                    {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                    Add {importResult.count} students
+                  </Button>
+                )
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>Students</CardTitle>
+            <Button variant="outline" className="gap-2" onClick={handlePrint} disabled={!students?.length || isFetchingCards}>
+              {isFetchingCards ? <Loader2 className="w-4 h-4 animate-spin" /> : <Printer className="w-4 h-4" />} Print login cards
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="w-8 h-8 animate-spin text-primary" />
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Year</TableHead>
+                    <TableHead>Username</TableHead>
+                    <TableHead>Pictures</TableHead>
+                    <TableHead>Parents</TableHead>
+                    <TableHead>Last login</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {students?.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center text-slate-400 py-8">
+                        No students in this class yet.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {students?.map((s) => (
+                    <TableRow key={s.id}>
+                      <TableCell className="font-medium">
+                        {s.firstName}
+                        {s.lockedUntil && (
+                          <Badge
+                            variant="destructive"
+                            className="ml-2"
+                            title={`Too many wrong tries. New pictures unlock it now; otherwise it unlocks ${formatDistanceToNow(new Date(s.lockedUntil), { addSuffix: true })}.`}
+                          >
+                            Locked
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{s.yearGroup ? `Year ${s.yearGroup}` : "-"}</TableCell>
+                      <TableCell className="font-mono">{s.username}</TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="gap-1"
+                          title="Give new pictures"
+                          disabled={isResetting}
+                          onClick={() => handleResetPictures(s.id)}
+                        >
+                          <RefreshCw className="w-3.5 h-3.5" /> New
+                        </Button>
+                      </TableCell>
+                      <TableCell className="text-slate-600">
+                        {s.guardians.length ? s.guardians.join(", ") : <span className="text-slate-400">None linked</span>}
+                      </TableCell>
+                      <TableCell className="text-slate-500">
+                        {s.lastLoginAt ? formatDistanceToNow(new Date(s.lastLoginAt), { addSuffix: true }) : "Never"}
+                      </TableCell>
+                      <TableCell className="text-right"><ParentCodeButton studentId={s.id} /></TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Only the cards are printed, two to a row for cutting out */}
+      <div className="hidden print:grid grid-cols-2 gap-4">
+        {cards?.map((s) => (
+          <PrintedCard key={s.id} student={s} classLabel={cls?.name ?? ""} classCode={cls?.code ?? ""} />
+        ))}
+      </div>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { AdminLayout } from "@/components/AdminLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useClasses, useCreateClass, useRegenerateClassCode } from "@/hooks/use-teacher";
+import { useToast } from "@/hooks/use-toast";
+import { Link } from "wouter";
+import { Loader2, Plus, RefreshCw, UserPlus, Users } from "lucide-react";
+
+export default function TeacherClasses() {
+  const { data: classes, isLoading } = useClasses();
+  const { mutate: createClass, isPending } = useCreateClass();
+  const { mutate: regenerateCode, isPending: isRegenerating } = useRegenerateClassCode();
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    createClass({ name }, {
+      onSuccess: (created) => {
+        setName("");
+        toast({ title: "Class created", description: `Join code: ${created.code}` });
+      },
+      onError: (error) => {
+        toast({ title: "Could not create class", description: error.message, variant: "destructive" });
+      },
+    });
+  };
+
+  // The old code stops working, e.g. after it has been shared too widely
+  const handleRegenerate = (classId: number) => {
+    regenerateCode(classId, {
+      onSuccess: (updated) => toast({ title: "Join code changed", description: `New code: ${updated.code}` }),
+      onError: (error) => toast({ title: "Could not change code", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  return (
+    <AdminLayout>
+      <div className="space-y-8">
+        <div>
+          <h2 className="text-3xl font-display font-bold text-slate-800">My Classes</h2>
+          <p className="text-slate-500">Add students to a class, or share its code so they can join.</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>New Class</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleCreate} className="flex gap-3">
+              <Input
+                placeholder="e.g. Year 5 Oak"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+              <Button type="submit" disabled={isPending || !name.trim()} className="gap-2">
+                {isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                Create
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : classes?.length === 0 ? (
+          <p className="text-center text-slate-400 py-12">You haven't created any classes yet.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {classes?.map((c) => (
+              <Card key={c.id}>
+                <CardContent className="pt-6 space-y-4">
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-lg font-bold text-slate-800">{c.name}</h3>
+                    <div className="flex items-center gap-1 text-sm text-slate-500">
+                      <Users className="w-4 h-4" />
+                      {c.studentCount}
+                    </div>
+                  </div>
+                  <div className="flex items-end justify-between">
+                    <div>
+                      <p className="text-xs font-medium text-slate-500 uppercase tracking-wider">Join code</p>
+                      <p className="text-2xl font-mono font-bold tracking-widest text-primary">{c.code}</p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Make a new code"
+                      disabled={isRegenerating}
+                      onClick={() => handleRegenerate(c.id)}
+                    >
+                      <RefreshCw className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  <Link href={`/teacher/classes/${c.id}`}>
+                    <Button variant="outline" size="sm" className="w-full gap-2">
+                      <UserPlus className="w-4 h-4" /> Students and login cards
+                      {c.pendingRequests > 0 && <Badge className="ml-1">{c.pendingRequests} to approve</Badge>}
+                    </Button>
+                  </Link>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
@@ -1,7 +1,7 @@
 import { useAuth } from "@/hooks/use-auth";
 import { AdminLayout } from "@/components/AdminLayout";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { useAnalytics } from "@/hooks/use-teacher";
+import { useAnalytics, useAssignments, useClasses } from "@/hooks/use-teacher";
 import { 
   BarChart, 
   Bar, 
@@ -16,18 +16,18 @@ import { Users, BookOpen, Brain, TrendingUp } from "lucide-react";
 export default function TeacherDashboard() {
   const { user } = useAuth();
   const { data: analytics, isLoading } = useAnalytics();
+  const { data: classes } = useClasses();
+  const { data: assignments } = useAssignments();
 
-  // Mock data for charts if analytics is empty/loading
   const chartData = analytics?.map(s => ({
     name: s.name,
-    score: s.averageMastery * 100
-  })) || [
-    { name: "Alice", score: 85 },
-    { name: "Bob", score: 72 },
-    { name: "Charlie", score: 90 },
-    { name: "David", score: 65 },
-    { name: "Eve", score: 95 },
-  ];
+    score: Math.round(s.averageMastery * 100)
+  })) || [];
+
+  const totalStudents = classes?.reduce((sum, c) => sum + c.studentCount, 0) ?? 0;
+  const classMastery = analytics && analytics.length > 0
+    ? Math.round(analytics.reduce((sum, s) => sum + s.averageMastery, 0) / analytics.length * 100)
+    : 0;
 
   return (
     <AdminLayout>
@@ -44,7 +44,7 @@ export default function TeacherDashboard() {
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm font-medium text-slate-500">Total Students</p>
-                  <h3 className="text-2xl font-bold">24</h3>
+                  <h3 className="text-2xl font-bold">{totalStudents}</h3>
                 </div>
                 <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center text-blue-600">
                   <Users className="w-5 h-5" />
@@ -58,7 +58,7 @@ export default function TeacherDashboard() {
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm font-medium text-slate-500">Assignments</p>
-                  <h3 className="text-2xl font-bold">3</h3>
+                  <h3 className="text-2xl font-bold">{assignments?.filter(a => a.status !== "completed").length ?? 0}</h3>
                 </div>
                 <div className="w-10 h-10 bg-purple-100 rounded-full flex items-center justify-center text-purple-600">
                   <BookOpen className="w-5 h-5" />
@@ -72,7 +72,7 @@ export default function TeacherDashboard() {
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm font-medium text-slate-500">Class Mastery</p>
-                  <h3 className="text-2xl font-bold">78%</h3>
+                  <h3 className="text-2xl font-bold">{classMastery}%</h3>
                 </div>
                 <div className="w-10 h-10 bg-green-100 rounded-full flex items-center justify-center text-green-600">
                   <Brain className="w-5 h-5" />
@@ -103,18 +103,24 @@ export default function TeacherDashboard() {
           </CardHeader>
           <CardContent>
             <div className="h-[300px] w-full">
-              <ResponsiveContainer width="100%" height="100%">
-                <BarChart data={chartData}>
-                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
-                  <XAxis dataKey="name" stroke="#888888" fontSize={12} tickLine={false} axisLine={false} />
-                  <YAxis stroke="#888888" fontSize={12} tickLine={false} axisLine={false} tickFormatter={(value) => `${value}%`} />
-                  <Tooltip 
-                    cursor={{ fill: 'transparent' }}
-                    contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
-                  />
-                  <Bar dataKey="score" fill="hsl(var(--primary))" radius={[4, 4, 0, 0]} />
-                </BarChart>
-              </ResponsiveContainer>
+              {!isLoading && chartData.length === 0 ? (
+                <div className="h-full flex items-center justify-center text-slate-400">
+                  No student activity yet. Create a class and share its code to get started.
+                </div>
+              ) : (
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis dataKey="name" stroke="#888888" fontSize={12} tickLine={false} axisLine={false} />
+                    <YAxis stroke="#888888" fontSize={12} tickLine={false} axisLine={false} tickFormatter={(value) => `${value}%`} />
+                    <Tooltip 
+                      cursor={{ fill: 'transparent' }}
+                      contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+                    />
+                    <Bar dataKey="score" fill="hsl(var(--primary))" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              )}
             </div>
           </CardContent>
         </Card>
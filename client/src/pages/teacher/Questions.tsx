@@ -0,0 +1,532 @@
+import { useState } from "react";
+import { AdminLayout } from "@/components/AdminLayout";
+import { QuestionView, type QuestionResult } from "@/components/QuestionView";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  useDeleteQuestion, useDeleteQuiz, useMyQuestions, useQuizzes, useSaveQuestion, useSaveQuiz,
+} from "@/hooks/use-teacher";
+import { useTopics } from "@/hooks/use-learning";
+import { useToast } from "@/hooks/use-toast";
+import { Eye, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { dragDropConfigSchema, numericConfigSchema, type Answer, type Question } from "@shared/schema";
+import type { QuestionInput } from "@shared/routes";
+
+type FormType = "multiple_choice" | "numeric" | "ordering";
+
+interface QuestionForm {
+  id?: number;
+  topicId: string;
+  type: FormType;
+  content: string;
+  correctAnswer: string;
+  distractors: string[];
+  unit: string;
+  items: string; // Ordering: one item per line, in the right order
+  difficulty: string;
+  explanation: string;
+}
+
+const typeLabels: Record<FormType, string> = {
+  multiple_choice: "Multiple choice",
+  numeric: "Number answer",
+  ordering: "Put in order",
+};
+
+const emptyForm: QuestionForm = {
+  topicId: "",
+  type: "multiple_choice",
+  content: "",
+  correctAnswer: "",
+  distractors: ["", "", ""],
+  unit: "",
+  items: "",
+  difficulty: "3",
+  explanation: "",
+};
+
+function toInput(form: QuestionForm): QuestionInput {
+  const base = {
+    topicId: Number(form.topicId),
+    content: form.content,
+    difficulty: Number(form.difficulty) || 1,
+    explanation: form.explanation.trim() || null,
+  };
+
+  if (form.type === "ordering") {
+    const items = form.items.split("\n").map((i) => i.trim()).filter(Boolean);
+    return {
+      ...base,
+      type: "drag_drop",
+      correctAnswer: JSON.stringify(items),
+      distractors: [],
+      config: { variant: "ordering", items },
+    };
+  }
+  if (form.type === "numeric") {
+    return {
+      ...base,
+      type: "numeric",
+      correctAnswer: form.correctAnswer,
+      distractors: [],
+      config: form.unit.trim() ? { unit: form.unit.trim() } : null,
+    };
+  }
+  return {
+    ...base,
+    type: "multiple_choice",
+    correctAnswer: form.correctAnswer,
+    distractors: form.distractors.map((d) => d.trim()).filter(Boolean),
+    config: null,
+  };
+}
+
+function toForm(question: Question): QuestionForm {
+  const form = {
+    ...emptyForm,
+    id: question.id,
+    topicId: String(question.topicId),
+    content: question.content,
+    difficulty: String(question.difficulty ?? 1),
+    explanation: question.explanation ?? "",
+  };
+
+  const ordering = dragDropConfigSchema.safeParse(question.config).data;
+  if (question.type === "drag_drop" && ordering?.variant === "ordering") {
+    return { ...form, type: "ordering", items: (JSON.parse(question.correctAnswer) as string[]).join("\n") };
+  }
+  if (question.type === "numeric") {
+    const config = numericConfigSchema.safeParse(question.config ?? {}).data;
+    return { ...form, type: "numeric", correctAnswer: question.correctAnswer, unit: config?.unit ?? "" };
+  }
+  const distractors = [...(question.distractors as string[]), "", "", ""].slice(0, 3);
+  return { ...form, correctAnswer: question.correctAnswer, distractors };
+}
+
+type PreviewQuestion = Question & { options: string[] };
+
+// Mixes the options the way the server does when serving a question
+function withOptions(question: Question): PreviewQuestion {
+  const options = (question.type ?? "multiple_choice") === "multiple_choice"
+    ? [question.correctAnswer, ...(question.distractors as string[])].sort(() => Math.random() - 0.5)
+    : [];
+  return { ...question, options };
+}
+
+// Shaped like a stored question so the preview renders exactly as in a game
+function toPreview(form: QuestionForm): PreviewQuestion {
+  const input = toInput(form);
+  return withOptions({
+    id: form.id ?? 0,
+    skillId: null,
+    generated: false,
+    ownerId: null,
+    ...input,
+    type: input.type ?? "multiple_choice",
+    difficulty: input.difficulty ?? 1,
+    explanation: input.explanation ?? null,
+    config: input.config ?? null,
+  });
+}
+
+export default function TeacherQuestions() {
+  const { data: questions, isLoading } = useMyQuestions();
+  const { data: topics } = useTopics();
+  const topicNames = new Map(topics?.map((t) => [t.id, t.name]));
+
+  return (
+    <AdminLayout>
+      <div className="space-y-8">
+        <div>
+          <h2 className="text-3xl font-display font-bold text-slate-800">Questions & Quizzes</h2>
+          <p className="text-slate-500">Write your own questions and group them into quizzes to assign.</p>
+        </div>
+
+        <Tabs defaultValue="questions">
+          <TabsList>
+            <TabsTrigger value="questions">My Questions</TabsTrigger>
+            <TabsTrigger value="quizzes">Quizzes</TabsTrigger>
+          </TabsList>
+          <TabsContent value="questions">
+            <QuestionsTab questions={questions} isLoading={isLoading} topicNames={topicNames} />
+          </TabsContent>
+          <TabsContent value="quizzes">
+            <QuizzesTab questions={questions ?? []} topicNames={topicNames} />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </AdminLayout>
+  );
+}
+
+function QuestionsTab({ questions, isLoading, topicNames }: {
+  questions?: Question[];
+  isLoading: boolean;
+  topicNames: Map<number, string>;
+}) {
+  const { data: topics } = useTopics();
+  const { mutate: saveQuestion, isPending } = useSaveQuestion();
+  const { mutate: deleteQuestion } = useDeleteQuestion();
+  const { toast } = useToast();
+  const [form, setForm] = useState<QuestionForm>(emptyForm);
+  const [preview, setPreview] = useState<PreviewQuestion | null>(null);
+
+  const update = (changes: Partial<QuestionForm>) => setForm((prev) => ({ ...prev, ...changes }));
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.topicId || !form.content.trim()) return;
+
+    saveQuestion({ id: form.id, ...toInput(form) }, {
+      onSuccess: () => {
+        toast({ title: form.id ? "Question updated" : "Question added" });
+        setForm({ ...emptyForm, topicId: form.topicId, type: form.type });
+      },
+      onError: (error) => {
+        toast({ title: "Could not save question", description: error.message, variant: "destructive" });
+      },
+    });
+  };
+
+  return (
+    <div className="space-y-6 mt-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>{form.id ? "Edit Question" : "New Question"}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+              <div className="md:col-span-2 space-y-1">
+                <label className="text-xs font-medium text-slate-500">Topic</label>
+                <Select value={form.topicId} onValueChange={(topicId) => update({ topicId })}>
+                  <SelectTrigger><SelectValue placeholder="Choose a topic" /></SelectTrigger>
+                  <SelectContent>
+                    {topics?.map((t) => (
+                      <SelectItem key={t.id} value={String(t.id)}>{t.name} ({t.stage})</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs font-medium text-slate-500">Type</label>
+                <Select value={form.type} onValueChange={(type) => update({ type: type as FormType })} disabled={!!form.id}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(typeLabels) as FormType[]).map((type) => (
+                      <SelectItem key={type} value={type}>{typeLabels[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs font-medium text-slate-500">Difficulty (1-10)</label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={form.difficulty}
+                  onChange={(e) => update({ difficulty: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <label className="text-xs font-medium text-slate-500">Question</label>
+              <Textarea
+                placeholder="e.g. What is 7 × 8?"
+                value={form.content}
+                onChange={(e) => update({ content: e.target.value })}
+              />
+            </div>
+
+            {form.type === "multiple_choice" && (
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                <div className="space-y-1">
+                  <label className="text-xs font-medium text-slate-500">Correct answer</label>
+                  <Input value={form.correctAnswer} onChange={(e) => update({ correctAnswer: e.target.value })} />
+                </div>
+                {form.distractors.map((d, i) => (
+                  <div key={i} className="space-y-1">
+                    <label className="text-xs font-medium text-slate-500">Wrong answer {i + 1}</label>
+                    <Input
+                      value={d}
+                      onChange={(e) => update({ distractors: form.distractors.map((x, j) => j === i ? e.target.value : x) })}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {form.type === "numeric" && (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div className="space-y-1">
+                  <label className="text-xs font-medium text-slate-500">Answer</label>
+                  <Input placeholder="e.g. 56 or 3/4" value={form.correctAnswer} onChange={(e) => update({ correctAnswer: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-xs font-medium text-slate-500">Unit (optional)</label>
+                  <Input placeholder="e.g. cm" value={form.unit} onChange={(e) => update({ unit: e.target.value })} />
+                </div>
+              </div>
+            )}
+
+            {form.type === "ordering" && (
+              <div className="space-y-1">
+                <label className="text-xs font-medium text-slate-500">Items in the correct order, one per line</label>
+                <Textarea rows={5} value={form.items} onChange={(e) => update({ items: e.target.value })} />
+              </div>
+            )}
+
+            <div className="space-y-1">
+              <label className="text-xs font-medium text-slate-500">Explanation (shown after a wrong answer)</label>
+              <Input value={form.explanation} onChange={(e) => update({ explanation: e.target.value })} />
+            </div>
+
+            <div className="flex gap-2 justify-end">
+              {form.id && (
+                <Button type="button" variant="ghost" onClick={() => setForm(emptyForm)}>Cancel</Button>
+              )}
+              <Button type="button" variant="outline" className="gap-2" onClick={() => setPreview(toPreview(form))} disabled={!form.content.trim()}>
+                <Eye className="w-4 h-4" />
+                Preview
+              </Button>
+              <Button type="submit" className="gap-2" disabled={isPending || !form.topicId || !form.content.trim()}>
+                {isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                {form.id ? "Save" : "Add"}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>My Bank</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Question</TableHead>
+                  <TableHead>Topic</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">Difficulty</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {questions?.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-slate-400 py-8">
+                      You haven't written any questions yet.
+                    </TableCell>
+                  </TableRow>
+                )}
+                {questions?.map((q) => (
+                  <TableRow key={q.id}>
+                    <TableCell className="font-medium max-w-md truncate">{q.content}</TableCell>
+                    <TableCell>{topicNames.get(q.topicId) ?? "Unknown topic"}</TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{typeLabels[toForm(q).type]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{q.difficulty}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button size="icon" variant="ghost" onClick={() => setPreview(withOptions(q))} aria-label="Preview">
+                        <Eye className="w-4 h-4 text-slate-400" />
+                      </Button>
+                      <Button size="icon" variant="ghost" onClick={() => setForm(toForm(q))} aria-label="Edit">
+                        <Pencil className="w-4 h-4 text-slate-400" />
+                      </Button>
+                      <Button size="icon" variant="ghost" onClick={() => deleteQuestion(q.id)} aria-label="Delete">
+                        <Trash2 className="w-4 h-4 text-slate-400" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <PreviewDialog question={preview} onClose={() => setPreview(null)} />
+    </div>
+  );
+}
+
+// Plays the question in the game style; answering reveals the correct answer
+function PreviewDialog({ question, onClose }: { question: PreviewQuestion | null; onClose: () => void }) {
+  const [selected, setSelected] = useState<Answer | null>(null);
+  const [result, setResult] = useState<QuestionResult | null>(null);
+
+  const close = () => {
+    setSelected(null);
+    setResult(null);
+    onClose();
+  };
+
+  const reveal = (answer: Answer) => {
+    if (!question) return;
+    setSelected(answer);
+    const correctAnswer: Answer = question.type === "drag_drop" ? JSON.parse(question.correctAnswer) : question.correctAnswer;
+    setResult({
+      correct: question.type === "multiple_choice" ? answer === question.correctAnswer : undefined,
+      correctAnswer,
+    });
+  };
+
+  return (
+    <Dialog open={!!question} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Preview</DialogTitle>
+        </DialogHeader>
+        {question && (
+          <div className="rounded-3xl p-6 bg-gradient-to-br from-indigo-900 to-purple-900">
+            <QuestionView key={question.id} question={question} onAnswer={reveal} selectedAnswer={selected} result={result} />
+            {result && question.type === "numeric" && (
+              <p className="text-center text-white/80 font-bold mt-4">Answer: {question.correctAnswer}</p>
+            )}
+            {result && question.explanation && (
+              <p className="text-center text-white/60 text-sm mt-2">{question.explanation}</p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function QuizzesTab({ questions, topicNames }: { questions: Question[]; topicNames: Map<number, string> }) {
+  const { data: quizzes, isLoading } = useQuizzes();
+  const { mutate: saveQuiz, isPending } = useSaveQuiz();
+  const { mutate: deleteQuiz } = useDeleteQuiz();
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<number | undefined>();
+  const [name, setName] = useState("");
+  const [questionIds, setQuestionIds] = useState<number[]>([]); // In the order ticked
+
+  const reset = () => {
+    setEditingId(undefined);
+    setName("");
+    setQuestionIds([]);
+  };
+
+  const toggle = (id: number) => setQuestionIds((prev) =>
+    prev.includes(id) ? prev.filter((q) => q !== id) : [...prev, id]);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || questionIds.length === 0) return;
+
+    saveQuiz({ id: editingId, name, questionIds }, {
+      onSuccess: () => {
+        toast({ title: editingId ? "Quiz updated" : "Quiz created", description: "Assign it from the Assignments page." });
+        reset();
+      },
+      onError: (error) => {
+        toast({ title: "Could not save quiz", description: error.message, variant: "destructive" });
+      },
+    });
+  };
+
+  return (
+    <div className="space-y-6 mt-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>{editingId ? "Edit Quiz" : "New Quiz"}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSave} className="space-y-4">
+            <Input placeholder="e.g. Friday times tables" value={name} onChange={(e) => setName(e.target.value)} />
+
+            {questions.length === 0 ? (
+              <p className="text-sm text-slate-400">Write some questions first, then tick them here.</p>
+            ) : (
+              <div className="border rounded-lg divide-y max-h-80 overflow-y-auto">
+                {questions.map((q) => {
+                  const position = questionIds.indexOf(q.id);
+                  return (
+                    <label key={q.id} className="flex items-center gap-3 px-4 py-2 cursor-pointer hover:bg-slate-50">
+                      <Checkbox checked={position >= 0} onCheckedChange={() => toggle(q.id)} />
+                      <span className="w-6 text-sm font-bold text-primary">{position >= 0 ? position + 1 : ""}</span>
+                      <span className="flex-1 truncate">{q.content}</span>
+                      <span className="text-xs text-slate-400">{topicNames.get(q.topicId)}</span>
+                    </label>
+                  );
+                })}
+              </div>
+            )}
+
+            <div className="flex gap-2 justify-end">
+              {editingId && <Button type="button" variant="ghost" onClick={reset}>Cancel</Button>}
+              <Button type="submit" className="gap-2" disabled={isPending || !name.trim() || questionIds.length === 0}>
+                {isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                {editingId ? "Save" : "Create"} ({questionIds.length})
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : quizzes?.length === 0 ? (
+        <p className="text-center text-slate-400 py-12">You haven't made any quizzes yet.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {quizzes?.map((quiz) => (
+            <Card key={quiz.id}>
+              <CardContent className="pt-6 flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <h3 className="text-lg font-bold text-slate-800 truncate">{quiz.name}</h3>
+                  <p className="text-sm text-slate-500">{quiz.questionIds.length} questions</p>
+                </div>
+                <div className="flex shrink-0">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    aria-label="Edit"
+                    onClick={() => {
+                      setEditingId(quiz.id);
+                      setName(quiz.name);
+                      setQuestionIds(quiz.questionIds);
+                    }}
+                  >
+                    <Pencil className="w-4 h-4 text-slate-400" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    aria-label="Delete"
+                    onClick={() => deleteQuiz(quiz.id, {
+                      onError: (error) => toast({ title: "Could not delete quiz", description: error.message, variant: "destructive" }),
+                    })}
+                  >
+                    <Trash2 className="w-4 h-4 text-slate-400" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { readFile, writeFile } from "fs/promises";
+import { extname } from "path";
+import { pool } from "../server/db";
+import { exportQuestionBank, importQuestionPack, type PackFormat } from "../server/question-bank";
+
+// Usage:
+//   npm run questions -- import <file.csv|file.json> [--dry-run]
+//   npm run questions -- export [--topic <slug>] [--format csv|json] [--out <file>]
+
+const USAGE = `usage:
+  questions import <file> [--dry-run]
+  questions export [--topic <slug>] [--format csv|json] [--out <file>]`;
+
+function option(args: string[], name: string): string | undefined {
+  const i = args.indexOf(name);
+  return i >= 0 ? args[i + 1] : undefined;
+}
+
+function formatOf(value: string | undefined, fallback: PackFormat): PackFormat {
+  const format = value?.replace(/^\./, "").toLowerCase();
+  if (!format) return fallback;
+  if (format !== "csv" && format !== "json") throw new Error(`Unsupported format "${format}"`);
+  return format;
+}
+
+async function runImport(args: string[]): Promise<number> {
+  const file = args.find(a => !a.startsWith("--"));
+  if (!file) throw new Error(USAGE);
+
+  const dryRun = args.includes("--dry-run");
+  // Run by whoever manages the server, so it imports into the shared bank
+  const result = await importQuestionPack(formatOf(extname(file), "json"), await readFile(file, "utf-8"), null, dryRun);
+
+  for (const error of result.errors) {
+    console.error(`row ${error.row}${error.field ? ` (${error.field})` : ""}: ${error.message}`);
+  }
+  if (result.errors.length > 0) {
+    console.error(`${result.errors.length} error(s); nothing imported`);
+    return 1;
+  }
+  console.log(`${dryRun ? "would import" : "imported"} ${result.imported} question(s), skipped ${result.skipped} already in the bank`);
+  return 0;
+}
+
+async function runExport(args: string[]): Promise<number> {
+  const out = option(args, "--out");
+  const format = formatOf(option(args, "--format") ?? (out ? extname(out) : undefined), "csv");
+  const body = await exportQuestionBank(format, option(args, "--topic"));
+
+  if (out) await writeFile(out, body);
+  else process.stdout.write(body);
+  return 0;
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  try {
+    if (command === "import") return await runImport(args);
+    if (command === "export") return await runExport(args);
+    console.error(USAGE);
+    return 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+main().then(
+  (code) => process.exit(code),
+  (err) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+  },
+);
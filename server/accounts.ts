@@ -0,0 +1,92 @@
+import { createHash, randomBytes } from "crypto";
+import type { AccountTokenPurpose, User } from "@shared/schema";
+import { storage } from "./storage";
+import { appUrl, sendMail } from "./mailer";
+
+// === ACCOUNTS ===
+// Tokens for links sent by email, and the emails that carry them. The raw
+// token only ever appears in the link; the database keeps its sha256.
+
+const VERIFY_EMAIL_HOURS = 48;
+const RESET_PASSWORD_HOURS = 1;
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Returns the token to put in the link
+export async function issueAccountToken(userId: number, purpose: AccountTokenPurpose, hours: number): Promise<string> {
+  const token = randomBytes(32).toString("base64url");
+  await storage.createAccountToken(userId, purpose, hashToken(token), new Date(Date.now() + hours * 60 * 60 * 1000));
+  return token;
+}
+
+// The user the token was issued to, or undefined if it is unknown, used or expired
+export async function redeemAccountToken(token: string, purpose: AccountTokenPurpose): Promise<User | undefined> {
+  const used = await storage.redeemAccountToken(hashToken(token), purpose);
+  return used && storage.getUser(used.userId);
+}
+
+export async function sendVerificationEmail(user: User & { email: string }): Promise<void> {
+  const token = await issueAccountToken(user.id, "verify_email", VERIFY_EMAIL_HOURS);
+  await sendMail({
+    to: user.email,
+    subject: "Confirm your EduKid email address",
+    text: [
+      `Hi ${user.firstName},`,
+      `Please confirm your email address within ${VERIFY_EMAIL_HOURS} hours by opening this link:`,
+      appUrl(`/verify-email?token=${token}`),
+      "If you did not create an EduKid account, you can ignore this email.",
+    ].join("\n\n"),
+  });
+}
+
+// Sent instead of a confirmation link when someone signs up with an address
+// that already has an account
+export async function sendAccountExistsEmail(user: User & { email: string }): Promise<void> {
+  await sendMail({
+    to: user.email,
+    subject: "You already have an EduKid account",
+    text: [
+      `Hi ${user.firstName},`,
+      `Someone tried to sign up for EduKid with this email address, but it already belongs to the account "${user.username}". If that was you, sign in here, or use "I forgot my login" to choose a new password:`,
+      appUrl("/"),
+      "If it wasn't you, you can ignore this email; nothing has changed.",
+    ].join("\n\n"),
+  });
+}
+
+export async function verifyEmail(token: string): Promise<User | undefined> {
+  const user = await redeemAccountToken(token, "verify_email");
+  if (!user) return undefined;
+  await storage.markEmailVerified(user.id);
+  return { ...user, emailVerifiedAt: new Date() };
+}
+
+export async function sendPasswordResetEmail(user: User & { email: string }): Promise<void> {
+  const token = await issueAccountToken(user.id, "reset_password", RESET_PASSWORD_HOURS);
+  await sendMail({
+    to: user.email,
+    subject: "Reset your EduKid password",
+    text: [
+      `Hi ${user.firstName},`,
+      `Someone asked to reset the password for the EduKid account "${user.username}". To choose a new one, open this link within ${RESET_PASSWORD_HOURS} hour:`,
+      appUrl(`/reset-password?token=${token}`),
+      "If it wasn't you, ignore this email; your password has not changed.",
+    ].join("\n\n"),
+  });
+}
+
+// Sets the new password and signs the account out everywhere, in case the old
+// one was known to someone else. Opening the emailed link also proves the
+// address, so an unconfirmed one is confirmed.
+export async function resetPassword(token: string, password: string): Promise<User | undefined> {
+  const user = await redeemAccountToken(token, "reset_password");
+  if (!user) return undefined;
+
+  await storage.updatePassword(user.id, password);
+  if (!user.emailVerifiedAt) await storage.markEmailVerified(user.id);
+  await storage.deleteSessionsForUser(user.id);
+  await storage.recordCredentialReset(user.id, user.id, "password");
+  return user;
+}
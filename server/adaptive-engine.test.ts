@@ -0,0 +1,136 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Question } from "@shared/schema";
+import {
+  EloSelector, RandomSelector, createSelector, excludeRecent, isBankThin, pickWeakestSkill, withinBand,
+  type AnswerRecord,
+} from "./adaptive-engine";
+
+function question(id: number, difficulty: number, skillId: number | null = null): Question {
+  return {
+    id, topicId: 1, skillId, content: `Q${id}`, type: "multiple_choice", correctAnswer: "1",
+    distractors: ["2", "3", "4"], difficulty, explanation: null, config: null, generated: false, ownerId: null,
+  };
+}
+
+function answer(questionId: number, isCorrect: boolean, difficulty = 5, timeTaken = 10): AnswerRecord {
+  return { questionId, difficulty, isCorrect, timeTaken };
+}
+
+// One question at each difficulty, 1 to 10
+const bank = Array.from({ length: 10 }, (_, i) => question(i + 1, i + 1));
+const first = () => 0;
+
+test("excludeRecent drops recently answered questions", () => {
+  const fresh = excludeRecent(bank.slice(0, 3), [answer(1, true), answer(2, false)]);
+  assert.deepEqual(fresh.map(q => q.id), [3]);
+});
+
+test("excludeRecent only looks at the most recent answers", () => {
+  const history = [answer(9, true), answer(1, true)];
+  assert.deepEqual(excludeRecent(bank.slice(0, 2), history, 1).map(q => q.id), [1, 2]);
+});
+
+test("excludeRecent keeps every candidate when all were answered recently", () => {
+  const candidates = bank.slice(0, 2);
+  assert.deepEqual(excludeRecent(candidates, [answer(1, true), answer(2, true)]), candidates);
+});
+
+test("isBankThin is true with fewer than three unseen questions", () => {
+  const candidates = bank.slice(0, 4);
+  assert.equal(isBankThin(candidates, []), false);
+  assert.equal(isBankThin(candidates, [answer(1, true), answer(2, true)]), true);
+  assert.equal(isBankThin([], []), true);
+});
+
+test("EloSelector serves nothing from an empty bank", () => {
+  assert.equal(new EloSelector().selectQuestion({ candidates: [], history: [], mastery: 0.5 }), undefined);
+});
+
+test("EloSelector starts a new student on easy questions", () => {
+  const picked = new EloSelector({ poolSize: 1 }).selectQuestion({ candidates: bank, history: [], mastery: 0 }, first);
+  assert.ok(picked && picked.difficulty! <= 3, `picked difficulty ${picked?.difficulty}`);
+});
+
+test("EloSelector moves up after correct answers and down after misses", () => {
+  const selector = new EloSelector({ poolSize: 1 });
+  const rights = [11, 12, 13, 14].map(id => answer(id, true, 6, 5));
+  const wrongs = [11, 12, 13, 14].map(id => answer(id, false, 4));
+  const harder = selector.selectQuestion({ candidates: bank, history: rights, mastery: 0.5 }, first)!;
+  const easier = selector.selectQuestion({ candidates: bank, history: wrongs, mastery: 0.5 }, first)!;
+  assert.ok(harder.difficulty! > easier.difficulty!, `${harder.difficulty} should be above ${easier.difficulty}`);
+});
+
+test("EloSelector gives less credit for slow correct answers", () => {
+  const selector = new EloSelector();
+  const fast = selector.estimateAbility([answer(1, true, 5, 5)], 0.5);
+  const slow = selector.estimateAbility([answer(1, true, 5, 60)], 0.5);
+  assert.ok(fast > slow);
+});
+
+test("EloSelector never repeats a recent question while others remain", () => {
+  const history = [answer(5, true), answer(6, true)];
+  for (const r of [0, 0.5, 0.99]) {
+    const picked = new EloSelector().selectQuestion({ candidates: bank, history, mastery: 0.5 }, () => r)!;
+    assert.ok(![5, 6].includes(picked.id));
+  }
+});
+
+test("EloSelector target difficulty stays between 1 and 10", () => {
+  const selector = new EloSelector();
+  const high = [1, 2, 3, 4, 5, 6].map(id => answer(id, true, 10, 2));
+  const low = [1, 2, 3, 4, 5, 6].map(id => answer(id, false, 1));
+  assert.equal(selector.targetDifficulty({ candidates: [], history: high, mastery: 1 }), 10);
+  assert.equal(selector.targetDifficulty({ candidates: [], history: low, mastery: 0 }), 1);
+});
+
+test("RandomSelector picks with the supplied random source", () => {
+  const selector = new RandomSelector();
+  const candidates = bank.slice(0, 4);
+  assert.equal(selector.selectQuestion({ candidates, history: [], mastery: 0 }, () => 0)!.id, 1);
+  assert.equal(selector.selectQuestion({ candidates, history: [], mastery: 0 }, () => 0.99)!.id, 4);
+  assert.equal(selector.selectQuestion({ candidates: [], history: [], mastery: 0 }), undefined);
+});
+
+test("RandomSelector targets difficulty from mastery", () => {
+  const selector = new RandomSelector();
+  assert.equal(selector.targetDifficulty({ candidates: [], history: [], mastery: 0 }), 1);
+  assert.equal(selector.targetDifficulty({ candidates: [], history: [], mastery: 1 }), 10);
+});
+
+test("pickWeakestSkill prefers unpractised skills, then the lowest score", () => {
+  const candidates = [question(1, 3, 10), question(2, 3, 20), question(3, 3, 30)];
+  const skills = [
+    { skillId: 10, sortOrder: 1, score: 0.4 },
+    { skillId: 20, sortOrder: 2, score: 0.2 },
+    { skillId: 30, sortOrder: 3, score: undefined },
+  ];
+  assert.equal(pickWeakestSkill(skills, candidates)?.skillId, 30);
+  assert.equal(pickWeakestSkill(skills.slice(0, 2), candidates)?.skillId, 20);
+});
+
+test("pickWeakestSkill breaks ties by teaching order and skips skills without questions", () => {
+  const skills = [
+    { skillId: 20, sortOrder: 2, score: undefined },
+    { skillId: 10, sortOrder: 1, score: undefined },
+    { skillId: 30, sortOrder: 0, score: 0 },
+  ];
+  assert.equal(pickWeakestSkill(skills, [question(1, 3, 10), question(2, 3, 20)])?.skillId, 10);
+  assert.equal(pickWeakestSkill(skills, [question(1, 3, null)]), undefined);
+});
+
+test("withinBand keeps a difficulty inside the candidates' range", () => {
+  const band = [question(1, 3), question(2, 5), question(3, 4)];
+  assert.equal(withinBand(1, band), 3);
+  assert.equal(withinBand(4, band), 4);
+  assert.equal(withinBand(9, band), 5);
+  assert.equal(withinBand(9, []), 9);
+});
+
+test("createSelector picks by name and falls back to Elo", () => {
+  assert.equal(createSelector("random").name, "random");
+  assert.equal(createSelector("elo").name, "elo");
+  assert.equal(createSelector(undefined).name, "elo");
+  assert.equal(createSelector("nonsense").name, "elo");
+  assert.equal(createSelector("constructor").name, "elo");
+});
@@ -0,0 +1,192 @@
+import type { Question } from "@shared/schema";
+
+// === ADAPTIVE QUESTION SELECTION ===
+// Kept free of storage access so strategies can be driven with plain data.
+
+export interface AnswerRecord {
+  questionId: number;
+  skillId?: number | null;
+  difficulty: number; // 1-10
+  isCorrect: boolean;
+  timeTaken: number; // in seconds
+}
+
+export interface SelectionContext {
+  candidates: Question[];
+  history: AnswerRecord[]; // Most recent first
+  mastery: number; // 0.0 to 1.0, used as the prior before any answers
+}
+
+export interface QuestionSelector {
+  readonly name: string;
+  selectQuestion(context: SelectionContext, random?: () => number): Question | undefined;
+  // Difficulty (1-10) a freshly generated question should have
+  targetDifficulty(context: SelectionContext): number;
+}
+
+// Questions answered this recently are not served again while alternatives exist
+export const RECENT_EXCLUSION_COUNT = 5;
+
+const MIN_DIFFICULTY = 1;
+const MAX_DIFFICULTY = 10;
+
+export function clampDifficulty(difficulty: number | null | undefined): number {
+  return Math.max(MIN_DIFFICULTY, Math.min(MAX_DIFFICULTY, difficulty ?? MIN_DIFFICULTY));
+}
+
+export function currentStreak(history: AnswerRecord[]): number {
+  // Positive for consecutive correct answers, negative for consecutive misses
+  if (history.length === 0) return 0;
+  const first = history[0].isCorrect;
+  let run = 0;
+  for (const answer of history) {
+    if (answer.isCorrect !== first) break;
+    run++;
+  }
+  return first ? run : -run;
+}
+
+export function excludeRecent(candidates: Question[], history: AnswerRecord[], count = RECENT_EXCLUSION_COUNT): Question[] {
+  const recent = new Set(history.slice(0, count).map(a => a.questionId));
+  const fresh = candidates.filter(q => !recent.has(q.id));
+  return fresh.length > 0 ? fresh : candidates;
+}
+
+export interface EloOptions {
+  kFactor: number; // How far one answer moves the ability estimate
+  targetSuccess: number; // Probability of success to aim for
+  fastSeconds: number; // Correct answers at or under this count as fluent
+  slowSeconds: number; // Correct answers over this only earn partial credit
+  poolSize: number; // Pick randomly among this many best-matched questions
+}
+
+const DEFAULT_ELO_OPTIONS: EloOptions = {
+  kFactor: 0.4,
+  targetSuccess: 0.7,
+  fastSeconds: 8,
+  slowSeconds: 30,
+  poolSize: 3,
+};
+
+// Elo/1PL-IRT style selector: ability and difficulty share a logit scale, so
+// P(correct) = 1 / (1 + e^-(ability - difficulty)).
+export class EloSelector implements QuestionSelector {
+  readonly name = "elo";
+  private options: EloOptions;
+
+  constructor(options: Partial<EloOptions> = {}) {
+    this.options = { ...DEFAULT_ELO_OPTIONS, ...options };
+  }
+
+  static difficultyToLogit(difficulty: number): number {
+    return (clampDifficulty(difficulty) - 5.5) * 0.8;
+  }
+
+  static successProbability(ability: number, difficulty: number): number {
+    return 1 / (1 + Math.exp(-(ability - EloSelector.difficultyToLogit(difficulty))));
+  }
+
+  estimateAbility(history: AnswerRecord[], mastery: number): number {
+    // Prior: mastery 0 sits at the easiest question, mastery 1 at the hardest
+    let ability = EloSelector.difficultyToLogit(MIN_DIFFICULTY + mastery * (MAX_DIFFICULTY - MIN_DIFFICULTY));
+    const { kFactor, fastSeconds, slowSeconds } = this.options;
+
+    // Replay oldest first so the latest answers carry the most weight
+    for (const answer of [...history].reverse()) {
+      const expected = EloSelector.successProbability(ability, answer.difficulty);
+      let outcome = answer.isCorrect ? 1 : 0;
+      let k = kFactor;
+      if (answer.isCorrect && answer.timeTaken > slowSeconds) outcome = 0.75;
+      if (answer.isCorrect && answer.timeTaken <= fastSeconds) k *= 1.25;
+      ability += k * (outcome - expected);
+    }
+    return ability;
+  }
+
+  targetFor(history: AnswerRecord[]): number {
+    const streak = currentStreak(history);
+    // Stretch a child who is on a roll; rebuild confidence after repeated misses
+    if (streak >= 3) return this.options.targetSuccess - 0.1;
+    if (streak <= -2) return this.options.targetSuccess + 0.15;
+    return this.options.targetSuccess;
+  }
+
+  targetDifficulty(context: SelectionContext): number {
+    const ability = this.estimateAbility(context.history, context.mastery);
+    const target = this.targetFor(context.history);
+    // Invert the success curve: ability - logit(difficulty) = ln(p / (1 - p))
+    const logit = ability - Math.log(target / (1 - target));
+    return clampDifficulty(Math.round(logit / 0.8 + 5.5));
+  }
+
+  selectQuestion(context: SelectionContext, random: () => number = Math.random): Question | undefined {
+    const pool = excludeRecent(context.candidates, context.history);
+    if (pool.length === 0) return undefined;
+
+    const ability = this.estimateAbility(context.history, context.mastery);
+    const target = this.targetFor(context.history);
+
+    const ranked = pool
+      .map(q => ({ q, gap: Math.abs(EloSelector.successProbability(ability, clampDifficulty(q.difficulty)) - target) }))
+      .sort((a, b) => a.gap - b.gap)
+      .slice(0, this.options.poolSize);
+
+    return ranked[Math.floor(random() * ranked.length)].q;
+  }
+}
+
+// Uniform choice; useful as a baseline and for topics without calibrated difficulties
+export class RandomSelector implements QuestionSelector {
+  readonly name = "random";
+
+  targetDifficulty(context: SelectionContext): number {
+    return clampDifficulty(Math.round(MIN_DIFFICULTY + context.mastery * (MAX_DIFFICULTY - MIN_DIFFICULTY)));
+  }
+
+  selectQuestion(context: SelectionContext, random: () => number = Math.random): Question | undefined {
+    const pool = excludeRecent(context.candidates, context.history);
+    return pool[Math.floor(random() * pool.length)];
+  }
+}
+
+// Fewer unseen authored questions than this and a generator should top up the bank
+export const MIN_FRESH_QUESTIONS = 3;
+
+export function isBankThin(candidates: Question[], history: AnswerRecord[], count = RECENT_EXCLUSION_COUNT): boolean {
+  const recent = new Set(history.slice(0, count).map(a => a.questionId));
+  return candidates.filter(q => !recent.has(q.id)).length < MIN_FRESH_QUESTIONS;
+}
+
+// Keeps a generated question within the difficulties of the authored ones it
+// stands in for, so a skill's band is respected; unchanged when there are none
+export function withinBand(difficulty: number, candidates: Question[]): number {
+  if (candidates.length === 0) return difficulty;
+  const levels = candidates.map(q => clampDifficulty(q.difficulty));
+  return Math.max(Math.min(...levels), Math.min(Math.max(...levels), difficulty));
+}
+
+export interface SkillTarget {
+  skillId: number;
+  sortOrder: number;
+  score: number | undefined; // Undefined until practised
+}
+
+// The weakest skill that has questions available; unpractised skills count as
+// weakest, and ties go to the skill taught first
+export function pickWeakestSkill(skills: SkillTarget[], candidates: Question[]): SkillTarget | undefined {
+  const available = new Set(candidates.map(q => q.skillId));
+  return skills
+    .filter(s => available.has(s.skillId))
+    .sort((a, b) => (a.score ?? -1) - (b.score ?? -1) || a.sortOrder - b.sortOrder)[0];
+}
+
+const selectors: Record<string, () => QuestionSelector> = {
+  elo: () => new EloSelector(),
+  random: () => new RandomSelector(),
+};
+
+// ADAPTIVE_SELECTOR picks the strategy; unknown names fall back to Elo
+export function createSelector(name: string | undefined = process.env.ADAPTIVE_SELECTOR): QuestionSelector {
+  const key = name ?? "elo";
+  return (Object.hasOwn(selectors, key) ? selectors[key] : selectors.elo)();
+}
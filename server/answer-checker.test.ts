@@ -0,0 +1,74 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Question } from "@shared/schema";
+import { checkAnswer, parseCorrectAnswer } from "./answer-checker";
+
+function question(fields: Partial<Question>): Question {
+  return {
+    id: 1, topicId: 1, skillId: null, content: "Q", type: "multiple_choice", correctAnswer: "Copper",
+    distractors: ["Wood", "Plastic"], difficulty: 1, explanation: null, config: null, generated: false, ownerId: null,
+    ...fields,
+  };
+}
+
+const planets = question({
+  type: "drag_drop",
+  correctAnswer: JSON.stringify(["Mercury", "Venus", "Earth"]),
+  distractors: [],
+  config: { variant: "ordering", items: ["Earth", "Mercury", "Venus"] },
+});
+
+const animals = question({
+  type: "drag_drop",
+  correctAnswer: JSON.stringify({ Cat: "Mammal", Eagle: "Bird", Dog: "Mammal" }),
+  distractors: [],
+  config: { variant: "bucketing", items: ["Cat", "Eagle", "Dog"], buckets: ["Mammal", "Bird"] },
+});
+
+test("multiple choice needs the exact correct option", () => {
+  const q = question({});
+  assert.equal(checkAnswer(q, "Copper"), true);
+  assert.equal(checkAnswer(q, "Wood"), false);
+  assert.equal(checkAnswer(q, "copper"), false);
+  assert.equal(checkAnswer(q, ["Copper"]), false);
+});
+
+test("ordering needs every item in the right place", () => {
+  assert.equal(checkAnswer(planets, ["Mercury", "Venus", "Earth"]), true);
+  assert.equal(checkAnswer(planets, ["Venus", "Mercury", "Earth"]), false);
+  assert.equal(checkAnswer(planets, ["Mercury", "Venus"]), false);
+  assert.equal(checkAnswer(planets, ["Mercury", "Venus", "Earth", "Mars"]), false);
+  assert.equal(checkAnswer(planets, { Mercury: "1" }), false);
+  assert.equal(checkAnswer(planets, "Mercury"), false);
+});
+
+test("bucketing needs every item in its bucket", () => {
+  assert.equal(checkAnswer(animals, { Cat: "Mammal", Eagle: "Bird", Dog: "Mammal" }), true);
+  assert.equal(checkAnswer(animals, { Cat: "Mammal", Eagle: "Mammal", Dog: "Mammal" }), false);
+});
+
+test("bucketing rejects partial, missing and extra placements", () => {
+  assert.equal(checkAnswer(animals, { Cat: "Mammal", Eagle: "Bird" }), false);
+  assert.equal(checkAnswer(animals, {}), false);
+  assert.equal(checkAnswer(animals, { Cat: "Mammal", Eagle: "Bird", Dog: "Mammal", Fish: "Bird" }), false);
+  assert.equal(checkAnswer(animals, { Cat: "Mammal", Eagle: "Bird", Horse: "Mammal" }), false);
+  assert.equal(checkAnswer(animals, ["Mammal", "Bird", "Mammal"]), false);
+});
+
+test("numeric answers are compared as numbers", () => {
+  const q = question({ type: "numeric", correctAnswer: "1/2", distractors: [], config: { unit: "cm" } });
+  assert.equal(checkAnswer(q, "0.5 cm"), true);
+  assert.equal(checkAnswer(q, "0.6"), false);
+  assert.equal(checkAnswer(q, ["0.5"]), false);
+});
+
+test("parseCorrectAnswer reads drag-drop answers as JSON and others as text", () => {
+  assert.deepEqual(parseCorrectAnswer(planets), ["Mercury", "Venus", "Earth"]);
+  assert.deepEqual(parseCorrectAnswer(animals), { Cat: "Mammal", Eagle: "Bird", Dog: "Mammal" });
+  assert.equal(parseCorrectAnswer(question({ correctAnswer: "[not json" })), "[not json");
+});
+
+test("parseCorrectAnswer throws on a malformed drag-drop answer", () => {
+  assert.throws(() => parseCorrectAnswer({ ...planets, correctAnswer: "[\"Mercury\", " }), SyntaxError);
+  assert.throws(() => parseCorrectAnswer({ ...animals, correctAnswer: "" }), SyntaxError);
+});
@@ -0,0 +1,49 @@
+import { dragDropConfigSchema, numericConfigSchema, type Answer, type Question } from "@shared/schema";
+import { isNumericMatch } from "./numeric-answer";
+
+// === ANSWER CHECKING ===
+// One checker per question type; answers of the wrong shape are simply wrong.
+
+type Checker = (question: Question, answer: Answer) => boolean;
+
+export function parseCorrectAnswer(question: Question): Answer {
+  if (question.type === "drag_drop") return JSON.parse(question.correctAnswer);
+  return question.correctAnswer;
+}
+
+function checkMultipleChoice(question: Question, answer: Answer): boolean {
+  return typeof answer === "string" && answer === question.correctAnswer;
+}
+
+function checkNumeric(question: Question, answer: Answer): boolean {
+  if (typeof answer !== "string") return false;
+  const config = numericConfigSchema.parse(question.config ?? {});
+  return isNumericMatch(answer, question.correctAnswer, config);
+}
+
+function checkDragDrop(question: Question, answer: Answer): boolean {
+  const config = dragDropConfigSchema.parse(question.config);
+  const expected = parseCorrectAnswer(question);
+
+  if (config.variant === "ordering") {
+    if (!Array.isArray(answer) || !Array.isArray(expected)) return false;
+    return answer.length === expected.length && answer.every((item, i) => item === expected[i]);
+  }
+
+  if (typeof answer !== "object" || Array.isArray(answer)) return false;
+  if (typeof expected !== "object" || Array.isArray(expected)) return false;
+  // Every item must be placed, and placed in its bucket
+  return Object.keys(answer).length === config.items.length &&
+    config.items.every(item => answer[item] !== undefined && answer[item] === expected[item]);
+}
+
+const checkers: Record<NonNullable<Question["type"]>, Checker> = {
+  multiple_choice: checkMultipleChoice,
+  drag_drop: checkDragDrop,
+  numeric: checkNumeric,
+};
+
+export function checkAnswer(question: Question, answer: Answer): boolean {
+  const checker = checkers[question.type ?? "multiple_choice"];
+  return checker(question, answer);
+}
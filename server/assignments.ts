@@ -0,0 +1,81 @@
+import { storage } from "./storage";
+import type { Assignment, Question, User } from "@shared/schema";
+
+export type AssignmentStatus = "active" | "completed" | "overdue";
+
+const DEFAULT_TARGET_QUESTIONS = 10;
+const DEFAULT_TARGET_MASTERY = 0.8;
+
+export async function getAssignedStudentIds(assignment: Assignment): Promise<number[]> {
+  if (assignment.studentId) return [assignment.studentId];
+  if (!assignment.classId) return [];
+  const students = await storage.getStudentsInClass(assignment.classId);
+  return students.map(s => s.id);
+}
+
+export function getAssignmentStatus(assignment: Assignment, completed: boolean, now: Date = new Date()): AssignmentStatus {
+  if (completed) return "completed";
+  if (assignment.dueDate && assignment.dueDate < now) return "overdue";
+  return "active";
+}
+
+// A quiz is finished once every question in it has been answered
+export async function getTargetQuestions(assignment: Assignment): Promise<number> {
+  if (assignment.quizId) return (await storage.getQuizQuestions(assignment.quizId)).length;
+  return assignment.targetQuestions ?? DEFAULT_TARGET_QUESTIONS;
+}
+
+// Progress only counts answers given after the assignment was set
+export async function getStudentProgress(assignment: Assignment, studentId: number): Promise<number> {
+  const since = assignment.createdAt ?? new Date(0);
+  if (assignment.quizId) {
+    const quizQuestionIds = (await storage.getQuizQuestions(assignment.quizId)).map(q => q.id);
+    return (await storage.getAnsweredQuestionIds(studentId, quizQuestionIds, since)).length;
+  }
+  if (!assignment.topicId) return 0;
+  return await storage.countTopicAnswersSince(studentId, assignment.topicId, since);
+}
+
+// The next quiz question the student has not yet answered for this assignment
+export async function getNextQuizQuestion(assignment: Assignment, studentId: number): Promise<Question | undefined> {
+  if (!assignment.quizId) return undefined;
+  const quizQuestions = await storage.getQuizQuestions(assignment.quizId);
+  const answered = await storage.getAnsweredQuestionIds(
+    studentId, quizQuestions.map(q => q.id), assignment.createdAt ?? new Date(0),
+  );
+  return quizQuestions.find(q => !answered.includes(q.id));
+}
+
+// Called after every answer: completes any open assignment on the question's topic once
+// the student reaches either the question target or the mastery target, and any open
+// quiz containing the question once the whole quiz has been answered
+export async function recordAssignmentProgress(student: User, question: Question): Promise<void> {
+  const open = [];
+  for (const a of await storage.getAssignmentsForStudent(student)) {
+    if (a.completed) continue;
+    if (a.topicId === question.topicId) open.push(a);
+    else if (a.quizId && (await storage.getQuizQuestions(a.quizId)).some(q => q.id === question.id)) open.push(a);
+  }
+  if (open.length === 0) return;
+
+  const topicMastery = await storage.getMastery(student.id, question.topicId);
+  const score = topicMastery?.score ?? 0;
+
+  for (const assignment of open) {
+    const done = await storage.getCompletedStudentIds(assignment.id);
+    if (done.includes(student.id)) continue;
+
+    const answered = await getStudentProgress(assignment, student.id);
+    const reachedQuestions = answered >= await getTargetQuestions(assignment);
+    const reachedMastery = !assignment.quizId && score >= (assignment.targetMastery ?? DEFAULT_TARGET_MASTERY);
+    if (!reachedQuestions && !reachedMastery) continue;
+
+    await storage.completeAssignment(assignment.id, student.id);
+
+    const assigned = await getAssignedStudentIds(assignment);
+    const completedIds = new Set([...done, student.id]);
+    if (assigned.every(id => completedIds.has(id))) {
+      await storage.updateAssignment(assignment.id, { completed: true });
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import type { Request, RequestHandler } from "express";
+import type { Role } from "@shared/schema";
+import type { RouteAccess } from "@shared/routes";
+import { storage } from "./storage";
+
+// === AUTHORIZATION ===
+// Middleware for route registration. Every route in shared/routes.ts declares
+// its access, applied with authorize(); the resource checks go after it:
+//   app.get(api.x.path, authorize(api.x), requireClassOwnership(req => req.params.id), handler)
+// Failures answer with the errorSchemas bodies: 401 when nobody is signed in,
+// 403 when the signed-in user may not do this.
+
+const ROLE_NAMES: Record<Role, string> = {
+  student: "Students",
+  teacher: "Teachers",
+  parent: "Parents",
+  admin: "Admins",
+};
+
+export const requireAuth: RequestHandler = (req, res, next) => {
+  if (!req.session.userId) return res.status(401).json({ message: "Please sign in" });
+  next();
+};
+
+export function requireRole(...roles: Role[]): RequestHandler {
+  const message = `${roles.map(r => ROLE_NAMES[r]).join(" and ")} only`;
+  return (req, res, next) => {
+    if (!req.session.userId) return res.status(401).json({ message: "Please sign in" });
+    if (!req.session.role || !roles.includes(req.session.role)) return res.status(403).json({ message });
+    next();
+  };
+}
+
+export function authorize(route: { access: RouteAccess }): RequestHandler {
+  const { access } = route;
+  if (access === "public") return (_req, _res, next) => next();
+  if (access === "signedIn") return requireAuth;
+  return requireRole(...access);
+}
+
+// The class named by the request must belong to the signed-in teacher. An
+// absent id passes, for routes where the class is an optional filter.
+export function requireClassOwnership(getClassId: (req: Request) => unknown): RequestHandler {
+  return async (req, res, next) => {
+    const raw = getClassId(req);
+    if (raw === undefined || raw === null || raw === "") return next();
+
+    const classId = Number(raw);
+    const cls = Number.isInteger(classId) ? await storage.getClass(classId) : undefined;
+    if (!cls || cls.teacherId !== req.session.userId) {
+      return res.status(403).json({ message: "You do not teach this class" });
+    }
+    next();
+  };
+}
+
+// The student named by the request must be in one of the signed-in teacher's
+// classes. Admins act for the whole school and may reach any student.
+export function requireTeacherOfStudent(getStudentId: (req: Request) => unknown): RequestHandler {
+  return async (req, res, next) => {
+    const studentId = Number(getStudentId(req));
+    const student = Number.isInteger(studentId) ? await storage.getUser(studentId) : undefined;
+    if (!student || student.role !== "student") {
+      return res.status(403).json({ message: "Not one of your students" });
+    }
+    if (req.session.role === "admin") return next();
+
+    const cls = student.classId ? await storage.getClass(student.classId) : undefined;
+    if (!cls || cls.teacherId !== req.session.userId) {
+      return res.status(403).json({ message: "Not one of your students" });
+    }
+    next();
+  };
+}
+
+// The student named by the request must be linked to the signed-in parent
+export function requireParentOf(getChildId: (req: Request) => unknown): RequestHandler {
+  return async (req, res, next) => {
+    const childId = Number(getChildId(req));
+    const linked = Number.isInteger(childId) && await storage.isGuardianOf(req.session.userId!, childId);
+    if (!linked) return res.status(403).json({ message: "Not one of your children" });
+    next();
+  };
+}
+
+// Parents must be linked to the student; teachers and admins as above
+export function requireTeacherOrParentOf(getStudentId: (req: Request) => unknown): RequestHandler {
+  const asStaff = requireTeacherOfStudent(getStudentId);
+  const asParent = requireParentOf(getStudentId);
+  return (req, res, next) => (req.session.role === "parent" ? asParent : asStaff)(req, res, next);
+}
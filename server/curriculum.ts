@@ -0,0 +1,120 @@
+import { z } from "zod";
+import { KEY_STAGES, type KeyStage } from "@shared/schema";
+import type { CurriculumTree } from "@shared/routes";
+import { storage } from "./storage";
+import ks1 from "./curriculum/ks1.json";
+import ks2 from "./curriculum/ks2.json";
+import ks3 from "./curriculum/ks3.json";
+
+// === CURRICULUM CATALOGUE ===
+// Subjects, topics and National Curriculum (England) statements for KS1-KS3,
+// kept as data files in server/curriculum and loaded into the database at
+// startup. The National Curriculum does not number its statements, so each one
+// gets a code of our own: subject, year (or "KS3", which is not split by
+// year), strand and position, e.g. "MA-Y3-AS-1" or "SC-KS3-P-2". Codes must
+// never be reused, as teachers and question packs may refer to them.
+
+const yearGroupSchema = z.number().int().min(1).max(9);
+
+// Display metadata; the schema defaults apply when a file leaves them out
+const iconSchema = z.string().min(1).optional();
+const colorSchema = z.string().regex(/^#[0-9a-f]{6}$/i, "Expected a hex colour like #3b82f6").optional();
+
+const catalogueFileSchema = z.object({
+  stage: z.enum(KEY_STAGES),
+  subjects: z.array(z.object({
+    slug: z.string().min(1),
+    name: z.string().min(1),
+    icon: iconSchema,
+    color: colorSchema,
+    topics: z.array(z.object({
+      slug: z.string().min(1),
+      name: z.string().min(1),
+      icon: iconSchema,
+      color: colorSchema,
+      description: z.string().optional(),
+      yearGroups: z.array(yearGroupSchema).min(1),
+      statements: z.array(z.object({
+        code: z.string().regex(/^[A-Z]{2}-(Y[1-9]|KS3)-[A-Z]+-\d+$/),
+        text: z.string().min(1),
+        yearGroup: yearGroupSchema.optional(),
+      })),
+    })),
+  })),
+});
+
+const CATALOGUE_FILES: unknown[] = [ks1, ks2, ks3];
+
+// Upserts every subject, topic and statement in the catalogue. Rows are keyed by
+// slug or code, so editing a data file and restarting updates them in place.
+export async function loadCurriculum(): Promise<void> {
+  const codes = new Set<string>();
+
+  for (const file of CATALOGUE_FILES) {
+    const catalogue = catalogueFileSchema.parse(file);
+    for (const s of catalogue.subjects) {
+      const subject = await storage.upsertSubject({ slug: s.slug, name: s.name, icon: s.icon, color: s.color });
+      for (const t of s.topics) {
+        const topic = await storage.upsertTopic({
+          subjectId: subject.id,
+          slug: t.slug,
+          name: t.name,
+          stage: catalogue.stage,
+          description: t.description ?? null,
+          icon: t.icon,
+          color: t.color,
+          yearGroups: t.yearGroups,
+        });
+        for (const statement of t.statements) {
+          if (codes.has(statement.code)) {
+            throw new Error(`Curriculum statement code ${statement.code} is used more than once`);
+          }
+          codes.add(statement.code);
+          await storage.upsertCurriculumStatement({
+            topicId: topic.id,
+            code: statement.code,
+            text: statement.text,
+            yearGroup: statement.yearGroup ?? null,
+          });
+        }
+      }
+    }
+  }
+}
+
+// Subjects > key stages > topics > statements, optionally for one stage only
+export async function buildCurriculumTree(stage?: KeyStage): Promise<CurriculumTree> {
+  const [subjects, topics, statements] = await Promise.all([
+    storage.getSubjects(),
+    storage.getTopics(stage),
+    storage.getCurriculumStatements(),
+  ]);
+
+  return subjects.map((subject) => ({
+    id: subject.id,
+    slug: subject.slug,
+    name: subject.name,
+    icon: subject.icon,
+    color: subject.color,
+    stages: KEY_STAGES
+      .filter((s) => !stage || s === stage)
+      .map((s) => ({
+        stage: s,
+        topics: topics
+          .filter((t) => t.subjectId === subject.id && t.stage === s)
+          .map((t) => ({
+            id: t.id,
+            slug: t.slug,
+            name: t.name,
+            description: t.description,
+            icon: t.icon,
+            color: t.color,
+            yearGroups: t.yearGroups ?? [],
+            statements: statements
+              .filter((st) => st.topicId === t.id)
+              .map(({ code, text, yearGroup }) => ({ code, text, yearGroup })),
+          })),
+      }))
+      .filter((s) => s.topics.length > 0),
+  }));
+}
@@ -14,6 +14,7 @@ declare module "http" {
 
 app.use(
   express.json({
+    limit: "2mb", // Question packs are posted as JSON
     verify: (req, _res, buf) => {
       req.rawBody = buf;
     },
@@ -33,6 +34,13 @@ export function log(message: string, source = "express") {
   console.log(`${formattedTime} [${source}] ${message}`);
 }
 
+// Credentials in response bodies: login card pictures, and parent link and class codes
+const REDACTED_KEYS = new Set(["password", "picturePassword", "code"]);
+
+function redact(key: string, value: unknown) {
+  return REDACTED_KEYS.has(key) ? "[redacted]" : value;
+}
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -49,7 +57,7 @@ app.use((req, res, next) => {
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
       if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+        logLine += ` :: ${JSON.stringify(capturedJsonResponse, redact)}`;
       }
 
       log(logLine);
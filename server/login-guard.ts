@@ -0,0 +1,80 @@
+import type { Request } from "express";
+import type { User } from "@shared/schema";
+import { Backoff } from "./rate-limit";
+import { storage, type LockoutPolicy } from "./storage";
+import { appUrl, sendMail } from "./mailer";
+
+// === LOGIN THROTTLING ===
+// Wrong sign-ins are slowed down in three ways:
+// - per username: after 3 failures each one doubles the wait, up to 15 minutes
+// - per address: the same after 20, since a whole class may share one
+// - per account: 5 wrong in a row lock it for 15 minutes, then 30, 60 and so
+//   on up to a day, until someone signs in or the credentials are reset
+// The first two are kept in memory; lockouts are stored with the user. When a
+// student is locked out their class teacher is emailed, if they have an address.
+
+const HOUR = 60 * 60 * 1000;
+const usernameBackoff = new Backoff(3, 1000, HOUR / 4, HOUR);
+const addressBackoff = new Backoff(20, 1000, HOUR / 4, HOUR);
+
+const LOCKOUT: LockoutPolicy = { lockAfter: 5, lockMinutes: 15, maxLockMinutes: 24 * 60 };
+
+function address(req: Request): string {
+  return req.ip ?? "unknown";
+}
+
+// Seconds before this address may try this username again; 0 when it may now
+export function loginWaitSeconds(req: Request, username: string): number {
+  return Math.max(addressBackoff.waitSeconds(address(req)), usernameBackoff.waitSeconds(username.toLowerCase()));
+}
+
+// Seconds the account stays locked; 0 when it is not
+export function lockedForSeconds(user: User, now: Date = new Date()): number {
+  if (!user.lockedUntil || user.lockedUntil <= now) return 0;
+  return Math.ceil((user.lockedUntil.getTime() - now.getTime()) / 1000);
+}
+
+// Records a wrong attempt, and against the account when the username was
+// real. Returns how long the account is now locked for, or 0.
+export async function recordLoginFailure(req: Request, username: string, user?: User): Promise<number> {
+  addressBackoff.fail(address(req));
+  usernameBackoff.fail(username.toLowerCase());
+  if (!user) return 0;
+
+  const now = new Date();
+  const wasLocked = lockedForSeconds(user, now) > 0;
+  const updated = await storage.recordFailedLogin(user.id, LOCKOUT, now);
+  const locked = lockedForSeconds(updated, now);
+  if (locked > 0 && !wasLocked && updated.role === "student") {
+    notifyTeacherOfLockout(updated).catch((err) => console.error("[auth] could not email teacher about lockout", err));
+  }
+  return locked;
+}
+
+// The address is not cleared, so one working account cannot be used to reset
+// the count while guessing others
+export async function recordLoginSuccess(req: Request, user: User) {
+  usernameBackoff.succeed(user.username.toLowerCase());
+  await storage.recordLogin(user.id, {
+    ip: req.ip ?? null,
+    userAgent: req.get("user-agent")?.slice(0, 500) ?? null,
+  }, new Date());
+}
+
+async function notifyTeacherOfLockout(student: User) {
+  if (!student.classId || !student.lockedUntil) return;
+  const cls = await storage.getClass(student.classId);
+  const teacher = cls ? await storage.getUser(cls.teacherId) : undefined;
+  if (!cls || !teacher?.email || !teacher.emailVerifiedAt) return;
+
+  const minutes = Math.ceil((student.lockedUntil.getTime() - Date.now()) / 60000);
+  await sendMail({
+    to: teacher.email,
+    subject: `${student.firstName}'s EduKid login is locked`,
+    text: [
+      `Hi ${teacher.firstName},`,
+      `Someone got ${student.firstName}'s login wrong too many times, so it is locked for ${minutes} minutes. If ${student.firstName} has forgotten their pictures, give them new ones from the class page; that also unlocks the account:`,
+      appUrl(`/teacher/classes/${cls.id}`),
+    ].join("\n\n"),
+  });
+}
@@ -0,0 +1,75 @@
+import { mkdir, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+
+// === EMAIL ===
+// Outgoing mail goes through a Mailer chosen by MAIL_TRANSPORT. The built-in
+// transports are for development: "console" logs each message and "file"
+// writes it to MAIL_DIR. A deployment that sends real mail registers its own
+// transport with registerMailTransport() and names it in MAIL_TRANSPORT.
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export class ConsoleMailer implements Mailer {
+  readonly name = "console";
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mail] to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+// One text file per message, named so they list in the order sent
+export class FileMailer implements Mailer {
+  readonly name = "file";
+
+  constructor(private readonly dir: string = process.env.MAIL_DIR || path.join(tmpdir(), "edukid-mail")) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    const file = path.join(this.dir, `${Date.now()}-${message.to.replace(/[^a-z0-9@.]/gi, "_")}.txt`);
+    await writeFile(file, `To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`);
+    console.log(`[mail] wrote ${file}`);
+  }
+}
+
+const transports: Record<string, () => Mailer> = {
+  console: () => new ConsoleMailer(),
+  file: () => new FileMailer(),
+};
+
+export function registerMailTransport(name: string, create: () => Mailer) {
+  transports[name] = create;
+}
+
+// MAIL_TRANSPORT picks the transport; unknown names fall back to the console
+export function createMailer(name: string | undefined = process.env.MAIL_TRANSPORT): Mailer {
+  const key = name ?? "console";
+  if (Object.hasOwn(transports, key)) return transports[key]();
+  console.warn(`[mail] unknown MAIL_TRANSPORT "${name}"; logging mail to the console`);
+  return transports.console();
+}
+
+let defaultMailer: Mailer | undefined;
+
+// Sends with the MAIL_TRANSPORT mailer, created on first use so that
+// transports registered during startup are found
+export function sendMail(message: MailMessage): Promise<void> {
+  if (!defaultMailer) defaultMailer = createMailer();
+  return defaultMailer.send(message);
+}
+
+// Links in emails point here. Set APP_URL in production, since the request's
+// Host header cannot be trusted to build them.
+export function appUrl(pathname: string): string {
+  const base = process.env.APP_URL || `http://localhost:${process.env.PORT || "5000"}`;
+  return new URL(pathname, base).toString();
+}
@@ -0,0 +1,92 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  BayesianKnowledgeTracing, DEFAULT_BKT_PARAMS, MovingAverageModel, createMasteryModel, rollUpSkillMastery,
+  type MasteryObservation,
+} from "./mastery-model";
+
+const MASTERY_THRESHOLD = 0.8;
+const bkt = new BayesianKnowledgeTracing();
+
+function observe(isCorrect: boolean, difficulty = 5, timeTaken = 10): MasteryObservation {
+  return { isCorrect, difficulty, timeTaken };
+}
+
+function afterCorrect(count: number, difficulty = 5): number {
+  let score: number | undefined;
+  for (let i = 0; i < count; i++) score = bkt.update(score, observe(true, difficulty));
+  return score!;
+}
+
+test("BKT starts from pInit and moves up on a correct answer and down on a miss", () => {
+  const known = 0.5;
+  assert.ok(bkt.update(known, observe(true)) > known);
+  assert.ok(bkt.update(known, observe(false)) < known);
+  assert.ok(bkt.update(undefined, observe(true)) > DEFAULT_BKT_PARAMS.pInit);
+});
+
+test("BKT does not call two correct answers mastery at any difficulty", () => {
+  for (const difficulty of [1, 5, 10]) {
+    assert.ok(afterCorrect(2, difficulty) < MASTERY_THRESHOLD, `difficulty ${difficulty}`);
+  }
+  assert.ok(afterCorrect(5) >= MASTERY_THRESHOLD);
+});
+
+test("BKT guess and slip stay in a sensible range", () => {
+  for (const difficulty of [-5, 1, 10, 50]) {
+    for (const timeTaken of [1, 10, 100]) {
+      for (const isCorrect of [true, false]) {
+        const { guess, slip } = BayesianKnowledgeTracing.effectiveParams({ ...DEFAULT_BKT_PARAMS, pGuess: 0.5, pSlip: 0.5 }, observe(isCorrect, difficulty, timeTaken));
+        assert.ok(guess >= 0.01 && guess <= 0.45);
+        assert.ok(slip >= 0.01 && slip <= 0.45);
+      }
+    }
+  }
+});
+
+test("BKT counts a correct answer to a hard question for more", () => {
+  assert.ok(bkt.update(0.5, observe(true, 10)) > bkt.update(0.5, observe(true, 1)));
+});
+
+test("BKT forgives a miss on a hard question more than on an easy one", () => {
+  assert.ok(bkt.update(0.5, observe(false, 10)) > bkt.update(0.5, observe(false, 1)));
+});
+
+test("BKT counts a slow correct answer for less", () => {
+  assert.ok(bkt.update(0.5, observe(true, 5, 60)) < bkt.update(0.5, observe(true, 5, 10)));
+});
+
+test("BKT treats a very quick miss as more likely a slip", () => {
+  assert.ok(bkt.update(0.5, observe(false, 5, 2)) > bkt.update(0.5, observe(false, 5, 10)));
+});
+
+test("BKT uses the topic's own parameters when given", () => {
+  const generous = { ...DEFAULT_BKT_PARAMS, pLearn: 0.5 };
+  assert.ok(bkt.update(0.5, observe(true), generous) > bkt.update(0.5, observe(true)));
+});
+
+test("MovingAverageModel starts at the first outcome then moves a tenth of the way", () => {
+  const model = new MovingAverageModel();
+  assert.equal(model.update(undefined, observe(true)), 1);
+  assert.equal(model.update(undefined, observe(false)), 0);
+  assert.equal(model.update(0.5, observe(true)), 0.55);
+});
+
+test("rollUpSkillMastery averages every skill, counting unpractised ones as 0", () => {
+  assert.equal(rollUpSkillMastery([]), 0);
+  assert.equal(rollUpSkillMastery([1, undefined]), 0.5);
+  assert.equal(rollUpSkillMastery([0.5, 1, 0.75]), 0.75);
+});
+
+test("rollUpSkillMastery counts untagged answers as one more skill", () => {
+  assert.equal(rollUpSkillMastery([1, 0.5], 0), 0.5);
+  assert.equal(rollUpSkillMastery([], 0.75), 0.75);
+});
+
+test("createMasteryModel picks by name and falls back to BKT", () => {
+  assert.equal(createMasteryModel("moving-average").name, "moving-average");
+  assert.equal(createMasteryModel("bkt").name, "bkt");
+  assert.equal(createMasteryModel("nonsense").name, "bkt");
+  assert.equal(createMasteryModel("toString").name, "bkt");
+  assert.equal(createMasteryModel("").name, "bkt");
+});
@@ -0,0 +1,97 @@
+// === MASTERY MODELS ===
+// A model turns the previous mastery estimate and one new answer into a new
+// estimate. Like the adaptive engine, models never touch storage.
+
+export interface MasteryObservation {
+  isCorrect: boolean;
+  difficulty: number; // 1-10
+  timeTaken: number; // in seconds
+}
+
+export interface BktParams {
+  pInit: number; // Probability the skill is known before any practice
+  pLearn: number; // Probability of learning it on each opportunity
+  pGuess: number; // Probability of answering correctly without knowing it
+  pSlip: number; // Probability of answering wrongly despite knowing it
+}
+
+export interface MasteryModel {
+  readonly name: string;
+  update(previous: number | undefined, observation: MasteryObservation, params?: BktParams): number;
+}
+
+// Cautious enough that two correct answers never reach mastery (0.8), even on
+// the hardest questions; a guess is at least as likely as on four-option
+// multiple choice. Topics can override these through mastery_params.
+export const DEFAULT_BKT_PARAMS: BktParams = {
+  pInit: 0.05,
+  pLearn: 0.05,
+  pGuess: 0.3,
+  pSlip: 0.1,
+};
+
+const FAST_SECONDS = 5;
+const SLOW_SECONDS = 30;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+// Bayesian Knowledge Tracing. Difficulty and response time adjust guess/slip
+// per answer: a correct answer to a hard question is harder to guess, a miss on
+// a hard question is more forgivable, a slow correct answer is weaker evidence
+// and a very quick miss looks more like a slip than a gap.
+export class BayesianKnowledgeTracing implements MasteryModel {
+  readonly name = "bkt";
+
+  static effectiveParams(params: BktParams, observation: MasteryObservation): { guess: number; slip: number } {
+    // -1 for the easiest question, +1 for the hardest
+    const hardness = (clamp(observation.difficulty, 1, 10) - 5.5) / 4.5;
+    let guess = params.pGuess * (1 - 0.5 * hardness);
+    let slip = params.pSlip * (1 + 0.5 * hardness);
+
+    if (observation.isCorrect && observation.timeTaken > SLOW_SECONDS) guess *= 1.5;
+    if (!observation.isCorrect && observation.timeTaken <= FAST_SECONDS) slip *= 1.5;
+
+    return { guess: clamp(guess, 0.01, 0.45), slip: clamp(slip, 0.01, 0.45) };
+  }
+
+  update(previous: number | undefined, observation: MasteryObservation, params: BktParams = DEFAULT_BKT_PARAMS): number {
+    const known = previous ?? params.pInit;
+    const { guess, slip } = BayesianKnowledgeTracing.effectiveParams(params, observation);
+
+    const posterior = observation.isCorrect
+      ? (known * (1 - slip)) / (known * (1 - slip) + (1 - known) * guess)
+      : (known * slip) / (known * slip + (1 - known) * (1 - guess));
+
+    return clamp(posterior + (1 - posterior) * params.pLearn, 0, 1);
+  }
+}
+
+// The original weighted moving average, kept for comparison
+export class MovingAverageModel implements MasteryModel {
+  readonly name = "moving-average";
+
+  update(previous: number | undefined, observation: MasteryObservation): number {
+    const outcome = observation.isCorrect ? 1 : 0;
+    return previous === undefined ? outcome : previous * 0.9 + outcome * 0.1;
+  }
+}
+
+// Topic mastery is the mean over all of its skills, so unpractised skills hold
+// it back. Answers to untagged questions count as one more skill once there are any.
+export function rollUpSkillMastery(scores: (number | undefined)[], untagged?: number): number {
+  const all = untagged === undefined ? scores : [...scores, untagged];
+  if (all.length === 0) return 0;
+  return all.reduce<number>((sum, score) => sum + (score ?? 0), 0) / all.length;
+}
+
+const models: Record<string, () => MasteryModel> = {
+  "bkt": () => new BayesianKnowledgeTracing(),
+  "moving-average": () => new MovingAverageModel(),
+};
+
+// MASTERY_MODEL picks the model; unknown names fall back to BKT
+export function createMasteryModel(name: string | undefined = process.env.MASTERY_MODEL): MasteryModel {
+  return (name && Object.hasOwn(models, name) ? models[name] : models.bkt)();
+}
@@ -0,0 +1,68 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { isNumericMatch, parseNumericAnswer } from "./numeric-answer";
+
+test("parseNumericAnswer reads the forms children type", () => {
+  const cases: [string, number][] = [
+    [" 5 ", 5],
+    ["0.5", 0.5],
+    [".5", 0.5],
+    ["1/2", 0.5],
+    ["½", 0.5],
+    ["1 1/2", 1.5],
+    ["1½", 1.5],
+    ["1,000", 1000],
+    ["1,234.5", 1234.5],
+    ["−3", -3],
+    ["- 3", -3],
+  ];
+  for (const [input, value] of cases) {
+    assert.deepEqual(parseNumericAnswer(input), { value, unit: null }, input);
+  }
+});
+
+test("parseNumericAnswer rejects what is not a number", () => {
+  for (const input of ["", "abc", "1/0", "2 1/0", "1,00", "1.2.3", "5 apples", "--3", "1e3"]) {
+    assert.equal(parseNumericAnswer(input), null, input);
+  }
+});
+
+test("parseNumericAnswer strips an accepted unit, matching the longest first", () => {
+  assert.deepEqual(parseNumericAnswer("5 cm", ["m", "cm"]), { value: 5, unit: "cm" });
+  assert.deepEqual(parseNumericAnswer("5CM", ["cm"]), { value: 5, unit: "cm" });
+  assert.deepEqual(parseNumericAnswer("2 m", ["m", "cm"]), { value: 2, unit: "m" });
+  assert.equal(parseNumericAnswer("5 apples", ["cm"]), null);
+});
+
+test("isNumericMatch accepts equivalent forms of the answer", () => {
+  for (const answer of ["0.5", ".5", "1/2", "½", "2/4"]) {
+    assert.equal(isNumericMatch(answer, "1/2"), true, answer);
+  }
+  assert.equal(isNumericMatch("1000", "1,000"), true);
+  assert.equal(isNumericMatch("0.6", "1/2"), false);
+});
+
+test("isNumericMatch takes the question's units, and requires one when told to", () => {
+  const config = { unit: "cm", acceptedUnits: ["centimetres"] };
+  assert.equal(isNumericMatch("5 cm", "5", config), true);
+  assert.equal(isNumericMatch("5 centimetres", "5", config), true);
+  assert.equal(isNumericMatch("5", "5", config), true);
+  assert.equal(isNumericMatch("5 apples", "5", config), false);
+  assert.equal(isNumericMatch("5", "5", { ...config, requireUnit: true }), false);
+  assert.equal(isNumericMatch("5cm", "5", { ...config, requireUnit: true }), true);
+});
+
+test("isNumericMatch allows answers up to the tolerance and no further", () => {
+  const config = { tolerance: 0.5 };
+  assert.equal(isNumericMatch("2.5", "3", config), true);
+  assert.equal(isNumericMatch("3.5", "3", config), true);
+  assert.equal(isNumericMatch("3.51", "3", config), false);
+  // Without one, only rounding error is forgiven
+  assert.equal(isNumericMatch("0.333", "1/3"), false);
+  assert.equal(isNumericMatch(String(0.1 + 0.2), "0.3"), true);
+});
+
+test("isNumericMatch is false when either side cannot be read", () => {
+  assert.equal(isNumericMatch("1/0", "1"), false);
+  assert.equal(isNumericMatch("5", "five"), false);
+});
@@ -0,0 +1,73 @@
+import type { NumericConfig } from "@shared/schema";
+
+// === NUMERIC ANSWER NORMALISATION ===
+// Accepts the forms children actually type: " 5 ", "0.5", ".5", "1/2", "½",
+// "1 1/2", "1½", "1,000", "−3" and an optional unit suffix such as "5 cm".
+
+const VULGAR_FRACTIONS: Record<string, number> = {
+  "½": 1 / 2, "⅓": 1 / 3, "⅔": 2 / 3, "¼": 1 / 4, "¾": 3 / 4,
+  "⅕": 1 / 5, "⅖": 2 / 5, "⅗": 3 / 5, "⅘": 4 / 5, "⅙": 1 / 6, "⅚": 5 / 6,
+  "⅐": 1 / 7, "⅛": 1 / 8, "⅜": 3 / 8, "⅝": 5 / 8, "⅞": 7 / 8, "⅑": 1 / 9, "⅒": 1 / 10,
+};
+
+const DEFAULT_TOLERANCE = 1e-9;
+
+export interface ParsedNumber {
+  value: number;
+  unit: string | null;
+}
+
+function parsePlainNumber(text: string): number | null {
+  const mixed = text.match(/^(\d+)\s+(\d+)\s*\/\s*(\d+)$/);
+  if (mixed) {
+    const denominator = Number(mixed[3]);
+    return denominator === 0 ? null : Number(mixed[1]) + Number(mixed[2]) / denominator;
+  }
+
+  const fraction = text.match(/^(\d*\.?\d+)\s*\/\s*(\d*\.?\d+)$/);
+  if (fraction) {
+    const denominator = Number(fraction[2]);
+    return denominator === 0 ? null : Number(fraction[1]) / denominator;
+  }
+
+  const vulgar = text.match(/^(\d*)\s*([½⅓⅔¼¾⅕⅖⅗⅘⅙⅚⅐⅛⅜⅝⅞⅑⅒])$/);
+  if (vulgar) return Number(vulgar[1] || 0) + VULGAR_FRACTIONS[vulgar[2]];
+
+  // Thousands separators only in proper groups of three
+  if (/^\d{1,3}(,\d{3})+(\.\d+)?$/.test(text)) return Number(text.replace(/,/g, ""));
+  if (/^(\d+\.?\d*|\.\d+)$/.test(text)) return Number(text);
+  return null;
+}
+
+export function parseNumericAnswer(input: string, acceptedUnits: string[] = []): ParsedNumber | null {
+  let text = input.trim().replace(/[−–]/g, "-").replace(/\s+/g, " ");
+
+  let unit: string | null = null;
+  const lowered = text.toLowerCase();
+  // Longest first so "cm" is not mistaken for "m"
+  for (const candidate of [...acceptedUnits].sort((a, b) => b.length - a.length)) {
+    if (lowered.endsWith(candidate.toLowerCase())) {
+      unit = candidate;
+      text = text.slice(0, text.length - candidate.length).trim();
+      break;
+    }
+  }
+
+  const negative = text.startsWith("-");
+  if (negative) text = text.slice(1).trim();
+
+  const value = parsePlainNumber(text);
+  if (value === null || !Number.isFinite(value)) return null;
+  return { value: negative ? -value : value, unit };
+}
+
+export function isNumericMatch(answer: string, correctAnswer: string, config: NumericConfig = {}): boolean {
+  const units = config.unit ? [config.unit, ...(config.acceptedUnits ?? [])] : config.acceptedUnits ?? [];
+  const given = parseNumericAnswer(answer, units);
+  const expected = parseNumericAnswer(correctAnswer, units);
+  if (!given || !expected) return false;
+
+  // A stray unit the question does not accept would have failed to parse above
+  if (config.requireUnit && !given.unit) return false;
+  return Math.abs(given.value - expected.value) <= (config.tolerance ?? DEFAULT_TOLERANCE);
+}
@@ -0,0 +1,33 @@
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const HASH_PREFIX = "scrypt";
+const SALT_BYTES = 16;
+const KEY_LENGTH = 64;
+
+// Stored as "scrypt$<salt hex>$<hash hex>"
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${HASH_PREFIX}$${salt.toString("hex")}$${hash.toString("hex")}`;
+}
+
+const HASH_PATTERN = new RegExp(`^${HASH_PREFIX}\\$[0-9a-f]{${SALT_BYTES * 2}}\\$[0-9a-f]{${KEY_LENGTH * 2}}$`);
+
+// Only values hashPassword could have written count; anything else is treated
+// as plaintext by the legacy migration
+export function isPasswordHash(stored: string): boolean {
+  return HASH_PATTERN.test(stored);
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  // A malformed value must never verify, e.g. an empty hash matching an empty key
+  if (!isPasswordHash(stored)) return false;
+
+  const [, saltHex, hashHex] = stored.split("$");
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = await scryptAsync(password, Buffer.from(saltHex, "hex"), KEY_LENGTH);
+  return timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,64 @@
+import { randomInt } from "crypto";
+import {
+  MAX_PICTURE_PASSWORD_LENGTH, MIN_PICTURE_GRID_SIZE, MIN_PICTURE_PASSWORD_LENGTH, PICTURE_PASSWORD_ICONS,
+  type Class, type User,
+} from "@shared/schema";
+
+// === PICTURE PASSWORDS ===
+// Young students sign in by tapping a sequence of pictures. Each class can set
+// how many pictures its login grid shows and how many a new password has;
+// otherwise the deployment's PICTURE_GRID_SIZE (default 9) and
+// PICTURE_PASSWORD_LENGTH (default 3) apply. Growing the grid keeps existing
+// passwords working; shrinking it can hide pictures students already use, so
+// they would need new ones.
+
+export interface PictureGrid {
+  icons: string[];
+  length: number;
+}
+
+export type PictureSettings = Pick<Class, "pictureGridSize" | "picturePasswordLength">;
+
+function readSetting(name: string, fallback: number, min: number, max: number): number {
+  const raw = process.env[name];
+  if (raw === undefined) return fallback;
+  const value = Number(raw);
+  if (Number.isInteger(value) && value >= min && value <= max) return value;
+  console.warn(`[auth] ${name} must be a whole number from ${min} to ${max}; using ${fallback}`);
+  return fallback;
+}
+
+let defaults: { size: number; length: number } | undefined;
+
+function defaultSettings() {
+  if (!defaults) {
+    const size = readSetting("PICTURE_GRID_SIZE", 9, MIN_PICTURE_GRID_SIZE, PICTURE_PASSWORD_ICONS.length);
+    const length = readSetting("PICTURE_PASSWORD_LENGTH", 3, MIN_PICTURE_PASSWORD_LENGTH, Math.min(MAX_PICTURE_PASSWORD_LENGTH, size));
+    defaults = { size, length };
+  }
+  return defaults;
+}
+
+// The grid for a class, or the deployment's default for a student without one
+export function pictureGrid(settings?: PictureSettings | null): PictureGrid {
+  const fallback = defaultSettings();
+  const size = settings?.pictureGridSize ?? fallback.size;
+  // Pictures in a password are distinct, so it cannot be longer than the grid
+  const length = Math.min(settings?.picturePasswordLength ?? fallback.length, size);
+  return { icons: PICTURE_PASSWORD_ICONS.slice(0, size), length };
+}
+
+// Distinct icons, so a young child never has to press the same picture twice
+export function generatePicturePassword(grid: PictureGrid = pictureGrid()): string[] {
+  const pool = [...grid.icons];
+  const picked: string[] = [];
+  for (let i = 0; i < grid.length; i++) {
+    picked.push(pool.splice(randomInt(pool.length), 1)[0]);
+  }
+  return picked;
+}
+
+export function matchesPicturePassword(user: User, provided: string[]): boolean {
+  const stored = user.picturePassword;
+  return !!stored && stored.length === provided.length && stored.every((id, i) => id === provided[i]);
+}
@@ -0,0 +1,306 @@
+import { z } from "zod";
+import {
+  insertQuestionSchema, dragDropConfigSchema, numericConfigSchema,
+  type InsertQuestion, type Question, type Skill, type Topic,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { parseCorrectAnswer } from "./answer-checker";
+import { parseNumericAnswer } from "./numeric-answer";
+
+// === QUESTION PACKS ===
+// Import and export of question banks as CSV or JSON. Both formats carry the
+// same fields; in CSV the distractors are separated by "|", with "\|" for a
+// "|" within one and "\\" for a backslash, and config is JSON.
+// Rows are numbered as a spreadsheet shows them (CSV header is row 1) or by
+// position in the JSON array, starting at 1.
+
+export type PackFormat = "csv" | "json";
+
+export interface RowError {
+  row: number;
+  field?: string;
+  message: string;
+}
+
+export interface ImportResult {
+  dryRun: boolean;
+  imported: number;
+  skipped: number; // Already in the bank
+  errors: RowError[];
+}
+
+export const PACK_COLUMNS = [
+  "topic", "skill", "type", "content", "correctAnswer", "distractors", "difficulty", "explanation", "config",
+] as const;
+
+const DISTRACTOR_SEPARATOR = "|";
+const ESCAPE = "\\";
+
+function splitDistractors(cell: string): string[] {
+  const parts: string[] = [];
+  let part = "";
+  for (let i = 0; i < cell.length; i++) {
+    const ch = cell[i];
+    if (ch === ESCAPE && i + 1 < cell.length) part += cell[++i];
+    else if (ch === DISTRACTOR_SEPARATOR) { parts.push(part); part = ""; }
+    else part += ch;
+  }
+  parts.push(part);
+  return parts.map(d => d.trim()).filter(Boolean);
+}
+
+function joinDistractors(distractors: string[]): string {
+  return distractors
+    .map(d => d.replaceAll(ESCAPE, ESCAPE + ESCAPE).replaceAll(DISTRACTOR_SEPARATOR, ESCAPE + DISTRACTOR_SEPARATOR))
+    .join(DISTRACTOR_SEPARATOR);
+}
+
+type RawRow = Record<string, unknown>;
+
+// RFC 4180: quoted fields may contain commas, newlines and doubled quotes
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field); field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field); field = "";
+      rows.push(row); row = [];
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) { row.push(field); rows.push(row); }
+  return rows;
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toCsv(rows: string[][]): string {
+  return rows.map(r => r.map(csvField).join(",")).join("\n") + "\n";
+}
+
+// Throws if the file as a whole cannot be read; problems within a row are reported per row
+function readRows(format: PackFormat, text: string): { row: number; data: RawRow }[] {
+  if (format === "json") {
+    const parsed = JSON.parse(text);
+    const list = Array.isArray(parsed) ? parsed : parsed?.questions;
+    if (!Array.isArray(list)) throw new Error("Expected an array of questions");
+    return list.map((data, i) => ({ row: i + 1, data: data ?? {} }));
+  }
+
+  const [header, ...body] = parseCsv(text.replace(/^\uFEFF/, ""));
+  if (!header) throw new Error("The file is empty");
+  const columns = header.map(h => h.trim());
+  const missing = ["topic", "content", "correctAnswer"].filter(c => !columns.includes(c));
+  if (missing.length) throw new Error(`Missing column(s): ${missing.join(", ")}`);
+
+  return body
+    .map((cells, i) => ({ row: i + 2, cells }))
+    .filter(({ cells }) => cells.some(c => c.trim() !== ""))
+    .map(({ row, cells }) => {
+      const data: RawRow = {};
+      columns.forEach((col, i) => { data[col] = cells[i]?.trim() ?? ""; });
+      data.distractors = data.distractors ? splitDistractors(String(data.distractors)) : [];
+      return { row, data };
+    });
+}
+
+function optionalText(value: unknown): string | undefined {
+  return value === undefined || value === null || value === "" ? undefined : String(value);
+}
+
+type QuestionFields = Pick<Question, "correctAnswer" | "distractors"> & Partial<Pick<Question, "type" | "config">>;
+
+// Type-specific rules insertQuestionSchema cannot express
+export function checkQuestionRules(question: QuestionFields): { field: string; message: string } | null {
+  const distractors = question.distractors as string[];
+  switch (question.type ?? "multiple_choice") {
+    case "multiple_choice":
+      if (distractors.length === 0) return { field: "distractors", message: "Multiple-choice questions need at least one distractor" };
+      if (distractors.includes(question.correctAnswer)) return { field: "distractors", message: "A distractor matches the correct answer" };
+      return null;
+    case "drag_drop": {
+      const config = dragDropConfigSchema.safeParse(question.config);
+      if (!config.success) return { field: "config", message: config.error.errors[0].message };
+      try {
+        parseCorrectAnswer(question as Question);
+      } catch {
+        return { field: "correctAnswer", message: "Drag-drop answers must be JSON" };
+      }
+      return null;
+    }
+    case "numeric": {
+      const config = numericConfigSchema.safeParse(question.config ?? {});
+      if (!config.success) return { field: "config", message: config.error.errors[0].message };
+      const units = [config.data.unit, ...(config.data.acceptedUnits ?? [])].filter((u): u is string => !!u);
+      if (!parseNumericAnswer(question.correctAnswer, units)) return { field: "correctAnswer", message: "Not a number" };
+      return null;
+    }
+  }
+}
+
+function toQuestion(
+  data: RawRow,
+  topicsBySlug: Map<string, Topic>,
+  skillsBySlug: Map<string, Skill>,
+): { question: InsertQuestion } | { field: string; message: string } {
+  const topic = topicsBySlug.get(String(data.topic ?? ""));
+  if (!topic) return { field: "topic", message: `Unknown topic "${data.topic ?? ""}"` };
+
+  const skillSlug = optionalText(data.skill);
+  const skill = skillSlug ? skillsBySlug.get(skillSlug) : undefined;
+  if (skillSlug && skill?.topicId !== topic.id) {
+    return { field: "skill", message: `Unknown skill "${skillSlug}" for topic "${topic.slug}"` };
+  }
+
+  let config = data.config;
+  if (typeof config === "string") {
+    try {
+      config = config ? JSON.parse(config) : undefined;
+    } catch {
+      return { field: "config", message: "Config must be JSON" };
+    }
+  }
+
+  const parsed = insertQuestionSchema.safeParse({
+    topicId: topic.id,
+    skillId: skill?.id ?? null,
+    type: optionalText(data.type),
+    content: data.content,
+    // JSON packs may give drag-drop answers as arrays or objects
+    correctAnswer: typeof data.correctAnswer === "object" && data.correctAnswer !== null
+      ? JSON.stringify(data.correctAnswer)
+      : optionalText(data.correctAnswer),
+    distractors: data.distractors ?? [],
+    difficulty: optionalText(data.difficulty) === undefined ? undefined : Number(data.difficulty),
+    explanation: optionalText(data.explanation) ?? null,
+    config: config ?? null,
+  });
+  if (!parsed.success) {
+    return { field: parsed.error.errors[0].path.join("."), message: parsed.error.errors[0].message };
+  }
+
+  const question = parsed.data;
+  if (!z.array(z.string()).safeParse(question.distractors).success) {
+    return { field: "distractors", message: "Distractors must be a list of text" };
+  }
+  if (question.difficulty !== undefined && question.difficulty !== null &&
+    !(Number.isInteger(question.difficulty) && question.difficulty >= 1 && question.difficulty <= 10)) {
+    return { field: "difficulty", message: "Difficulty must be a whole number from 1 to 10" };
+  }
+  const typeError = checkQuestionRules(question);
+  return typeError ?? { question };
+}
+
+async function loadCatalogue() {
+  const allTopics = await storage.getTopics();
+  const topicSkills = await Promise.all(allTopics.map(t => storage.getSkillsByTopic(t.id)));
+  return {
+    topics: allTopics,
+    topicsBySlug: new Map(allTopics.map(t => [t.slug, t])),
+    skillsBySlug: new Map(topicSkills.flat().map(s => [s.slug, s])),
+  };
+}
+
+// Nothing is written unless every row is valid, so a pack can be fixed and re-run.
+// With an owner the questions join that teacher's own bank; without, the shared one.
+export async function importQuestionPack(format: PackFormat, text: string, ownerId: number | null, dryRun = false): Promise<ImportResult> {
+  let rows: { row: number; data: RawRow }[];
+  try {
+    rows = readRows(format, text);
+  } catch (e) {
+    return { dryRun, imported: 0, skipped: 0, errors: [{ row: 0, message: e instanceof Error ? e.message : "Unreadable file" }] };
+  }
+
+  const { topicsBySlug, skillsBySlug } = await loadCatalogue();
+  const owned = ownerId === null ? [] : await storage.getQuestionsByOwner(ownerId);
+  const existing = new Map<number, Set<string>>();
+  const errors: RowError[] = [];
+  const toInsert: InsertQuestion[] = [];
+  let skipped = 0;
+
+  for (const { row, data } of rows) {
+    const result = toQuestion(data, topicsBySlug, skillsBySlug);
+    if (!("question" in result)) {
+      errors.push({ row, ...result });
+      continue;
+    }
+
+    const question = { ...result.question, ownerId };
+    if (!existing.has(question.topicId)) {
+      const bank = ownerId === null
+        ? await storage.getQuestionsByTopic(question.topicId)
+        : owned.filter(q => q.topicId === question.topicId);
+      existing.set(question.topicId, new Set(bank.map(q => q.content)));
+    }
+    const seen = existing.get(question.topicId)!;
+    if (seen.has(question.content)) {
+      skipped++;
+      continue;
+    }
+    seen.add(question.content);
+    toInsert.push(question);
+  }
+
+  if (dryRun || errors.length > 0) {
+    return { dryRun, imported: errors.length > 0 ? 0 : toInsert.length, skipped, errors };
+  }
+  await storage.createQuestions(toInsert);
+  return { dryRun, imported: toInsert.length, skipped, errors };
+}
+
+// Exports the authored bank; generated questions are not part of it
+export async function exportQuestionBank(format: PackFormat, topicSlug?: string): Promise<string> {
+  const { topics: allTopics, skillsBySlug } = await loadCatalogue();
+  const skillSlugs = new Map(Array.from(skillsBySlug.values()).map(s => [s.id, s.slug]));
+  const selected = topicSlug ? allTopics.filter(t => t.slug === topicSlug) : allTopics;
+
+  const entries = [];
+  for (const topic of selected) {
+    for (const q of await storage.getQuestionsByTopic(topic.id)) {
+      entries.push({
+        topic: topic.slug,
+        skill: q.skillId ? skillSlugs.get(q.skillId) ?? null : null,
+        type: q.type ?? "multiple_choice",
+        content: q.content,
+        correctAnswer: parseCorrectAnswer(q),
+        distractors: q.distractors as string[],
+        difficulty: q.difficulty ?? 1,
+        explanation: q.explanation,
+        config: q.config ?? null,
+      });
+    }
+  }
+
+  if (format === "json") return JSON.stringify(entries, null, 2) + "\n";
+
+  return toCsv([
+    [...PACK_COLUMNS],
+    ...entries.map(e => [
+      e.topic,
+      e.skill ?? "",
+      e.type,
+      e.content,
+      typeof e.correctAnswer === "string" ? e.correctAnswer : JSON.stringify(e.correctAnswer),
+      joinDistractors(e.distractors),
+      String(e.difficulty),
+      e.explanation ?? "",
+      e.config ? JSON.stringify(e.config) : "",
+    ]),
+  ]);
+}
@@ -0,0 +1,39 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { generateQuestion, generators, hasGenerator } from "./question-generators";
+
+const slugs = Object.keys(generators);
+
+for (const slug of slugs) {
+  test(`${slug}: the same seed gives the same question and answer`, () => {
+    for (const difficulty of [1, 5, 10]) {
+      for (const seed of [1, 42, 2 ** 31 - 1]) {
+        const a = generateQuestion(slug, difficulty, seed);
+        const b = generateQuestion(slug, difficulty, seed);
+        assert.ok(a);
+        assert.deepEqual(a, b);
+      }
+    }
+  });
+
+  test(`${slug}: the answer is not among the distractors`, () => {
+    for (let seed = 0; seed < 50; seed++) {
+      const q = generateQuestion(slug, (seed % 10) + 1, seed)!;
+      const distractors = q.distractors as string[];
+      assert.equal(distractors.length, 3);
+      assert.ok(!distractors.includes(q.correctAnswer), `${q.content} lists ${q.correctAnswer} as wrong`);
+    }
+  });
+}
+
+test("different seeds give different questions", () => {
+  const contents = new Set(Array.from({ length: 20 }, (_, seed) => generateQuestion("multiplication", 5, seed)!.content));
+  assert.ok(contents.size > 1);
+});
+
+test("hasGenerator matches only topics with a generator", () => {
+  assert.ok(hasGenerator("addition"));
+  assert.equal(hasGenerator("electricity"), false);
+  assert.equal(hasGenerator("constructor"), false);
+  assert.equal(generateQuestion("toString", 5, 1), undefined);
+});
@@ -0,0 +1,199 @@
+import type { InsertQuestion } from "@shared/schema";
+
+// === PROCEDURAL QUESTION GENERATORS ===
+// Keyed by topic slug. Each generator builds a question at a requested
+// difficulty (1-10) with distractors taken from common misconceptions.
+// All randomness comes from the supplied rng so a seed reproduces a question.
+
+export type GeneratedQuestion = Omit<InsertQuestion, "topicId" | "skillId">;
+export type Rng = () => number;
+
+export interface QuestionGenerator {
+  generate(difficulty: number, rng: Rng): GeneratedQuestion;
+}
+
+// mulberry32: small, fast and good enough for picking numbers
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randInt(rng: Rng, min: number, max: number): number {
+  return min + Math.floor(rng() * (max - min + 1));
+}
+
+function digits(n: number): number[] {
+  return String(n).split("").reverse().map(Number);
+}
+
+// Adds column by column and drops every carry, e.g. 48 + 27 -> 65
+function addWithoutCarrying(a: number, b: number): number {
+  const da = digits(a), db = digits(b);
+  let result = 0;
+  for (let i = 0, place = 1; i < Math.max(da.length, db.length); i++, place *= 10) {
+    result += (((da[i] ?? 0) + (db[i] ?? 0)) % 10) * place;
+  }
+  return result;
+}
+
+// Takes the smaller digit from the larger in each column, e.g. 42 - 19 -> 37
+function subtractSmallerFromLarger(a: number, b: number): number {
+  const da = digits(a), db = digits(b);
+  let result = 0;
+  for (let i = 0, place = 1; i < da.length; i++, place *= 10) {
+    result += Math.abs((da[i] ?? 0) - (db[i] ?? 0)) * place;
+  }
+  return result;
+}
+
+// Three distinct wrong answers: misconceptions first, then near misses
+function pickDistractors(correct: number, misconceptions: number[], rng: Rng): string[] {
+  const chosen = new Set<number>();
+  for (const m of misconceptions) {
+    if (chosen.size < 3 && m !== correct && m >= 0 && Number.isInteger(m)) chosen.add(m);
+  }
+  const nearMisses = [1, -1, 10, -10, 2, -2, 5, -5].sort(() => rng() - 0.5);
+  for (const offset of nearMisses) {
+    if (chosen.size >= 3) break;
+    const candidate = correct + offset;
+    if (candidate !== correct && candidate >= 0) chosen.add(candidate);
+  }
+  return Array.from(chosen).map(String);
+}
+
+function clampDifficulty(difficulty: number): number {
+  return Math.max(1, Math.min(10, Math.round(difficulty)));
+}
+
+const addition: QuestionGenerator = {
+  generate(difficulty, rng) {
+    const d = clampDifficulty(difficulty);
+    const ranges: [number, number, number, number][] = [
+      [1, 5, 1, 5], [2, 10, 2, 10], [10, 40, 2, 9], [10, 50, 10, 40], [15, 89, 15, 89],
+      [100, 499, 10, 99], [100, 899, 100, 899], [1000, 4999, 100, 999], [1000, 8999, 1000, 8999], [10000, 89999, 1000, 9999],
+    ];
+    const [aMin, aMax, bMin, bMax] = ranges[d - 1];
+    const a = randInt(rng, aMin, aMax), b = randInt(rng, bMin, bMax);
+    const correct = a + b;
+    return {
+      content: `What is ${a} + ${b}?`,
+      correctAnswer: String(correct),
+      distractors: pickDistractors(correct, [addWithoutCarrying(a, b), correct + 10, correct - 1], rng),
+      difficulty: d,
+      type: "multiple_choice",
+      explanation: addWithoutCarrying(a, b) !== correct
+        ? `${a} + ${b} = ${correct}. Remember to carry when a column adds up to 10 or more.`
+        : `${a} + ${b} = ${correct}`,
+    };
+  },
+};
+
+const subtraction: QuestionGenerator = {
+  generate(difficulty, rng) {
+    const d = clampDifficulty(difficulty);
+    const ranges: [number, number][] = [
+      [2, 5], [5, 10], [10, 20], [20, 60], [30, 99], [100, 300], [100, 999], [1000, 3000], [1000, 9999], [10000, 99999],
+    ];
+    const [min, max] = ranges[d - 1];
+    const a = randInt(rng, min, max), b = randInt(rng, 1, a - 1);
+    const correct = a - b;
+    const noBorrow = subtractSmallerFromLarger(a, b);
+    return {
+      content: `What is ${a} - ${b}?`,
+      correctAnswer: String(correct),
+      distractors: pickDistractors(correct, [noBorrow, correct + 10, a + b], rng),
+      difficulty: d,
+      type: "multiple_choice",
+      explanation: noBorrow !== correct
+        ? `${a} - ${b} = ${correct}. When the top digit is smaller, exchange from the next column instead of swapping the digits.`
+        : `${a} - ${b} = ${correct}`,
+    };
+  },
+};
+
+const multiplication: QuestionGenerator = {
+  generate(difficulty, rng) {
+    const d = clampDifficulty(difficulty);
+    let a: number, b: number;
+    if (d === 1) { a = [2, 5, 10][randInt(rng, 0, 2)]; b = randInt(rng, 1, 10); }
+    else if (d <= 3) { a = randInt(rng, 2, 10); b = randInt(rng, 2, 10); }
+    else if (d <= 5) { a = randInt(rng, 3, 12); b = randInt(rng, 6, 12); }
+    else if (d <= 7) { a = randInt(rng, 12, 99); b = randInt(rng, 3, 9); }
+    else { a = randInt(rng, 12, 99); b = randInt(rng, 12, 99); }
+
+    const correct = a * b;
+    // Forgetting to shift the tens partial product, e.g. 23 x 14 -> 23x4 + 23x1
+    const unshifted = b >= 10 ? a * (b % 10) + a * Math.floor(b / 10) : a * (b + 1);
+    return {
+      content: `What is ${a} × ${b}?`,
+      correctAnswer: String(correct),
+      distractors: pickDistractors(correct, [unshifted, a * (b - 1), a + b], rng),
+      difficulty: d,
+      type: "multiple_choice",
+      explanation: `${a} × ${b} = ${correct}`,
+    };
+  },
+};
+
+const division: QuestionGenerator = {
+  generate(difficulty, rng) {
+    const d = clampDifficulty(difficulty);
+    const divisor = d <= 2 ? [2, 5, 10][randInt(rng, 0, 2)] : d <= 5 ? randInt(rng, 2, 12) : randInt(rng, 3, 25);
+    const quotient = d <= 3 ? randInt(rng, 1, 10) : d <= 6 ? randInt(rng, 5, 12) : randInt(rng, 11, 99);
+    const dividend = divisor * quotient;
+    return {
+      content: `What is ${dividend} ÷ ${divisor}?`,
+      correctAnswer: String(quotient),
+      distractors: pickDistractors(quotient, [quotient + 1, quotient - 1, dividend - divisor], rng),
+      difficulty: d,
+      type: "multiple_choice",
+      explanation: `${divisor} × ${quotient} = ${dividend}, so ${dividend} ÷ ${divisor} = ${quotient}`,
+    };
+  },
+};
+
+const fractions: QuestionGenerator = {
+  generate(difficulty, rng) {
+    const d = clampDifficulty(difficulty);
+    const denominator = d <= 2 ? [2, 4][randInt(rng, 0, 1)] : d <= 5 ? randInt(rng, 2, 10) : randInt(rng, 3, 12);
+    const numerator = d <= 3 ? 1 : randInt(rng, 1, denominator - 1);
+    const whole = denominator * (d <= 3 ? randInt(rng, 1, 10) : d <= 6 ? randInt(rng, 2, 12) : randInt(rng, 5, 25));
+    const unit = whole / denominator;
+    const correct = unit * numerator;
+    return {
+      content: `What is ${numerator}/${denominator} of ${whole}?`,
+      correctAnswer: String(correct),
+      // Stopping at one part, dividing by the numerator, or finding what is left over
+      distractors: pickDistractors(correct, [unit, whole / numerator, whole - correct], rng),
+      difficulty: d,
+      type: "multiple_choice",
+      explanation: numerator === 1
+        ? `${whole} ÷ ${denominator} = ${correct}`
+        : `${whole} ÷ ${denominator} = ${unit}, then ${unit} × ${numerator} = ${correct}`,
+    };
+  },
+};
+
+export const generators: Record<string, QuestionGenerator> = {
+  addition,
+  subtraction,
+  multiplication,
+  division,
+  fractions,
+};
+
+// Own keys only, so slugs like "constructor" do not match Object.prototype
+export function hasGenerator(topicSlug: string): boolean {
+  return Object.hasOwn(generators, topicSlug);
+}
+
+export function generateQuestion(topicSlug: string, difficulty: number, seed: number = Date.now()): GeneratedQuestion | undefined {
+  if (!hasGenerator(topicSlug)) return undefined;
+  return generators[topicSlug].generate(difficulty, createRng(seed));
+}
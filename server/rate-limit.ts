@@ -0,0 +1,86 @@
+// === RATE LIMITING ===
+// Fixed-window counters kept in memory. Good enough for a single server
+// process; counts reset on restart.
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number; // 0 when allowed
+}
+
+export class RateLimiter {
+  private windows = new Map<string, { start: number; count: number }>();
+  private lastPrune = 0;
+
+  constructor(private readonly max: number, private readonly windowMs: number) {}
+
+  hit(key: string, now: number = Date.now()): RateLimitResult {
+    this.prune(now);
+
+    const window = this.windows.get(key);
+    if (!window || now - window.start >= this.windowMs) {
+      this.windows.set(key, { start: now, count: 1 });
+      return { allowed: true, retryAfterSeconds: 0 };
+    }
+
+    window.count++;
+    if (window.count <= this.max) return { allowed: true, retryAfterSeconds: 0 };
+    return { allowed: false, retryAfterSeconds: Math.ceil((window.start + this.windowMs - now) / 1000) };
+  }
+
+  // Drops expired windows, at most once per window, so the map does not grow
+  // with every key ever seen
+  private prune(now: number) {
+    if (now - this.lastPrune < this.windowMs) return;
+    this.lastPrune = now;
+    this.windows.forEach((window, key) => {
+      if (now - window.start >= this.windowMs) this.windows.delete(key);
+    });
+  }
+}
+
+// Exponential backoff for repeated failures, e.g. wrong passwords. The first
+// `freeFailures` cost nothing; after that each failure doubles the wait before
+// the next attempt, up to maxDelayMs. A key is forgotten once it has had no
+// failures for forgetMs.
+export class Backoff {
+  private failures = new Map<string, { count: number; last: number; nextAllowed: number }>();
+  private lastPrune = 0;
+
+  constructor(
+    private readonly freeFailures: number,
+    private readonly baseDelayMs: number,
+    private readonly maxDelayMs: number,
+    private readonly forgetMs: number,
+  ) {}
+
+  // Seconds until the key may try again; 0 when it may now
+  waitSeconds(key: string, now: number = Date.now()): number {
+    const entry = this.failures.get(key);
+    if (!entry || now >= entry.nextAllowed) return 0;
+    return Math.ceil((entry.nextAllowed - now) / 1000);
+  }
+
+  // Records a failure and returns the wait it earned, in seconds
+  fail(key: string, now: number = Date.now()): number {
+    this.prune(now);
+
+    const previous = this.failures.get(key);
+    const count = previous && now - previous.last < this.forgetMs ? previous.count + 1 : 1;
+    const extra = count - this.freeFailures;
+    const delay = extra > 0 ? Math.min(this.baseDelayMs * 2 ** (extra - 1), this.maxDelayMs) : 0;
+    this.failures.set(key, { count, last: now, nextAllowed: now + delay });
+    return Math.ceil(delay / 1000);
+  }
+
+  succeed(key: string) {
+    this.failures.delete(key);
+  }
+
+  private prune(now: number) {
+    if (now - this.lastPrune < this.forgetMs) return;
+    this.lastPrune = now;
+    this.failures.forEach((entry, key) => {
+      if (now - entry.last >= this.forgetMs) this.failures.delete(key);
+    });
+  }
+}
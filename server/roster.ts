@@ -0,0 +1,132 @@
+import { randomInt } from "crypto";
+import type { InsertUser, User } from "@shared/schema";
+import type { LoginCard } from "@shared/routes";
+import { storage } from "./storage";
+import { generatePicturePassword, pictureGrid, type PictureGrid } from "./picture-password";
+import { parseCsv, type RowError } from "./question-bank";
+
+// === CLASS ROSTERS ===
+// Teachers add students one at a time or from a CSV with "first name" and
+// "year group" columns. Usernames and picture passwords are generated so the
+// teacher only has to hand out the printed login cards.
+
+export interface RosterEntry {
+  firstName: string;
+  yearGroup: number;
+}
+
+const MAX_ROSTER_SIZE = 200;
+
+export function toLoginCard(student: User): LoginCard {
+  return {
+    id: student.id,
+    firstName: student.firstName,
+    username: student.username,
+    yearGroup: student.yearGroup,
+    picturePassword: student.picturePassword ?? [],
+  };
+}
+
+// First name in lower case plus three digits, e.g. "alex482". A name that has
+// used up most of its three-digit numbers moves on to four, then five, and so
+// on. `taken` holds names already picked for rows not yet saved.
+async function generateUsername(firstName: string, taken: Set<string> = new Set()): Promise<string> {
+  const base = firstName.normalize("NFD").toLowerCase().replace(/[^a-z]/g, "").slice(0, 12) || "student";
+  for (let digits = 3; digits <= 6; digits++) {
+    for (let attempt = 0; attempt < 10; attempt++) {
+      const username = `${base}${randomInt(10 ** (digits - 1), 10 ** digits)}`;
+      if (taken.has(username) || await storage.getUserByUsername(username)) continue;
+      taken.add(username);
+      return username;
+    }
+  }
+  throw new Error("Could not generate a unique username");
+}
+
+async function newStudent(classId: number, grid: PictureGrid, entry: RosterEntry, taken?: Set<string>): Promise<InsertUser> {
+  return {
+    username: await generateUsername(entry.firstName, taken),
+    password: null,
+    role: "student",
+    firstName: entry.firstName,
+    yearGroup: entry.yearGroup,
+    picturePassword: generatePicturePassword(grid),
+    avatarConfig: {},
+    classId,
+  };
+}
+
+async function classGrid(classId: number | null): Promise<PictureGrid> {
+  return pictureGrid(classId ? await storage.getClass(classId) : undefined);
+}
+
+export async function createStudent(classId: number, entry: RosterEntry): Promise<User> {
+  return storage.createUser(await newStudent(classId, await classGrid(classId), entry));
+}
+
+// All in one transaction, so a failure part way adds nobody
+export async function createStudents(classId: number, entries: RosterEntry[]): Promise<User[]> {
+  const grid = await classGrid(classId);
+  const taken = new Set<string>();
+  const students: InsertUser[] = [];
+  for (const entry of entries) {
+    students.push(await newStudent(classId, grid, entry, taken));
+  }
+  return storage.createUsers(students);
+}
+
+// New pictures for a student who has forgotten theirs or locked themselves
+// out. Their existing sessions end, and the reset is recorded against
+// whoever asked for it. The pictures come from the student's class grid.
+export async function resetPicturePassword(studentId: number, resetBy: number): Promise<User> {
+  const current = await storage.getUser(studentId);
+  const grid = await classGrid(current?.classId ?? null);
+  const student = await storage.updatePicturePassword(studentId, generatePicturePassword(grid));
+  await storage.deleteSessionsForUser(studentId);
+  await storage.recordCredentialReset(studentId, resetBy, "picture_password");
+  return student;
+}
+
+// Accepts "5", "Y5" or "Year 5"
+function parseYearGroup(value: string): number | null {
+  const match = value.trim().match(/^(?:y(?:ear)?\s*)?(\d)$/i);
+  const year = match ? Number(match[1]) : NaN;
+  return year >= 1 && year <= 9 ? year : null;
+}
+
+function columnKey(heading: string): string {
+  return heading.toLowerCase().replace(/[^a-z]/g, "");
+}
+
+// Rows are numbered as a spreadsheet shows them, with the header as row 1
+export function parseRoster(text: string): { entries: RosterEntry[]; errors: RowError[] } {
+  const [header, ...body] = parseCsv(text.replace(/^\uFEFF/, ""));
+  if (!header) return { entries: [], errors: [{ row: 0, message: "The file is empty" }] };
+
+  const columns = header.map(columnKey);
+  const nameColumn = columns.findIndex(c => c === "firstname" || c === "name");
+  const yearColumn = columns.findIndex(c => c === "yeargroup" || c === "year");
+  const missing = [nameColumn < 0 && "first name", yearColumn < 0 && "year group"].filter(Boolean);
+  if (missing.length) {
+    return { entries: [], errors: [{ row: 1, message: `Missing column(s): ${missing.join(", ")}` }] };
+  }
+
+  const entries: RosterEntry[] = [];
+  const errors: RowError[] = [];
+  body.forEach((cells, i) => {
+    const row = i + 2;
+    if (cells.every(c => c.trim() === "")) return;
+
+    const firstName = (cells[nameColumn] ?? "").trim();
+    const yearGroup = parseYearGroup(cells[yearColumn] ?? "");
+    if (!firstName) errors.push({ row, field: "firstName", message: "First name is missing" });
+    else if (firstName.length > 50) errors.push({ row, field: "firstName", message: "First name is too long" });
+    else if (yearGroup === null) errors.push({ row, field: "yearGroup", message: "Year group must be 1 to 9" });
+    else entries.push({ firstName, yearGroup });
+  });
+
+  if (entries.length + errors.length > MAX_ROSTER_SIZE) {
+    return { entries: [], errors: [{ row: 0, message: `A roster can have at most ${MAX_ROSTER_SIZE} students` }] };
+  }
+  return { entries, errors };
+}
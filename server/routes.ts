@@ -1,123 +1,315 @@
 
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { api, loginSchema } from "@shared/routes";
+import { storage, MASTERY_THRESHOLD, type JoinRequestWithClass } from "./storage";
+import { api, loginSchema, type ServedQuestion } from "@shared/routes";
 import { z } from "zod";
-import session from "express-session";
-import MemoryStore from "memorystore";
+import { randomBytes, randomInt } from "crypto";
+import { startOfWeek } from "date-fns";
 import { db } from "./db";
-import { questions, topics, users } from "@shared/schema";
+import { and, eq, gt, lte } from "drizzle-orm";
+import {
+  questions, skills, users, dragDropConfigSchema,
+  type Assignment, type Question, type User, type PublicUser, type Role,
+} from "@shared/schema";
+import { hashPassword, verifyPassword } from "./password";
+import { createSelector, isBankThin, pickWeakestSkill, withinBand, type SelectionContext } from "./adaptive-engine";
+import { generateQuestion, hasGenerator } from "./question-generators";
+import { checkAnswer, parseCorrectAnswer } from "./answer-checker";
+import { RateLimiter } from "./rate-limit";
+import { beginSession, endSession, setupSessions } from "./session";
+import { resetPassword, sendAccountExistsEmail, sendPasswordResetEmail, sendVerificationEmail, verifyEmail } from "./accounts";
+import {
+  authorize, requireClassOwnership, requireParentOf, requireTeacherOfStudent, requireTeacherOrParentOf,
+} from "./authz";
+import { createStudent, createStudents, parseRoster, resetPicturePassword, toLoginCard } from "./roster";
+import { matchesPicturePassword, pictureGrid } from "./picture-password";
+import { lockedForSeconds, loginWaitSeconds, recordLoginFailure, recordLoginSuccess } from "./login-guard";
+import { checkQuestionRules, exportQuestionBank, importQuestionPack } from "./question-bank";
+import { createMasteryModel, rollUpSkillMastery } from "./mastery-model";
+import { buildCurriculumTree, loadCurriculum } from "./curriculum";
+import {
+  getAssignedStudentIds, getAssignmentStatus, getNextQuizQuestion, getStudentProgress, getTargetQuestions,
+  recordAssignmentProgress,
+} from "./assignments";
 
-const SessionStore = MemoryStore(session);
-
-declare module "express-session" {
-  interface SessionData {
-    userId: number;
-    role: "student" | "teacher" | "parent";
-  }
-}
+const questionSelector = createSelector();
+const masteryModel = createMasteryModel();
+// Generous for a child answering properly; stops scripted answers farming coins
+const answerLimiter = new RateLimiter(20, 60 * 1000);
+const nextQuestionLimiter = new RateLimiter(30, 60 * 1000);
+// Plenty for mistyping a code; stops class and link codes being guessed
+const joinLimiter = new RateLimiter(10, 15 * 60 * 1000);
+const linkLimiter = new RateLimiter(10, 15 * 60 * 1000);
+// Each of these sends an email, so they are limited per address the request came from
+const signupLimiter = new RateLimiter(5, 60 * 60 * 1000);
+const resendLimiter = new RateLimiter(5, 60 * 60 * 1000);
+const resetLimiter = new RateLimiter(5, 60 * 60 * 1000);
+// A whole class often signs in from one school address, so this is generous;
+// guessing a student's pictures is stopped by server/login-guard.ts instead
+const classLoginLimiter = new RateLimiter(100, 15 * 60 * 1000);
 
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
-  // Session setup
-  app.use(
-    session({
-      secret: process.env.SESSION_SECRET || "edukid_secret",
-      resave: false,
-      saveUninitialized: false,
-      rolling: true, // Reset cookie expiration on every request
-      store: new SessionStore({ 
-        checkPeriod: 86400000,
-        ttl: 60 * 60 * 24 // 24 hours in seconds
-      }),
-      cookie: { 
-        secure: false,
-        maxAge: 1000 * 60 * 60 * 24 // 24 hours in milliseconds
-      }, 
-    })
-  );
+  setupSessions(app);
 
   // === AUTH ===
-  app.post(api.auth.login.path, async (req, res) => {
+  app.post(api.auth.login.path, authorize(api.auth.login), async (req, res) => {
     try {
       const input = loginSchema.parse(req.body);
-      
-      // Universal admin login - works for any role
-      if (input.username === "admin" && input.password === "admin") {
-        let user = await storage.getUserByUsername("admin");
-        if (!user) {
-          // Create admin user if doesn't exist
-          user = await storage.createUser({
-            username: "admin",
-            password: "admin",
-            role: input.role,
-            firstName: "Admin",
-            picturePassword: null,
-            avatarConfig: {},
-            classId: null,
-            parentId: null,
-            yearGroup: input.role === "student" ? 5 : null,
-          });
-        }
-        req.session.userId = user.id;
-        req.session.role = input.role;
-        res.json({ ...user, role: input.role });
-        return;
-      }
-      
+      const wait = loginWaitSeconds(req, input.username);
+      if (wait > 0) return sendLoginThrottled(res, wait);
+
       const user = await storage.getUserByUsername(input.username);
 
       if (!user) {
+        await recordLoginFailure(req, input.username);
         return res.status(401).json({ message: "Invalid credentials" });
       }
 
-      if (user.role !== input.role) {
+      // Admins sign in through the staff (teacher) form; nobody else may pick a role
+      const roleMatches = user.role === input.role || (user.role === "admin" && input.role === "teacher");
+      if (!roleMatches) {
+        await recordLoginFailure(req, input.username);
         return res.status(401).json({ message: "Invalid role for this user" });
       }
 
-      // Simple password check (In production, use hashing!)
+      // A locked account is refused without checking the password
+      const locked = lockedForSeconds(user);
+      if (locked > 0) return sendAccountLocked(res, user, locked);
+
       // For students with picture password, we check the array match
-      if (user.role === "student" && input.picturePassword) {
-        const stored = user.picturePassword; // e.g. ["cat", "dog", "apple"]
-        const provided = input.picturePassword;
-        const isMatch = stored && 
-          stored.length === provided.length && 
-          stored.every((val, index) => val === provided[index]);
-          
-        if (!isMatch) return res.status(401).json({ message: "Wrong picture password" });
-      } else {
-        // Standard password
-        if (user.password !== input.password) {
-          return res.status(401).json({ message: "Invalid password" });
-        }
+      const correct = user.role === "student" && input.picturePassword
+        ? matchesPicturePassword(user, input.picturePassword)
+        : !!user.password && !!input.password && await verifyPassword(input.password, user.password);
+      if (!correct) {
+        const lockedNow = await recordLoginFailure(req, input.username, user);
+        if (lockedNow > 0) return sendAccountLocked(res, user, lockedNow);
+        return res.status(401).json({ message: input.picturePassword ? "Wrong picture password" : "Invalid password" });
+      }
+
+      if (user.email && !user.emailVerifiedAt) {
+        return res.status(403).json({ message: "Please confirm your email address first, using the link we sent you" });
       }
 
-      req.session.userId = user.id;
-      req.session.role = user.role as any;
-      res.json(user);
+      await beginSession(req, user);
+      await recordLoginSuccess(req, user);
+      res.json(toPublicUser(user));
     } catch (e) {
       res.status(400).json({ message: "Validation error" });
     }
   });
 
-  app.post(api.auth.logout.path, (req, res) => {
-    req.session.destroy(() => {
-      res.json({ message: "Logged out" });
-    });
+  // Step one of the class login: the class code shows who is in the class
+  app.post(api.auth.classLogin.path, authorize(api.auth.classLogin), async (req, res) => {
+    const limit = classLoginLimiter.hit(req.ip ?? "unknown");
+    if (!limit.allowed) {
+      res.setHeader("Retry-After", String(limit.retryAfterSeconds));
+      return res.status(429).json({ message: "Too many class codes tried. Please wait a little while." });
+    }
+
+    try {
+      const input = api.auth.classLogin.input.parse(req.body);
+      const cls = await storage.getClassByCode(normaliseCode(input.code));
+      if (!cls) return res.status(404).json({ message: "We couldn't find that class. Check the code with your teacher." });
+
+      const students = await storage.getStudentsInClass(cls.id);
+      res.json({
+        className: cls.name,
+        icons: pictureGrid(cls).icons,
+        students: students
+          .filter((student) => student.picturePassword?.length)
+          .map((student) => ({ id: student.id, firstName: student.firstName, pictureCount: student.picturePassword!.length })),
+      });
+    } catch (e) {
+      if (e instanceof z.ZodError) return sendValidationError(res, e);
+      throw e;
+    }
   });
 
-  app.get(api.auth.me.path, async (req, res) => {
-    if (!req.session.userId) return res.status(401).send();
-    const user = await storage.getUser(req.session.userId);
-    if (!user) return res.status(401).send();
-    res.json(user);
+  // Step two: the student picked from the class list taps their pictures
+  app.post(api.auth.pictureLogin.path, authorize(api.auth.pictureLogin), async (req, res) => {
+    try {
+      const input = api.auth.pictureLogin.input.parse(req.body);
+      const cls = await storage.getClassByCode(normaliseCode(input.code));
+      const student = cls ? await storage.getUser(input.studentId) : undefined;
+      const username = student?.username ?? `#${input.studentId}`;
+      const wait = loginWaitSeconds(req, username);
+      if (wait > 0) return sendLoginThrottled(res, wait);
+
+      if (!cls || !student || student.role !== "student" || student.classId !== cls.id) {
+        await recordLoginFailure(req, username);
+        return res.status(401).json({ message: "Wrong picture password" });
+      }
+
+      const locked = lockedForSeconds(student);
+      if (locked > 0) return sendAccountLocked(res, student, locked);
+
+      if (!matchesPicturePassword(student, input.picturePassword)) {
+        const lockedNow = await recordLoginFailure(req, username, student);
+        if (lockedNow > 0) return sendAccountLocked(res, student, lockedNow);
+        return res.status(401).json({ message: "Wrong picture password" });
+      }
+
+      await beginSession(req, student);
+      await recordLoginSuccess(req, student);
+      res.json(toPublicUser(student));
+    } catch (e) {
+      if (e instanceof z.ZodError) return sendValidationError(res, e);
+      throw e;
+    }
+  });
+
+  // Teachers and parents sign themselves up; the account can be used once the
+  // emailed link has confirmed the address
+  app.post(api.auth.register.path, authorize(api.auth.register), async (req, res) => {
+    const limit = signupLimiter.hit(req.ip ?? "unknown");
+    if (!limit.allowed) {
+      res.setHeader("Retry-After", String(limit.retryAfterSeconds));
+      return res.status(429).json({ message: "Too many sign-ups from here. Please try again later." });
+    }
+
+    try {
+      const input = api.auth.register.input.parse(req.body);
+      const email = input.email.toLowerCase();
+      if (await storage.getUserByUsername(input.username)) {
+        return res.status(400).json({ message: "That username is taken", field: "username" });
+      }
+      // Same response whether or not the address has an account, so sign-up
+      // cannot be used to find out who uses EduKid; the owner is told by email
+      const sent = { message: `We've sent a link to ${email}. Open it to finish signing up.` };
+      // Both emails go out in the background and the password is hashed either
+      // way, so the time taken does not give the answer away either
+      const existing = await storage.getUserByEmail(email);
+      if (existing) {
+        await hashPassword(input.password);
+        sendAccountExistsEmail({ ...existing, email })
+          .catch((err) => console.error("[auth] could not send account-exists email", err));
+        return res.status(201).json(sent);
+      }
+
+      // createUser hashes the password, whatever it looks like
+      const user = await storage.createUser({
+        username: input.username,
+        password: input.password,
+        role: input.role,
+        firstName: input.firstName,
+        email,
+        picturePassword: null,
+        avatarConfig: {},
+        classId: null,
+        yearGroup: null,
+      });
+      // A failed send leaves the account in place; the link can be resent
+      sendVerificationEmail({ ...user, email })
+        .catch((err) => console.error("[auth] could not send verification email", err));
+      res.status(201).json(sent);
+    } catch (e) {
+      if (e instanceof z.ZodError) return sendValidationError(res, e);
+      throw e;
+    }
+  });
+
+  app.post(api.auth.verifyEmail.path, authorize(api.auth.verifyEmail), async (req, res) => {
+    try {
+      const input = api.auth.verifyEmail.input.parse(req.body);
+      const user = await verifyEmail(input.token);
+      if (!user) {
+        return res.status(400).json({ message: "This link has expired or has already been used", field: "token" });
+      }
+      res.json({ message: "Email address confirmed. You can now sign in." });
+    } catch (e) {
+      if (e instanceof z.ZodError) return sendValidationError(res, e);
+      throw e;
+    }
+  });
+
+  // Answers the same either way, so it cannot be used to find out who has an account
+  app.post(api.auth.resendVerification.path, authorize(api.auth.resendVerification), async (req, res) => {
+    const limit = resendLimiter.hit(req.ip ?? "unknown");
+    if (!limit.allowed) {
+      res.setHeader("Retry-After", String(limit.retryAfterSeconds));
+      return res.status(429).json({ message: "Too many requests. Please try again later." });
+    }
+
+    try {
+      const input = api.auth.resendVerification.input.parse(req.body);
+      const user = await storage.getUserByEmail(input.email);
+      if (user?.email && !user.emailVerifiedAt) await sendVerificationEmail({ ...user, email: user.email });
+      res.json({ message: "If that address is waiting to be confirmed, we've sent a new link." });
+    } catch (e) {
+      if (e instanceof z.ZodError) return sendValidationError(res, e);
+      throw e;
+    }
+  });
+
+  // Answers the same either way, like resending verification
+  app.post(api.auth.forgotPassword.path, authorize(api.auth.forgotPassword), async (req, res) => {
+    const limit = resetLimiter.hit(req.ip ?? "unknown");
+    if (!limit.allowed) {
+      res.setHeader("Retry-After", String(limit.retryAfterSeconds));
+      return res.status(429).json({ message: "Too many requests. Please try again later." });
+    }
+
+    try {
+      const input = api.auth.forgotPassword.input.parse(req.body);
+      const user = await storage.getUserByEmail(input.email);
+      if (user?.email && user.password) await sendPasswordResetEmail({ ...user, email: user.email });
+      res.json({ message: "If an account uses that address, we've emailed it a link to reset the password." });
+    } catch (e) {
+      if (e instanceof z.ZodError) return sendValidationError(res, e);
+      throw e;
+    }
+  });
+
+  app.post(api.auth.resetPassword.path, authorize(api.auth.resetPassword), async (req, res) => {
+    try {
+      const input = api.auth.resetPassword.input.parse(req.body);
+      const user = await resetPassword(input.token, input.password);
+      if (!user) {
+        return res.status(400).json({ message: "This link has expired or has already been used", field: "token" });
+      }
+      res.json({ message: "Password changed. You can now sign in with it." });
+    } catch (e) {
+      if (e instanceof z.ZodError) return sendValidationError(res, e);
+      throw e;
+    }
+  });
+
+  app.post(api.auth.logout.path, authorize(api.auth.logout), async (req, res) => {
+    await endSession(req);
+    res.json({ message: "Logged out" });
+  });
+
+  // Signs the user out on every device, this one included
+  app.post(api.auth.logoutAll.path, authorize(api.auth.logoutAll), async (req, res) => {
+    const count = await storage.deleteSessionsForUser(req.session.userId!);
+    await endSession(req);
+    res.json({ message: `Logged out of ${count} session(s)` });
+  });
+
+  app.get(api.auth.me.path, authorize(api.auth.me), async (req, res) => {
+    const user = await storage.getUser(req.session.userId!);
+    if (!user) return res.status(401).json({ message: "Please sign in" });
+    res.json(toPublicUser(user));
   });
 
   // === LEARNING ===
-  app.get(api.learning.getTopics.path, async (req, res) => {
+  app.get(api.learning.getSubjects.path, authorize(api.learning.getSubjects), async (req, res) => {
+    const stage = req.query.stage as string | undefined;
+    const [allSubjects, stageTopics] = await Promise.all([
+      storage.getSubjects(),
+      storage.getTopics(stage),
+    ]);
+
+    // Leave out subjects with nothing to play at this stage
+    const taught = new Set(stageTopics.map(t => t.subjectId));
+    res.json(allSubjects.filter(s => taught.has(s.id)));
+  });
+
+  app.get(api.learning.getTopics.path, authorize(api.learning.getTopics), async (req, res) => {
     const stage = req.query.stage as string | undefined;
     const subjectId = req.query.subjectId ? Number(req.query.subjectId) : undefined;
     const allTopics = await storage.getTopics(stage);
@@ -130,8 +322,15 @@ export async function registerRoutes(
     // If student, attach mastery
     if (req.session.role === "student" && req.session.userId) {
       const topicsWithMastery = await Promise.all(filteredTopics.map(async (t) => {
-        const m = await storage.getMastery(req.session.userId!, t.id);
-        return { ...t, mastery: m?.score || 0 };
+        const [m, skillScores] = await Promise.all([
+          storage.getMastery(req.session.userId!, t.id),
+          storage.getSkillScores(req.session.userId!, t.id),
+        ]);
+        return {
+          ...t,
+          mastery: skillScores.length > 0 ? rollUpSkillMastery(skillScores.map(s => s.score), m?.untaggedScore ?? undefined) : m?.score || 0,
+          skills: skillScores.map(s => ({ id: s.skillId, name: s.name, mastery: s.score ?? 0 })),
+        };
       }));
       return res.json(topicsWithMastery);
     }
@@ -139,118 +338,978 @@ export async function registerRoutes(
     res.json(filteredTopics);
   });
 
-  app.get(api.learning.getNextQuestion.path, async (req, res) => {
-    const topicId = Number(req.query.topicId);
-    if (!req.session.userId) return res.status(401).send();
-    
-    // Pick based on difficulty vs mastery
-    const topicMastery = await storage.getMastery(req.session.userId, topicId);
-    const currentScore = topicMastery?.score || 0;
-    
-    // Map score (0.0-1.0) to difficulty (1-5)
-    // 0.0 -> 1
-    // 0.5 -> 3
-    // 1.0 -> 5
-    const targetDifficulty = Math.max(1, Math.min(5, Math.floor(currentScore * 5) + 1));
-    
-    const allQuestions = await storage.getQuestionsByTopic(topicId);
-    if (allQuestions.length === 0) return res.status(404).json({ message: "No questions found" });
-    
-    // Filter by difficulty and pick random
-    let candidateQuestions = allQuestions.filter(q => q.difficulty === targetDifficulty);
-    if (candidateQuestions.length === 0) {
-      candidateQuestions = allQuestions; // Fallback
+  app.get(api.curriculum.getTree.path, authorize(api.curriculum.getTree), async (req, res) => {
+    try {
+      const input = api.curriculum.getTree.input.parse(req.query);
+      res.json(await buildCurriculumTree(input?.stage));
+    } catch (e) {
+      if (e instanceof z.ZodError) return sendValidationError(res, e);
+      throw e;
     }
-    
-    const randomQ = candidateQuestions[Math.floor(Math.random() * candidateQuestions.length)];
-    res.json(randomQ);
   });
 
-  app.post(api.learning.submitAnswer.path, async (req, res) => {
-    if (!req.session.userId) return res.status(401).send();
-    
-    const { questionId, answer, timeTaken } = req.body;
-    const question = await storage.getQuestion(questionId);
-    
+  app.get(api.learning.getNextQuestion.path, authorize(api.learning.getNextQuestion), async (req, res) => {
+    const limit = nextQuestionLimiter.hit(String(req.session.userId));
+    if (!limit.allowed) {
+      res.setHeader("Retry-After", String(limit.retryAfterSeconds));
+      return res.status(429).json({ message: "Slow down! Take your time with each question." });
+    }
+
+    try {
+      const { topicId } = api.learning.getNextQuestion.input.parse(req.query);
+
+      const [topic, topicMastery, candidates, history, skillScores] = await Promise.all([
+        storage.getTopic(topicId),
+        storage.getMastery(req.session.userId!, topicId),
+        storage.getQuestionsByTopic(topicId),
+        storage.getRecentAnswers(req.session.userId!, topicId),
+        storage.getSkillScores(req.session.userId!, topicId),
+      ]);
+      if (!topic) return res.status(404).json({ message: "Topic not found" });
+
+      // Within a topic that has skills, practise the weakest one. Untagged
+      // questions belong to the whole topic, so they fill in when that skill
+      // has too few of its own.
+      const targetSkill = pickWeakestSkill(skillScores, candidates);
+      let band = candidates;
+      let context: SelectionContext = { candidates, history, mastery: topicMastery?.score || 0 };
+      if (targetSkill) {
+        band = candidates.filter(q => q.skillId === targetSkill.skillId);
+        const skillHistory = history.filter(a => a.skillId === targetSkill.skillId);
+        context = isBankThin(band, skillHistory) ? {
+          candidates: [...band, ...candidates.filter(q => q.skillId === null)],
+          history: history.filter(a => a.skillId === targetSkill.skillId || !a.skillId),
+          mastery: targetSkill.score ?? 0,
+        } : { candidates: band, history: skillHistory, mastery: targetSkill.score ?? 0 };
+      }
+
+      // Top up a thin bank with a generated question at the right level,
+      // reusing one this student has not answered before storing a new one
+      if (hasGenerator(topic.slug) && isBankThin(context.candidates, context.history)) {
+        const skillId = targetSkill?.skillId ?? null;
+        const difficulty = withinBand(questionSelector.targetDifficulty(context), band);
+        const unanswered = await storage.getUnansweredGeneratedQuestion(req.session.userId!, topicId, skillId, difficulty);
+        if (unanswered) return res.json(await serveQuestion(req.session.userId!, unanswered));
+
+        const generated = generateQuestion(topic.slug, difficulty, randomInt(2 ** 31));
+        if (generated) {
+          // Tagged with the targeted skill so answers to it count towards that skill's mastery
+          const stored = await storage.createQuestion({ ...generated, topicId, skillId, generated: true });
+          return res.json(await serveQuestion(req.session.userId!, stored));
+        }
+      }
+
+      const question = questionSelector.selectQuestion(context);
+      if (!question) return res.status(404).json({ message: "No questions found" });
+      res.json(await serveQuestion(req.session.userId!, question));
+    } catch (e) {
+      if (e instanceof z.ZodError) return sendValidationError(res, e);
+      throw e;
+    }
+  });
+
+  app.get(api.learning.getQuizQuestion.path, authorize(api.learning.getQuizQuestion), async (req, res) => {
+    const parsed = api.learning.getQuizQuestion.input.safeParse(req.query);
+    if (!parsed.success) return sendValidationError(res, parsed.error);
+    const { assignmentId } = parsed.data;
+
+    const student = await storage.getUser(req.session.userId!);
+    const assignment = student
+      ? (await storage.getAssignmentsForStudent(student)).find(a => a.id === assignmentId && a.quizId)
+      : undefined;
+    if (!assignment) return res.status(404).json({ message: "Quiz not found" });
+
+    const question = await getNextQuizQuestion(assignment, req.session.userId!);
+    if (!question) return res.status(404).json({ message: "Quiz complete" });
+    res.json(await serveQuestion(req.session.userId!, question));
+  });
+
+  app.post(api.learning.submitAnswer.path, authorize(api.learning.submitAnswer), async (req, res) => {
+    const limit = answerLimiter.hit(String(req.session.userId));
+    if (!limit.allowed) {
+      res.setHeader("Retry-After", String(limit.retryAfterSeconds));
+      return res.status(429).json({ message: "Slow down! Take your time with each question." });
+    }
+
+    let input: z.infer<typeof api.learning.submitAnswer.input>;
+    try {
+      input = api.learning.submitAnswer.input.parse(req.body);
+    } catch (e) {
+      if (e instanceof z.ZodError) return sendValidationError(res, e);
+      throw e;
+    }
+
+    // Only questions this user was served, each answered once
+    const issue = await storage.redeemQuestionIssue(input.token, req.session.userId!);
+    if (!issue) {
+      return res.status(400).json({ message: "This question was not given to you or has already been answered", field: "token" });
+    }
+    const question = await storage.getQuestion(issue.questionId);
     if (!question) return res.status(404).json({ message: "Question not found" });
-    
-    const isCorrect = question.correctAnswer === answer;
+
+    const isCorrect = checkAnswer(question, input.answer);
+    // Measured by the server from when the question was served
+    const timeTaken = Math.round((Date.now() - issue.issuedAt.getTime()) / 1000);
     
     // Log event and update mastery
-    await storage.logLearningEvent(req.session.userId, questionId, isCorrect, timeTaken);
-    await storage.updateMastery(req.session.userId, question.topicId, isCorrect ? 1.0 : 0.0);
-    
-    // Get new mastery
-    const masteryRecord = await storage.getMastery(req.session.userId, question.topicId);
+    await storage.logLearningEvent(req.session.userId!, question.id, isCorrect, timeTaken);
+
+    const observation = { isCorrect, difficulty: question.difficulty ?? 1, timeTaken };
+    const params = await storage.getMasteryParams(question.topicId);
+    let newMastery: number;
+
+    const [previous, skillScores] = await Promise.all([
+      storage.getMastery(req.session.userId!, question.topicId),
+      storage.getSkillScores(req.session.userId!, question.topicId),
+    ]);
+    let untaggedScore = previous?.untaggedScore ?? undefined;
+
+    if (question.skillId) {
+      // Update the skill, then roll every skill in the topic back up
+      const previousSkill = skillScores.find(s => s.skillId === question.skillId)?.score;
+      const skillScore = masteryModel.update(previousSkill, observation, params);
+      await storage.saveSkillMastery(req.session.userId!, question.skillId, skillScore);
+      newMastery = rollUpSkillMastery(skillScores.map(s => s.skillId === question.skillId ? skillScore : s.score), untaggedScore);
+    } else if (skillScores.length > 0) {
+      // An untagged question in a topic with skills keeps its own estimate, rolled up alongside them
+      untaggedScore = masteryModel.update(untaggedScore, observation, params);
+      newMastery = rollUpSkillMastery(skillScores.map(s => s.score), untaggedScore);
+    } else {
+      newMastery = masteryModel.update(previous ? previous.score ?? 0 : undefined, observation, params);
+    }
+    await storage.saveMastery(req.session.userId!, question.topicId, newMastery, untaggedScore);
+
+    const student = await storage.getUser(req.session.userId!);
+    if (student?.role === "student") await recordAssignmentProgress(student, question);
     
     res.json({
       correct: isCorrect,
-      correctAnswer: question.correctAnswer,
+      correctAnswer: parseCorrectAnswer(question),
+      explanation: question.explanation,
       coinsEarned: isCorrect ? 10 : 0,
-      newMastery: masteryRecord?.score || 0,
+      newMastery,
       feedback: isCorrect ? "Great job!" : question.explanation || "Keep trying!",
     });
   });
 
+  // === TEACHER ===
+  app.get(api.teacher.getClasses.path, authorize(api.teacher.getClasses), async (req, res) => {
+    const teacherClasses = await storage.getClassesByTeacher(req.session.userId!);
+    res.json(teacherClasses.map(c => ({
+      id: c.id,
+      name: c.name,
+      code: c.code,
+      pictureGridSize: c.pictureGridSize,
+      picturePasswordLength: c.picturePasswordLength,
+      studentCount: c.studentCount,
+      pendingRequests: c.pendingRequests,
+    })));
+  });
+
+  app.post(api.teacher.createClass.path, authorize(api.teacher.createClass), async (req, res) => {
+    try {
+      const input = api.teacher.createClass.input.parse(req.body);
+      const code = await generateClassCode();
+      const newClass = await storage.createClass(input.name, req.session.userId!, code);
+      res.status(201).json({ id: newClass.id, code: newClass.code });
+    } catch (e) {
+      if (e instanceof z.ZodError) return sendValidationError(res, e);
+      throw e;
+    }
+  });
+
+  const ownsClassParam = requireClassOwnership(req => req.params.id);
+
+  app.post(api.teacher.regenerateCode.path, authorize(api.teacher.regenerateCode), ownsClassParam, async (req, res) => {
+    const updated = await storage.updateClassCode(Number(req.params.id), await generateClassCode());
+    res.json({ id: updated.id, code: updated.code });
+  });
+
+  app.put(api.teacher.updatePictureSettings.path, authorize(api.teacher.updatePictureSettings), ownsClassParam, async (req, res) => {
+    try {
+      const input = api.teacher.updatePictureSettings.input.parse(req.body);
+      const updated = await storage.updatePictureSettings(Number(req.params.id), input);
+      res.json({ id: updated.id, pictureGridSize: updated.pictureGridSize, picturePasswordLength: updated.picturePasswordLength });
+    } catch (e) {
+      if (e instanceof z.ZodError) return sendValidationError(res, e);
+      throw e;
+    }
+  });
+
+  const ownsQueriedClass = requireClassOwnership(req => req.query.classId);
+  app.get(api.teacher.getAnalytics.path, authorize(api.teacher.getAnalytics), ownsQueriedClass, async (req, res) => {
+    const parsed = api.teacher.getAnalytics.input.safeParse(req.query);
+    if (!parsed.success) return sendValidationError(res, parsed.error);
+    const input = parsed.data;
+
+    // Without a classId, report across every class this teacher owns
+    const classIds = input?.classId !== undefined
+      ? [input.classId]
+      : (await storage.getClassesByTeacher(req.session.userId!)).map(c => c.id);
+
+    const filters = { subjectId: input?.subjectId, from: input?.from, to: input?.to };
+    const results = await Promise.all(classIds.map(id => storage.getClassAnalytics(id, filters)));
+    res.json(results.flat().map(r => ({
+      ...r,
+      lastActive: r.lastActive ? r.lastActive.toISOString() : null,
+    })));
+  });
+
+  // === CLASS ROSTERS ===
+  app.get(api.roster.list.path, authorize(api.roster.list), ownsClassParam, async (req, res) => {
+    const students = await storage.getStudentsInClass(Number(req.params.id));
+    const guardianNames = await storage.getGuardianNames(students.map(s => s.id));
+    res.json(students.map(s => ({
+      id: s.id,
+      firstName: s.firstName,
+      username: s.username,
+      yearGroup: s.yearGroup,
+      guardians: guardianNames.get(s.id) ?? [],
+      lastLoginAt: s.lastLoginAt?.toISOString() ?? null,
+      lockedUntil: lockedForSeconds(s) > 0 ? s.lockedUntil!.toISOString() : null,
+    })));
+  });
+
+  app.get(api.roster.loginCards.path, authorize(api.roster.loginCards), ownsClassParam, async (req, res) => {
+    const students = await storage.getStudentsInClass(Number(req.params.id));
+    res.json(students.map(toLoginCard));
+  });
+
+  app.post(api.roster.addStudent.path, authorize(api.roster.addStudent), ownsClassParam, async (req, res) => {
+    try {
+      const input = api.roster.addStudent.input.parse(req.body);
+      const student = await createStudent(Number(req.params.id), input);
+      res.status(201).json(toLoginCard(student));
+    } catch (e) {
+      if (e instanceof z.ZodError) return sendValidationError(res, e);
+      throw e;
+    }
+  });
+
+  // All or nothing: a roster with any bad row adds nobody, so it can be fixed and re-uploaded
+  app.post(api.roster.import.path, authorize(api.roster.import), ownsClassParam, async (req, res) => {
+    try {
+      const input = api.roster.import.input.parse(req.body);
+      const { entries, errors } = parseRoster(input.data);
+      const dryRun = !!input.dryRun;
+      if (dryRun || errors.length) {
+        return res.json({ dryRun, count: errors.length ? 0 : entries.length, created: [], errors });
+      }
+
+      const created = (await createStudents(Number(req.params.id), entries)).map(toLoginCard);
+      res.json({ dryRun, count: created.length, created, errors });
+    } catch (e) {
+      if (e instanceof z.ZodError) return sendValidationError(res, e);
+      throw e;
+    }
+  });
+
+  // === JOINING A CLASS ===
+  // Students join by code themselves, or a parent does it for them; either way
+  // they only move into the class once its teacher approves
+  const parentOfChild = requireParentOf(req => req.params.id);
+
+  app.get(api.classJoin.status.path, authorize(api.classJoin.status), async (req, res) => {
+    const student = await storage.getUser(req.session.userId!);
+    res.json(await classMembership(student!));
+  });
+
+  app.post(api.classJoin.join.path, authorize(api.classJoin.join), async (req, res) => {
+    await joinClassByCode(req, res, req.session.userId!);
+  });
+
+  app.post(api.classJoin.joinForChild.path, authorize(api.classJoin.joinForChild), parentOfChild, async (req, res) => {
+    await joinClassByCode(req, res, Number(req.params.id));
+  });
+
+  app.get(api.classJoin.pending.path, authorize(api.classJoin.pending), ownsClassParam, async (req, res) => {
+    const pending = await storage.getPendingJoinRequests(Number(req.params.id));
+    res.json(pending.map(r => ({ ...r, createdAt: r.createdAt.toISOString() })));
+  });
+
+  app.post(api.classJoin.decide.path, authorize(api.classJoin.decide), ownsClassParam, async (req, res) => {
+    try {
+      const input = api.classJoin.decide.input.parse(req.body);
+      const request = await storage.getJoinRequest(Number(req.params.requestId));
+      if (!request || request.classId !== Number(req.params.id) || request.status !== "pending") {
+        return res.status(404).json({ message: "Join request not found" });
+      }
+
+      const decided = await storage.decideJoinRequest(request.id, input.approve);
+      res.json({ id: decided.id, status: decided.status });
+    } catch (e) {
+      if (e instanceof z.ZodError) return sendValidationError(res, e);
+      throw e;
+    }
+  });
+
+  // === ASSIGNMENTS ===
+  app.get(api.assignments.list.path, authorize(api.assignments.list), async (req, res) => {
+    const [teacherAssignments, allTopics, teacherClasses, teacherQuizzes] = await Promise.all([
+      storage.getAssignmentsByTeacher(req.session.userId!),
+      storage.getTopics(),
+      storage.getClassesByTeacher(req.session.userId!),
+      storage.getQuizzesByTeacher(req.session.userId!),
+    ]);
+    const topicNames = new Map(allTopics.map(t => [t.id, t.name]));
+    const quizNames = new Map(teacherQuizzes.map(q => [q.id, q.name]));
+    const classNames = new Map(teacherClasses.map(c => [c.id, c.name]));
+
+    const summaries = await Promise.all(teacherAssignments.map(async (a) => {
+      const [assigned, completedIds, student, targetQuestions] = await Promise.all([
+        getAssignedStudentIds(a),
+        storage.getCompletedStudentIds(a.id),
+        a.studentId ? storage.getUser(a.studentId) : Promise.resolve(undefined),
+        getTargetQuestions(a),
+      ]);
+      const completedCount = assigned.filter(id => completedIds.includes(id)).length;
+      const allDone = a.completed || (assigned.length > 0 && completedCount === assigned.length);
+
+      return {
+        id: a.id,
+        topicId: a.topicId,
+        quizId: a.quizId,
+        topic: assignmentName(a, topicNames, quizNames),
+        classId: a.classId,
+        studentId: a.studentId,
+        assignedTo: student?.firstName ?? classNames.get(a.classId ?? -1) ?? "Unknown",
+        dueDate: a.dueDate ? a.dueDate.toISOString() : null,
+        targetQuestions,
+        targetMastery: a.targetMastery ?? 0.8,
+        assignedCount: assigned.length,
+        completedCount,
+        status: getAssignmentStatus(a, allDone),
+      };
+    }));
+
+    res.json(summaries);
+  });
+
+  app.post(api.assignments.create.path, authorize(api.assignments.create), async (req, res) => {
+    try {
+      const input = api.assignments.create.input.parse(req.body);
+      if (!(await ownsAssignmentTarget(req.session.userId!, input))) {
+        return res.status(403).json({ message: "You can only assign work to your own classes" });
+      }
+      if (input.quizId) {
+        const quiz = await storage.getQuiz(input.quizId);
+        if (!quiz || quiz.teacherId !== req.session.userId) {
+          return res.status(403).json({ message: "You can only assign your own quizzes" });
+        }
+      }
+
+      const assignment = await storage.createAssignment({ ...input, teacherId: req.session.userId! });
+      res.status(201).json({ id: assignment.id });
+    } catch (e) {
+      if (e instanceof z.ZodError) return sendValidationError(res, e);
+      throw e;
+    }
+  });
+
+  app.patch(api.assignments.update.path, authorize(api.assignments.update), async (req, res) => {
+    const existing = await storage.getAssignment(Number(req.params.id));
+    if (!existing || existing.teacherId !== req.session.userId) {
+      return res.status(404).json({ message: "Assignment not found" });
+    }
+
+    try {
+      const input = api.assignments.update.input.parse(req.body);
+      if (input.topicId && existing.quizId) {
+        return res.status(400).json({ message: "A quiz assignment cannot be moved to a topic", field: "topicId" });
+      }
+      const updated = await storage.updateAssignment(existing.id, input);
+      res.json({ id: updated.id });
+    } catch (e) {
+      if (e instanceof z.ZodError) return sendValidationError(res, e);
+      throw e;
+    }
+  });
+
+  app.delete(api.assignments.delete.path, authorize(api.assignments.delete), async (req, res) => {
+    const existing = await storage.getAssignment(Number(req.params.id));
+    if (!existing || existing.teacherId !== req.session.userId) {
+      return res.status(404).json({ message: "Assignment not found" });
+    }
+
+    await storage.deleteAssignment(existing.id);
+    res.status(204).send();
+  });
+
+  app.get(api.assignments.mine.path, authorize(api.assignments.mine), async (req, res) => {
+    const student = await storage.getUser(req.session.userId!);
+    if (!student) return res.status(401).json({ message: "Please sign in" });
+
+    const [myAssignments, allTopics] = await Promise.all([
+      storage.getAssignmentsForStudent(student),
+      storage.getTopics(),
+    ]);
+    const topicNames = new Map(allTopics.map(t => [t.id, t.name]));
+    const quizNames = new Map<number, string>();
+    for (const a of myAssignments) {
+      if (a.quizId && !quizNames.has(a.quizId)) {
+        const quiz = await storage.getQuiz(a.quizId);
+        if (quiz) quizNames.set(quiz.id, quiz.name);
+      }
+    }
+
+    const summaries = await Promise.all(myAssignments.map(async (a) => {
+      const [completedIds, questionsAnswered, targetQuestions] = await Promise.all([
+        storage.getCompletedStudentIds(a.id),
+        getStudentProgress(a, student.id),
+        getTargetQuestions(a),
+      ]);
+      return {
+        id: a.id,
+        topicId: a.topicId,
+        quizId: a.quizId,
+        topic: assignmentName(a, topicNames, quizNames),
+        dueDate: a.dueDate ? a.dueDate.toISOString() : null,
+        targetQuestions,
+        questionsAnswered,
+        status: getAssignmentStatus(a, completedIds.includes(student.id)),
+      };
+    }));
+
+    res.json(summaries);
+  });
+
+  // === TEACHER QUESTIONS & QUIZZES ===
+  app.get(api.questions.list.path, authorize(api.questions.list), async (req, res) => {
+    res.json(await storage.getQuestionsByOwner(req.session.userId!));
+  });
+
+  app.post(api.questions.create.path, authorize(api.questions.create), async (req, res) => {
+    try {
+      const input = api.questions.create.input.parse(req.body);
+      const question = { ...input, ownerId: req.session.userId };
+      const ruleError = checkQuestionRules(question) ?? await checkSkillInTopic(question);
+      if (ruleError) return res.status(400).json(ruleError);
+
+      res.status(201).json(await storage.createQuestion(question));
+    } catch (e) {
+      if (e instanceof z.ZodError) return sendValidationError(res, e);
+      throw e;
+    }
+  });
+
+  app.patch(api.questions.update.path, authorize(api.questions.update), async (req, res) => {
+    const existing = await storage.getQuestion(Number(req.params.id));
+    if (!existing || existing.ownerId !== req.session.userId) {
+      return res.status(404).json({ message: "Question not found" });
+    }
+
+    try {
+      const input = api.questions.update.input.parse(req.body);
+      const updated = { ...existing, ...input };
+      const ruleError = checkQuestionRules(updated) ?? await checkSkillInTopic(updated);
+      if (ruleError) return res.status(400).json(ruleError);
+
+      res.json(await storage.updateQuestion(existing.id, input));
+    } catch (e) {
+      if (e instanceof z.ZodError) return sendValidationError(res, e);
+      throw e;
+    }
+  });
+
+  app.delete(api.questions.delete.path, authorize(api.questions.delete), async (req, res) => {
+    const existing = await storage.getQuestion(Number(req.params.id));
+    if (!existing || existing.ownerId !== req.session.userId) {
+      return res.status(404).json({ message: "Question not found" });
+    }
+
+    await storage.deleteQuestion(existing.id);
+    res.status(204).send();
+  });
+
+  app.get(api.quizzes.list.path, authorize(api.quizzes.list), async (req, res) => {
+    const teacherQuizzes = await storage.getQuizzesByTeacher(req.session.userId!);
+    res.json(await Promise.all(teacherQuizzes.map(async (quiz) => ({
+      id: quiz.id,
+      name: quiz.name,
+      questionIds: (await storage.getQuizQuestions(quiz.id)).map(q => q.id),
+      createdAt: quiz.createdAt ? quiz.createdAt.toISOString() : null,
+    }))));
+  });
+
+  app.post(api.quizzes.create.path, authorize(api.quizzes.create), async (req, res) => {
+    try {
+      const input = api.quizzes.create.input.parse(req.body);
+      if (!(await canUseInQuiz(req.session.userId!, input.questionIds))) {
+        return res.status(400).json({ message: "Quizzes can only use your own or shared questions", field: "questionIds" });
+      }
+
+      const quiz = await storage.createQuiz(req.session.userId!, input.name, input.questionIds);
+      res.status(201).json({ id: quiz.id });
+    } catch (e) {
+      if (e instanceof z.ZodError) return sendValidationError(res, e);
+      throw e;
+    }
+  });
+
+  app.patch(api.quizzes.update.path, authorize(api.quizzes.update), async (req, res) => {
+    const existing = await storage.getQuiz(Number(req.params.id));
+    if (!existing || existing.teacherId !== req.session.userId) {
+      return res.status(404).json({ message: "Quiz not found" });
+    }
+
+    try {
+      const input = api.quizzes.update.input.parse(req.body);
+      if (input.questionIds && !(await canUseInQuiz(req.session.userId, input.questionIds))) {
+        return res.status(400).json({ message: "Quizzes can only use your own or shared questions", field: "questionIds" });
+      }
+
+      const updated = await storage.updateQuiz(existing.id, input);
+      res.json({ id: updated.id });
+    } catch (e) {
+      if (e instanceof z.ZodError) return sendValidationError(res, e);
+      throw e;
+    }
+  });
+
+  app.delete(api.quizzes.delete.path, authorize(api.quizzes.delete), async (req, res) => {
+    const existing = await storage.getQuiz(Number(req.params.id));
+    if (!existing || existing.teacherId !== req.session.userId) {
+      return res.status(404).json({ message: "Quiz not found" });
+    }
+
+    const assigned = (await storage.getAssignmentsByTeacher(req.session.userId)).some(a => a.quizId === existing.id);
+    if (assigned) return res.status(400).json({ message: "Remove the assignments for this quiz first" });
+
+    await storage.deleteQuiz(existing.id);
+    res.status(204).send();
+  });
+
+  // === QUESTION BANK ===
+  app.post(api.questionBank.import.path, authorize(api.questionBank.import), async (req, res) => {
+    try {
+      const { format, data, dryRun } = api.questionBank.import.input.parse(req.body);
+      // Only an admin adds to the shared bank; a teacher's import becomes their own questions
+      const ownerId = req.session.role === "admin" ? null : req.session.userId!;
+      res.json(await importQuestionPack(format, data, ownerId, dryRun));
+    } catch (e) {
+      if (e instanceof z.ZodError) return sendValidationError(res, e);
+      throw e;
+    }
+  });
+
+  app.get(api.questionBank.export.path, authorize(api.questionBank.export), async (req, res) => {
+    try {
+      const { format, topic } = api.questionBank.export.input.parse(req.query);
+      const body = await exportQuestionBank(format, topic);
+      res.type(format === "csv" ? "text/csv" : "application/json")
+        .attachment(`questions${topic ? `-${topic}` : ""}.${format}`)
+        .send(body);
+    } catch (e) {
+      if (e instanceof z.ZodError) return sendValidationError(res, e);
+      throw e;
+    }
+  });
+
+  // === ADMIN ===
+  app.get(api.admin.getUsers.path, authorize(api.admin.getUsers), async (req, res) => {
+    const allUsers = await storage.getAllUsers();
+    res.json(allUsers.map(u => ({
+      id: u.id,
+      username: u.username,
+      firstName: u.firstName,
+      role: u.role,
+      classId: u.classId,
+      lastLoginAt: u.lastLoginAt?.toISOString() ?? null,
+    })));
+  });
+
+  app.put(api.admin.setMasteryParams.path, authorize(api.admin.setMasteryParams), async (req, res) => {
+    try {
+      const params = api.admin.setMasteryParams.input.parse(req.body);
+      const topic = await storage.getTopic(Number(req.params.id));
+      if (!topic) return res.status(404).json({ message: "Topic not found" });
+      await storage.saveMasteryParams(topic.id, params);
+      res.json(params);
+    } catch (e) {
+      if (e instanceof z.ZodError) return sendValidationError(res, e);
+      throw e;
+    }
+  });
+
+  // === PARENT ===
+  app.get(api.parent.getChildren.path, authorize(api.parent.getChildren), async (req, res) => {
+    const children = await storage.getChildren(req.session.userId!);
+    const weekStart = startOfWeek(new Date(), { weekStartsOn: 1 });
+    res.json(await Promise.all(children.map(child => summariseChild(child, weekStart))));
+  });
+
+  app.get(api.parent.getChild.path, authorize(api.parent.getChild), parentOfChild, async (req, res) => {
+    const child = await storage.getUser(Number(req.params.id));
+    res.json(await summariseChild(child!, startOfWeek(new Date(), { weekStartsOn: 1 })));
+  });
+
+  app.post(api.parent.linkChild.path, authorize(api.parent.linkChild), async (req, res) => {
+    const limit = linkLimiter.hit(String(req.session.userId));
+    if (!limit.allowed) {
+      res.setHeader("Retry-After", String(limit.retryAfterSeconds));
+      return res.status(429).json({ message: "Too many tries. Please check the code with the school." });
+    }
+
+    try {
+      const input = api.parent.linkChild.input.parse(req.body);
+      const used = await storage.redeemLinkCode(normaliseCode(input.code), req.session.userId!);
+      if (!used) {
+        return res.status(400).json({ message: "That code is not valid or has expired", field: "code" });
+      }
+
+      const child = await storage.getUser(used.studentId);
+      res.status(201).json({ id: child!.id, firstName: child!.firstName });
+    } catch (e) {
+      if (e instanceof z.ZodError) return sendValidationError(res, e);
+      throw e;
+    }
+  });
+
+  app.delete(api.parent.unlinkChild.path, authorize(api.parent.unlinkChild), parentOfChild, async (req, res) => {
+    await storage.removeGuardian(req.session.userId!, Number(req.params.id));
+    res.status(204).send();
+  });
+
+  // === STUDENT LOGIN RECOVERY ===
+  // A child who forgets their pictures is given new ones by their teacher or parent
+  const caresForStudent = requireTeacherOrParentOf(req => req.params.id);
+  app.post(api.students.resetPicturePassword.path, authorize(api.students.resetPicturePassword), caresForStudent, async (req, res) => {
+    const student = await resetPicturePassword(Number(req.params.id), req.session.userId!);
+    res.json(toLoginCard(student));
+  });
+
+  // === GUARDIAN LINK CODES ===
+  // Given to a parent on paper, so only someone the school trusts can link
+  const teachesStudent = requireTeacherOfStudent(req => req.params.id);
+  app.post(api.guardians.createLinkCode.path, authorize(api.guardians.createLinkCode), teachesStudent, async (req, res) => {
+    const expiresAt = new Date(Date.now() + LINK_CODE_DAYS * 24 * 60 * 60 * 1000);
+    const created = await storage.createLinkCode(
+      Number(req.params.id), req.session.userId!, generateLinkCode(), expiresAt,
+    );
+    res.status(201).json({
+      studentId: created.studentId,
+      code: created.code,
+      expiresAt: created.expiresAt.toISOString(),
+    });
+  });
+
   // === SEED DATA ===
+  await loadCurriculum();
   await seedDatabase();
 
+  const migrated = await storage.migratePlaintextPasswords();
+  if (migrated > 0) console.log(`[auth] hashed ${migrated} legacy plaintext password(s)`);
+  await ensureAdminAccount();
+  const relinked = await storage.migrateParentLinks();
+  if (relinked > 0) console.log(`[auth] moved ${relinked} legacy parent link(s) to guardians`);
+
   return httpServer;
 }
 
-async function seedDatabase() {
-  const existingUsers = await storage.getUserByUsername("student1");
-  if (existingUsers) return;
-
-  // Create Science Topics (subjectId: 1)
-  const scienceTopics = [
-    { name: "Electricity", slug: "electricity", stage: "KS2", subjectId: 1, description: "Circuits and conductors" },
-    { name: "Plants", slug: "plants", stage: "KS2", subjectId: 1, description: "Photosynthesis and growth" },
-    { name: "Space", slug: "space", stage: "KS2", subjectId: 1, description: "Planets and the solar system" },
-  ];
-
-  // Create Maths Topics (subjectId: 2)
-  const mathsTopics = [
-    { name: "Addition", slug: "addition", stage: "KS2", subjectId: 2, description: "Adding numbers together" },
-    { name: "Subtraction", slug: "subtraction", stage: "KS2", subjectId: 2, description: "Taking numbers away" },
-    { name: "Multiplication", slug: "multiplication", stage: "KS2", subjectId: 2, description: "Times tables and products" },
-    { name: "Division", slug: "division", stage: "KS2", subjectId: 2, description: "Sharing and grouping" },
-    { name: "Fractions", slug: "fractions", stage: "KS2", subjectId: 2, description: "Parts of a whole" },
-  ];
-  
-  const createdTopics = [];
-  for (const t of [...scienceTopics, ...mathsTopics]) {
-    const [topic] = await db.insert(topics).values(t).returning();
-    createdTopics.push(topic);
+// A question's skill has to be one of its topic's
+async function checkSkillInTopic(question: { topicId: number; skillId?: number | null }): Promise<{ field: string; message: string } | null> {
+  if (question.skillId === undefined || question.skillId === null) return null;
+  const topicSkills = await storage.getSkillsByTopic(question.topicId);
+  return topicSkills.some(s => s.id === question.skillId)
+    ? null
+    : { field: "skillId", message: "That skill is not part of this topic" };
+}
+
+function sendLoginThrottled(res: Response, seconds: number) {
+  res.setHeader("Retry-After", String(seconds));
+  return res.status(429).json({ message: `Too many wrong tries. Please wait ${formatWait(seconds)} and try again.` });
+}
+
+function sendAccountLocked(res: Response, user: User, seconds: number) {
+  res.setHeader("Retry-After", String(seconds));
+  const message = user.role === "student"
+    ? `Too many wrong tries. Try again in ${formatWait(seconds)}, or ask your teacher for new pictures.`
+    : `This account is locked after too many wrong passwords. Try again in ${formatWait(seconds)}, or reset your password.`;
+  return res.status(429).json({ message });
+}
+
+function formatWait(seconds: number): string {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? "" : "s"}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+}
+
+function sendValidationError(res: Response, e: z.ZodError) {
+  return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join(".") });
+}
+
+// Credentials, lockout state and sign-in addresses never leave the server
+function toPublicUser(user: User): PublicUser {
+  const { password, picturePassword, failedLogins, lockCount, lockedUntil, lastLoginIp, lastLoginUserAgent, ...rest } = user;
+  return rest;
+}
+
+const WEAKNESS_THRESHOLD = 0.5;
+const MIN_ANSWERS_FOR_WEAKNESS = 3;
+
+// A child's progress as their parent sees it
+async function summariseChild(child: User, weekStart: Date) {
+  const [topicMastery, recent, timeSpentThisWeek, membership] = await Promise.all([
+    storage.getMasteryByTopic(child.id),
+    storage.getRecentActivity(child.id),
+    storage.getTimeSpentSince(child.id, weekStart),
+    classMembership(child),
+  ]);
+
+  // Only call something a weakness once there is enough evidence for it
+  const strengths = topicMastery.filter(m => m.score >= MASTERY_THRESHOLD);
+  const weaknesses = topicMastery.filter(m => m.score < WEAKNESS_THRESHOLD && m.questionsAnswered >= MIN_ANSWERS_FOR_WEAKNESS);
+
+  return {
+    id: child.id,
+    firstName: child.firstName,
+    yearGroup: child.yearGroup,
+    ...membership,
+    coins: child.coins ?? 0,
+    masterySummary: topicMastery.map(m => ({ topic: m.topic, score: m.score })),
+    timeSpentThisWeek,
+    strengths: strengths.sort((a, b) => b.score - a.score).map(m => m.topic),
+    weaknesses: weaknesses.sort((a, b) => a.score - b.score).map(m => m.topic),
+    recentActivity: recent.map(a => ({
+      topic: a.topic,
+      correct: a.isCorrect,
+      timestamp: a.timestamp ? a.timestamp.toISOString() : null,
+    })),
+  };
+}
+
+// The class a student is in and their latest request to join one
+async function classMembership(student: User) {
+  const [cls, request] = await Promise.all([
+    student.classId ? storage.getClass(student.classId) : undefined,
+    storage.getLatestJoinRequest(student.id),
+  ]);
+  return {
+    className: cls?.name ?? null,
+    joinRequest: request ? serializeJoinRequest(request) : null,
+  };
+}
+
+function serializeJoinRequest(request: JoinRequestWithClass) {
+  return {
+    id: request.id,
+    classId: request.classId,
+    className: request.className,
+    status: request.status,
+    createdAt: request.createdAt.toISOString(),
+  };
+}
+
+async function joinClassByCode(req: Request, res: Response, studentId: number) {
+  const limit = joinLimiter.hit(String(req.session.userId));
+  if (!limit.allowed) {
+    res.setHeader("Retry-After", String(limit.retryAfterSeconds));
+    return res.status(429).json({ message: "Too many tries. Check the code with the teacher." });
+  }
+
+  try {
+    const input = api.classJoin.join.input.parse(req.body);
+    const cls = await storage.getClassByCode(normaliseCode(input.code));
+    if (!cls) return res.status(404).json({ message: "No class has that code" });
+
+    const student = await storage.getUser(studentId);
+    if (student?.classId === cls.id) {
+      return res.status(400).json({ message: "Already in this class", field: "code" });
+    }
+
+    const request = await storage.createJoinRequest(cls.id, studentId, req.session.userId!);
+    res.status(201).json(serializeJoinRequest({ ...request, className: cls.name }));
+  } catch (e) {
+    if (e instanceof z.ZodError) return sendValidationError(res, e);
+    throw e;
+  }
+}
+
+// A teacher may only target their own classes, or a student in one of them
+async function ownsAssignmentTarget(teacherId: number, target: { classId?: number | null; studentId?: number | null }) {
+  const ownedClassIds = (await storage.getClassesByTeacher(teacherId)).map(c => c.id);
+  if (target.classId) return ownedClassIds.includes(target.classId);
+  if (target.studentId) {
+    const student = await storage.getUser(target.studentId);
+    return !!student && student.role === "student" && !!student.classId && ownedClassIds.includes(student.classId);
+  }
+  return false;
+}
+
+// Answers and explanations stay on the server until the question is answered
+async function serveQuestion(userId: number, question: Question): Promise<ServedQuestion> {
+  const token = randomBytes(24).toString("base64url");
+  await storage.issueQuestion(userId, question.id, token);
+
+  // Ordering items are stored in the right order, so mix them before sending
+  const dragDrop = question.type === "drag_drop" ? dragDropConfigSchema.safeParse(question.config).data : undefined;
+  const config = dragDrop?.variant === "ordering" ? { ...dragDrop, items: shuffle(dragDrop.items) } : question.config;
+
+  return {
+    id: question.id,
+    topicId: question.topicId,
+    skillId: question.skillId,
+    content: question.content,
+    type: question.type,
+    difficulty: question.difficulty,
+    config,
+    options: (question.type ?? "multiple_choice") === "multiple_choice"
+      ? shuffle([question.correctAnswer, ...(question.distractors as string[])])
+      : [],
+    token,
+  };
+}
+
+// Fisher-Yates with a cryptographic source so the order cannot be predicted
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// Teachers build quizzes from their own questions and the shared authored bank
+async function canUseInQuiz(teacherId: number, questionIds: number[]): Promise<boolean> {
+  const found = await Promise.all(questionIds.map(id => storage.getQuestion(id)));
+  return found.every(q => !!q && !q.generated && (q.ownerId === null || q.ownerId === teacherId));
+}
+
+function assignmentName(assignment: Assignment, topicNames: Map<number, string>, quizNames: Map<number, string>): string {
+  if (assignment.quizId) return quizNames.get(assignment.quizId) ?? "Unknown quiz";
+  return topicNames.get(assignment.topicId ?? -1) ?? "Unknown topic";
+}
+
+// Unambiguous characters only (no 0/O, 1/I) so codes can be read aloud in class
+const CLASS_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CLASS_CODE_LENGTH = 6;
+
+// Link codes are longer, since each one grants access to a child's progress
+const LINK_CODE_LENGTH = 8;
+const LINK_CODE_DAYS = 14;
+
+function randomCode(length: number): string {
+  let code = "";
+  for (let i = 0; i < length; i++) {
+    code += CLASS_CODE_ALPHABET[randomInt(CLASS_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+// Codes are copied by hand, so spacing, dashes and case are forgiven
+function normaliseCode(code: string): string {
+  return code.replace(/[\s-]+/g, "").toUpperCase();
+}
+
+async function generateClassCode(): Promise<string> {
+  for (let attempt = 0; attempt < 10; attempt++) {
+    const code = randomCode(CLASS_CODE_LENGTH);
+    if (!(await storage.getClassByCode(code))) return code;
   }
+  throw new Error("Could not generate a unique class code");
+}
+
+// 32^8 possibilities, so a clash is vanishingly rare and the unique
+// constraint catches it
+function generateLinkCode(): string {
+  return randomCode(LINK_CODE_LENGTH);
+}
+
+// The baseline seeded "admin" with the password "admin", and signing in with
+// those let anyone in as any role. That password is replaced on startup, by
+// ADMIN_PASSWORD when set or else by a random one nobody knows, and the row's
+// sessions are ended. ADMIN_PASSWORD is also how a new database gets an admin.
+async function ensureAdminAccount() {
+  const password = process.env.ADMIN_PASSWORD;
+  const admin = await storage.getUserByUsername("admin");
+  if (!admin) {
+    if (!password) {
+      console.warn(`[auth] no "admin" account; set ADMIN_PASSWORD and restart to create one`);
+      return;
+    }
+    await storage.createUser({
+      username: "admin",
+      password,
+      role: "admin",
+      firstName: "Admin",
+      picturePassword: null,
+      avatarConfig: {},
+      classId: null,
+      yearGroup: null,
+    });
+    console.log(`[auth] created the "admin" account from ADMIN_PASSWORD`);
+    return;
+  }
+
+  // Self-registered passwords are at least 8 characters, so "admin" can only be the legacy row
+  const legacy = !admin.password || await verifyPassword("admin", admin.password);
+  if (!legacy) {
+    if (admin.role !== "admin") console.warn(`[auth] the "admin" username belongs to a ${admin.role} account`);
+    return;
+  }
+  await storage.updatePassword(admin.id, password || randomBytes(24).toString("base64url"));
+  await storage.updateRole(admin.id, "admin");
+  await storage.deleteSessionsForUser(admin.id);
+  console.warn(password
+    ? `[auth] replaced the legacy "admin" password with ADMIN_PASSWORD`
+    : `[auth] disabled the legacy "admin" password; set ADMIN_PASSWORD and restart to sign in as admin`);
+}
+
+// Demo logins, only for development. They share one random password, printed
+// here so a developer can sign in.
+async function seedDemoAccounts() {
+  if (await storage.getUserByUsername("student1")) return;
 
-  // Create Users
+  const password = randomBytes(9).toString("base64url");
   await storage.createUser({
-    username: "admin",
-    password: "admin",
+    username: "teacher1",
+    password,
     role: "teacher",
-    firstName: "Admin",
+    firstName: "Taylor",
     picturePassword: null,
     avatarConfig: {},
     classId: null,
-    parentId: null,
     yearGroup: null,
   });
 
-  await storage.createUser({
+  const parent = await storage.createUser({
+    username: "parent1",
+    password,
+    role: "parent",
+    firstName: "Sam",
+    picturePassword: null,
+    avatarConfig: {},
+    classId: null,
+    yearGroup: null,
+  });
+
+  const student = await storage.createUser({
     username: "student1",
     role: "student",
     firstName: "Alex",
     yearGroup: 5,
     picturePassword: null,
-    password: "admin",
+    password,
     avatarConfig: { color: "blue" },
     classId: null,
-    parentId: null,
   });
+  await storage.addGuardian(parent.id, student.id);
+  console.log(`[seed] demo accounts teacher1, parent1 and student1 have the password ${password}`);
+}
+
+async function seedDatabase() {
+  if (process.env.NODE_ENV === "development") await seedDemoAccounts();
+
+  // The starter questions go into an empty bank only
+  const [existingQuestion] = await db.select({ id: questions.id }).from(questions).limit(1);
+  if (existingQuestion) return;
+
+  // Topics come from the curriculum catalogue, loaded before seeding
+  const catalogueTopics = await storage.getTopics();
 
   // Create Science Questions
-  const electricity = createdTopics.find(t => t.slug === "electricity");
+  const electricity = catalogueTopics.find(t => t.slug === "electricity");
   if (electricity) {
     await db.insert(questions).values([
       {
@@ -270,11 +1329,21 @@ async function seedDatabase() {
         difficulty: 3,
         type: "multiple_choice",
         explanation: "A switch opens the circuit gap."
+      },
+      {
+        topicId: electricity.id,
+        content: "Sort these materials into conductors and insulators.",
+        correctAnswer: JSON.stringify({ Copper: "Conductor", Iron: "Conductor", Wood: "Insulator", Plastic: "Insulator" }),
+        distractors: [],
+        difficulty: 3,
+        type: "drag_drop",
+        config: { variant: "bucketing", items: ["Wood", "Copper", "Plastic", "Iron"], buckets: ["Conductor", "Insulator"] },
+        explanation: "Metals conduct electricity; wood and plastic do not."
       }
     ]);
   }
 
-  const space = createdTopics.find(t => t.slug === "space");
+  const space = catalogueTopics.find(t => t.slug === "space");
   if (space) {
     await db.insert(questions).values([
       {
@@ -294,11 +1363,21 @@ async function seedDatabase() {
         difficulty: 1,
         type: "multiple_choice",
         explanation: "There are 8 planets in our solar system."
+      },
+      {
+        topicId: space.id,
+        content: "Put these planets in order from the Sun.",
+        correctAnswer: JSON.stringify(["Mercury", "Venus", "Earth", "Mars"]),
+        distractors: [],
+        difficulty: 3,
+        type: "drag_drop",
+        config: { variant: "ordering", items: ["Earth", "Mercury", "Mars", "Venus"], prompt: "Closest to the Sun first" },
+        explanation: "Mercury, Venus, Earth, then Mars."
       }
     ]);
   }
 
-  const plants = createdTopics.find(t => t.slug === "plants");
+  const plants = catalogueTopics.find(t => t.slug === "plants");
   if (plants) {
     await db.insert(questions).values([
       {
@@ -314,7 +1393,7 @@ async function seedDatabase() {
   }
 
   // Create Maths Questions
-  const addition = createdTopics.find(t => t.slug === "addition");
+  const addition = catalogueTopics.find(t => t.slug === "addition");
   if (addition) {
     await db.insert(questions).values([
       { topicId: addition.id, content: "What is 5 + 3?", correctAnswer: "8", distractors: ["7", "9", "6"], difficulty: 1, type: "multiple_choice", explanation: "5 + 3 = 8" },
@@ -322,10 +1401,23 @@ async function seedDatabase() {
       { topicId: addition.id, content: "What is 25 + 16?", correctAnswer: "41", distractors: ["40", "42", "39"], difficulty: 3, type: "multiple_choice", explanation: "25 + 16 = 41" },
       { topicId: addition.id, content: "What is 48 + 27?", correctAnswer: "75", distractors: ["74", "76", "65"], difficulty: 4, type: "multiple_choice", explanation: "48 + 27 = 75" },
       { topicId: addition.id, content: "What is 156 + 89?", correctAnswer: "245", distractors: ["235", "255", "244"], difficulty: 5, type: "multiple_choice", explanation: "156 + 89 = 245" },
+      { topicId: addition.id, content: "Type the answer: 37 + 45", correctAnswer: "82", distractors: [], difficulty: 3, type: "numeric", explanation: "7 + 5 = 12, carry the 1: 30 + 40 + 10 = 80, so 82" },
+      { topicId: addition.id, content: "A pencil is 15 cm long. How long are two pencils end to end?", correctAnswer: "30", distractors: [], difficulty: 2, type: "numeric", config: { unit: "cm", acceptedUnits: ["centimetres", "centimeters"] }, explanation: "15 cm + 15 cm = 30 cm" },
     ]);
   }
 
-  const subtraction = createdTopics.find(t => t.slug === "subtraction");
+  if (addition) {
+    const [within20, carrying] = await db.insert(skills).values([
+      { topicId: addition.id, name: "Adding within 20", slug: "addition-within-20", sortOrder: 1 },
+      { topicId: addition.id, name: "Adding with carrying", slug: "addition-with-carrying", sortOrder: 2 },
+    ]).returning();
+    await db.update(questions).set({ skillId: within20.id })
+      .where(and(eq(questions.topicId, addition.id), lte(questions.difficulty, 2)));
+    await db.update(questions).set({ skillId: carrying.id })
+      .where(and(eq(questions.topicId, addition.id), gt(questions.difficulty, 2)));
+  }
+
+  const subtraction = catalogueTopics.find(t => t.slug === "subtraction");
   if (subtraction) {
     await db.insert(questions).values([
       { topicId: subtraction.id, content: "What is 9 - 4?", correctAnswer: "5", distractors: ["4", "6", "3"], difficulty: 1, type: "multiple_choice", explanation: "9 - 4 = 5" },
@@ -335,7 +1427,7 @@ async function seedDatabase() {
     ]);
   }
 
-  const multiplication = createdTopics.find(t => t.slug === "multiplication");
+  const multiplication = catalogueTopics.find(t => t.slug === "multiplication");
   if (multiplication) {
     await db.insert(questions).values([
       { topicId: multiplication.id, content: "What is 3 × 4?", correctAnswer: "12", distractors: ["11", "14", "10"], difficulty: 1, type: "multiple_choice", explanation: "3 × 4 = 12" },
@@ -345,7 +1437,7 @@ async function seedDatabase() {
     ]);
   }
 
-  const division = createdTopics.find(t => t.slug === "division");
+  const division = catalogueTopics.find(t => t.slug === "division");
   if (division) {
     await db.insert(questions).values([
       { topicId: division.id, content: "What is 10 ÷ 2?", correctAnswer: "5", distractors: ["4", "6", "8"], difficulty: 1, type: "multiple_choice", explanation: "10 ÷ 2 = 5" },
@@ -355,12 +1447,14 @@ async function seedDatabase() {
     ]);
   }
 
-  const fractions = createdTopics.find(t => t.slug === "fractions");
+  const fractions = catalogueTopics.find(t => t.slug === "fractions");
   if (fractions) {
     await db.insert(questions).values([
       { topicId: fractions.id, content: "What is half of 10?", correctAnswer: "5", distractors: ["4", "6", "2"], difficulty: 1, type: "multiple_choice", explanation: "Half of 10 is 5" },
       { topicId: fractions.id, content: "What is 1/4 of 20?", correctAnswer: "5", distractors: ["4", "10", "15"], difficulty: 2, type: "multiple_choice", explanation: "1/4 of 20 is 5" },
       { topicId: fractions.id, content: "What is 3/4 of 100?", correctAnswer: "75", distractors: ["50", "25", "80"], difficulty: 3, type: "multiple_choice", explanation: "3/4 of 100 is 75" },
+      { topicId: fractions.id, content: "Type the answer: 1/4 + 1/4", correctAnswer: "1/2", distractors: [], difficulty: 3, type: "numeric", explanation: "Two quarters make a half (2/4 = 1/2 = 0.5)" },
+      { topicId: fractions.id, content: "Type the answer: 3 ÷ 4 as a decimal", correctAnswer: "0.75", distractors: [], difficulty: 4, type: "numeric", explanation: "3/4 = 0.75" },
     ]);
   }
 }
@@ -0,0 +1,95 @@
+import type { Express, Request, RequestHandler } from "express";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import { pool } from "./db";
+import type { User, Role } from "@shared/schema";
+
+// === SESSIONS ===
+// Sessions are kept in Postgres so they survive restarts and can be shared by
+// several instances. Configured from the environment:
+//   SESSION_SECRET         signs the cookie; required in production
+//   SESSION_IDLE_MINUTES   signed out after this long without a request (default 120)
+//   SESSION_MAX_HOURS      signed out this long after logging in, however active (default 168)
+//   TRUST_PROXY            "true" behind a TLS-terminating proxy; on by default in production
+
+declare module "express-session" {
+  interface SessionData {
+    userId: number;
+    role: Role;
+    loggedInAt: number; // ms since epoch, for the absolute lifetime
+  }
+}
+
+const DEV_SECRET = "edukid-dev-secret";
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function setupSessions(app: Express) {
+  const production = process.env.NODE_ENV === "production";
+
+  const secret = process.env.SESSION_SECRET;
+  if (!secret && production) {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  if (!secret) console.warn("[auth] SESSION_SECRET is not set; using a development secret");
+
+  // Secure cookies are only sent over HTTPS, which a proxy terminates for us
+  const trustProxy = process.env.TRUST_PROXY ? process.env.TRUST_PROXY === "true" : production;
+  if (trustProxy) app.set("trust proxy", 1);
+
+  const idleMs = numberFromEnv("SESSION_IDLE_MINUTES", 120) * 60 * 1000;
+  const maxMs = numberFromEnv("SESSION_MAX_HOURS", 24 * 7) * 60 * 60 * 1000;
+
+  const PgStore = connectPg(session);
+  app.use(
+    session({
+      secret: secret || DEV_SECRET,
+      resave: false,
+      saveUninitialized: false,
+      rolling: true, // Each request pushes the idle expiry back
+      store: new PgStore({ pool, tableName: "session" }),
+      cookie: {
+        httpOnly: true,
+        secure: trustProxy,
+        sameSite: "lax",
+        maxAge: idleMs,
+      },
+    })
+  );
+
+  app.use(enforceMaxAge(maxMs));
+}
+
+// Ends sessions that have outlived the absolute lifetime, even if in use
+function enforceMaxAge(maxMs: number): RequestHandler {
+  return (req, _res, next) => {
+    const { userId, loggedInAt } = req.session;
+    if (userId && (!loggedInAt || Date.now() - loggedInAt > maxMs)) {
+      return req.session.regenerate(next);
+    }
+    next();
+  };
+}
+
+// Starts a fresh session for a user who has just proved who they are; the
+// session id changes so one set before login cannot be reused
+export function beginSession(req: Request, user: Pick<User, "id" | "role">): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((err) => {
+      if (err) return reject(err);
+      req.session.userId = user.id;
+      req.session.role = user.role;
+      req.session.loggedInAt = Date.now();
+      resolve();
+    });
+  });
+}
+
+export function endSession(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.destroy((err) => (err ? reject(err) : resolve()));
+  });
+}
@@ -1,34 +1,185 @@
 
 import { db } from "./db";
 import {
-  users, questions, mastery, classes, topics, learningEvents, assignments,
-  type User, type InsertUser, type Question, type Topic, type Mastery
+  users, questions, mastery, masteryParams, skills, skillMastery, classes, topics, learningEvents, assignments, assignmentCompletions,
+  quizzes, quizQuestions, questionIssues, subjects, curriculumStatements, sessions, classJoinRequests,
+  guardians, guardianLinkCodes, accountTokens, credentialResets,
+  type User, type InsertUser, type Question, type Topic, type Mastery, type Class,
+  type Assignment, type InsertAssignment, type Skill, type InsertQuestion, type Quiz,
+  type QuestionIssue, type Subject, type InsertSubject, type InsertTopic, type CurriculumStatement,
+  type ClassJoinRequest, type GuardianLinkCode, type AccountToken, type AccountTokenPurpose,
+  type CredentialReset
 } from "@shared/schema";
-import { eq, and, sql } from "drizzle-orm";
+import { eq, and, or, sql, gte, lt, desc, inArray, isNotNull, isNull, type SQL } from "drizzle-orm";
+import { hashPassword, isPasswordHash } from "./password";
+import type { AnswerRecord } from "./adaptive-engine";
+import type { BktParams } from "./mastery-model";
+
+export type ClassWithCount = Class & { studentCount: number; pendingRequests: number };
+
+// When wrong sign-ins lock an account, and for how long
+export interface LockoutPolicy {
+  lockAfter: number; // Wrong attempts in a row
+  lockMinutes: number; // The first lockout; each later one doubles
+  maxLockMinutes: number;
+}
+
+// A successful sign-in or new credentials clear any lockout
+const UNLOCKED = { failedLogins: 0, lockCount: 0, lockedUntil: null };
+
+// A join request as the teacher reviews it
+export interface PendingJoinRequest {
+  id: number;
+  studentId: number;
+  firstName: string;
+  yearGroup: number | null;
+  viaParent: boolean;
+  createdAt: Date;
+}
+
+export type JoinRequestWithClass = ClassJoinRequest & { className: string };
+
+// Topics at or above this mastery score count as completed
+export const MASTERY_THRESHOLD = 0.8;
+
+export interface AnalyticsFilters {
+  subjectId?: number;
+  from?: Date;
+  to?: Date;
+}
+
+export interface TopicMastery {
+  topicId: number;
+  topic: string;
+  score: number;
+  questionsAnswered: number;
+}
+
+export interface SkillScore {
+  skillId: number;
+  name: string;
+  sortOrder: number;
+  score: number | undefined; // Undefined until the skill has been practised
+}
+
+export interface ActivityEntry {
+  topic: string;
+  isCorrect: boolean;
+  timeTaken: number;
+  timestamp: Date | null;
+}
+
+export interface StudentAnalytics {
+  studentId: number;
+  name: string;
+  averageMastery: number;
+  topicsCompleted: number;
+  accuracy: number;
+  totalQuestions: number;
+  timeSpent: number;
+  lastActive: Date | null;
+}
 
 export interface IStorage {
   // User & Auth
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  createUsers(list: InsertUser[]): Promise<User[]>;
+  getAllUsers(): Promise<User[]>;
+  updatePassword(userId: number, password: string): Promise<void>;
+  updateRole(userId: number, role: User["role"]): Promise<void>;
+  updatePicturePassword(userId: number, picturePassword: string[]): Promise<User>;
+  recordCredentialReset(userId: number, resetBy: number, kind: CredentialReset["kind"]): Promise<void>;
+  recordFailedLogin(userId: number, policy: LockoutPolicy, now: Date): Promise<User>;
+  recordLogin(userId: number, from: { ip: string | null; userAgent: string | null }, at: Date): Promise<void>;
+  migratePlaintextPasswords(): Promise<number>;
+  deleteSessionsForUser(userId: number): Promise<number>;
+  markEmailVerified(userId: number): Promise<void>;
+  createAccountToken(userId: number, purpose: AccountTokenPurpose, tokenHash: string, expiresAt: Date): Promise<void>;
+  redeemAccountToken(tokenHash: string, purpose: AccountTokenPurpose): Promise<AccountToken | undefined>;
   
   // Learning Content
+  getSubjects(): Promise<Subject[]>;
+  upsertSubject(subject: InsertSubject): Promise<Subject>;
   getTopics(stage?: string): Promise<Topic[]>;
+  upsertTopic(topic: InsertTopic): Promise<Topic>;
+  getCurriculumStatements(): Promise<CurriculumStatement[]>;
+  upsertCurriculumStatement(statement: Omit<CurriculumStatement, "id">): Promise<void>;
   getQuestion(id: number): Promise<Question | undefined>;
+  getTopic(id: number): Promise<Topic | undefined>;
   getQuestionsByTopic(topicId: number, limit?: number): Promise<Question[]>;
+  getUnansweredGeneratedQuestion(userId: number, topicId: number, skillId: number | null, difficulty: number): Promise<Question | undefined>;
+  createQuestion(question: InsertQuestion): Promise<Question>;
+  createQuestions(questions: InsertQuestion[]): Promise<void>;
+  getQuestionsByOwner(ownerId: number): Promise<Question[]>;
+  updateQuestion(id: number, updates: Partial<InsertQuestion>): Promise<Question>;
+  deleteQuestion(id: number): Promise<void>;
+
+  // Quizzes
+  getQuiz(id: number): Promise<Quiz | undefined>;
+  getQuizzesByTeacher(teacherId: number): Promise<Quiz[]>;
+  getQuizQuestions(quizId: number): Promise<Question[]>;
+  createQuiz(teacherId: number, name: string, questionIds: number[]): Promise<Quiz>;
+  updateQuiz(id: number, updates: { name?: string; questionIds?: number[] }): Promise<Quiz>;
+  deleteQuiz(id: number): Promise<void>;
   
   // Progress & Mastery
   getMastery(userId: number, topicId: number): Promise<Mastery | undefined>;
-  updateMastery(userId: number, topicId: number, score: number): Promise<void>;
+  saveMastery(userId: number, topicId: number, score: number, untaggedScore?: number): Promise<void>;
+  getMasteryParams(topicId: number): Promise<BktParams | undefined>;
+  saveMasteryParams(topicId: number, params: BktParams): Promise<void>;
+  getSkillsByTopic(topicId: number): Promise<Skill[]>;
+  getSkillScores(userId: number, topicId: number): Promise<SkillScore[]>;
+  saveSkillMastery(userId: number, skillId: number, score: number): Promise<void>;
+  issueQuestion(userId: number, questionId: number, token: string): Promise<QuestionIssue>;
+  redeemQuestionIssue(token: string, userId: number): Promise<QuestionIssue | undefined>;
   logLearningEvent(userId: number, questionId: number, isCorrect: boolean, timeTaken: number): Promise<void>;
+  getMasteryByTopic(userId: number): Promise<TopicMastery[]>;
+  getRecentAnswers(userId: number, topicId: number, limit?: number): Promise<AnswerRecord[]>;
+  getRecentActivity(userId: number, limit?: number): Promise<ActivityEntry[]>;
+  getTimeSpentSince(userId: number, since: Date): Promise<number>;
   
   // Teacher
-  getClassesByTeacher(teacherId: number): Promise<any[]>;
-  createClass(name: string, teacherId: number, code: string): Promise<any>;
-  getClassAnalytics(classId: number): Promise<any[]>;
+  getClass(id: number): Promise<Class | undefined>;
+  getClassByCode(code: string): Promise<Class | undefined>;
+  getClassesByTeacher(teacherId: number): Promise<ClassWithCount[]>;
+  createClass(name: string, teacherId: number, code: string): Promise<Class>;
+  updateClassCode(classId: number, code: string): Promise<Class>;
+  updatePictureSettings(classId: number, settings: Pick<Class, "pictureGridSize" | "picturePasswordLength">): Promise<Class>;
+  getClassAnalytics(classId: number, filters?: AnalyticsFilters): Promise<StudentAnalytics[]>;
+
+  getStudentsInClass(classId: number): Promise<User[]>;
+
+  // Joining a class by code
+  createJoinRequest(classId: number, studentId: number, requestedBy: number): Promise<ClassJoinRequest>;
+  getJoinRequest(id: number): Promise<ClassJoinRequest | undefined>;
+  getLatestJoinRequest(studentId: number): Promise<JoinRequestWithClass | undefined>;
+  getPendingJoinRequests(classId: number): Promise<PendingJoinRequest[]>;
+  decideJoinRequest(id: number, approve: boolean): Promise<ClassJoinRequest>;
+
+  // Assignments
+  getAssignment(id: number): Promise<Assignment | undefined>;
+  getAssignmentsByTeacher(teacherId: number): Promise<Assignment[]>;
+  getAssignmentsForStudent(student: User): Promise<Assignment[]>;
+  createAssignment(assignment: InsertAssignment): Promise<Assignment>;
+  updateAssignment(id: number, updates: Partial<InsertAssignment> & { completed?: boolean }): Promise<Assignment>;
+  deleteAssignment(id: number): Promise<void>;
+  getCompletedStudentIds(assignmentId: number): Promise<number[]>;
+  completeAssignment(assignmentId: number, studentId: number): Promise<void>;
+  countTopicAnswersSince(userId: number, topicId: number, since: Date): Promise<number>;
+  getAnsweredQuestionIds(userId: number, questionIds: number[], since: Date): Promise<number[]>;
 
   // Parent
   getChildren(parentId: number): Promise<User[]>;
+  isGuardianOf(parentId: number, studentId: number): Promise<boolean>;
+  addGuardian(parentId: number, studentId: number): Promise<void>;
+  removeGuardian(parentId: number, studentId: number): Promise<void>;
+  getGuardianNames(studentIds: number[]): Promise<Map<number, string[]>>;
+  createLinkCode(studentId: number, createdBy: number, code: string, expiresAt: Date): Promise<GuardianLinkCode>;
+  redeemLinkCode(code: string, parentId: number): Promise<GuardianLinkCode | undefined>;
+  migrateParentLinks(): Promise<number>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -42,27 +193,281 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.email, email.toLowerCase()));
+    return user;
+  }
+
   async createUser(user: InsertUser): Promise<User> {
-    const [newUser] = await db.insert(users).values(user).returning();
+    // Passwords are always hashed here so no caller can store plaintext, even
+    // one that looks like a stored hash
+    const password = user.password ? await hashPassword(user.password) : user.password;
+    const email = user.email?.toLowerCase();
+    const [newUser] = await db.insert(users).values({ ...user, password, email }).returning();
     return newUser;
   }
 
+  async createUsers(list: InsertUser[]): Promise<User[]> {
+    return await db.transaction(async (tx) => {
+      const created: User[] = [];
+      for (const user of list) {
+        const password = user.password ? await hashPassword(user.password) : user.password;
+        const email = user.email?.toLowerCase();
+        const [newUser] = await tx.insert(users).values({ ...user, password, email }).returning();
+        created.push(newUser);
+      }
+      return created;
+    });
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(users.role, users.username);
+  }
+
+  async updatePassword(userId: number, password: string): Promise<void> {
+    await db.update(users)
+      .set({ password: await hashPassword(password), ...UNLOCKED })
+      .where(eq(users.id, userId));
+  }
+
+  async updateRole(userId: number, role: User["role"]): Promise<void> {
+    await db.update(users).set({ role }).where(eq(users.id, userId));
+  }
+
+  async updatePicturePassword(userId: number, picturePassword: string[]): Promise<User> {
+    // New pictures also lift any lockout from guessing the old ones
+    const [updated] = await db.update(users).set({ picturePassword, ...UNLOCKED }).where(eq(users.id, userId)).returning();
+    return updated;
+  }
+
+  async recordCredentialReset(userId: number, resetBy: number, kind: CredentialReset["kind"]): Promise<void> {
+    await db.insert(credentialResets).values({ userId, resetBy, kind });
+  }
+
+  // Counts one wrong attempt in a single statement, so simultaneous guesses
+  // cannot slip past the limit. Reaching the limit locks the account, for
+  // twice as long as the previous lockout, and starts the count again.
+  async recordFailedLogin(userId: number, policy: LockoutPolicy, now: Date): Promise<User> {
+    const locks = sql`${users.failedLogins} + 1 >= ${policy.lockAfter}`;
+    const minutes = sql`LEAST(${policy.lockMinutes} * power(2, ${users.lockCount}), ${policy.maxLockMinutes})::int`;
+    const [updated] = await db.update(users).set({
+      failedLogins: sql`CASE WHEN ${locks} THEN 0 ELSE ${users.failedLogins} + 1 END`,
+      lockCount: sql`CASE WHEN ${locks} THEN ${users.lockCount} + 1 ELSE ${users.lockCount} END`,
+      lockedUntil: sql`CASE WHEN ${locks} THEN ${now.toISOString()}::timestamp + make_interval(mins => ${minutes}) ELSE ${users.lockedUntil} END`,
+    }).where(eq(users.id, userId)).returning();
+    return updated;
+  }
+
+  async recordLogin(userId: number, from: { ip: string | null; userAgent: string | null }, at: Date): Promise<void> {
+    await db.update(users).set({
+      ...UNLOCKED,
+      lastLoginAt: at,
+      lastLoginIp: from.ip,
+      lastLoginUserAgent: from.userAgent,
+    }).where(eq(users.id, userId));
+  }
+
+  // One-off upgrade for rows written before passwords were hashed
+  async migratePlaintextPasswords(): Promise<number> {
+    // Checked in full rather than by prefix, so a malformed "scrypt$..." value
+    // is re-hashed too and can no longer be used to sign in with anything
+    const rows = await db.select({ id: users.id, password: users.password }).from(users)
+      .where(isNotNull(users.password));
+    const legacy = rows.filter(row => !isPasswordHash(row.password!));
+
+    for (const row of legacy) {
+      await this.updatePassword(row.id, row.password!);
+    }
+    return legacy.length;
+  }
+
+  // Signs a user out everywhere by removing their rows from the session store
+  async deleteSessionsForUser(userId: number): Promise<number> {
+    const deleted = await db.delete(sessions)
+      .where(sql`(${sessions.sess} ->> 'userId')::int = ${userId}`)
+      .returning({ sid: sessions.sid });
+    return deleted.length;
+  }
+
+  async markEmailVerified(userId: number): Promise<void> {
+    await db.update(users).set({ emailVerifiedAt: new Date() }).where(eq(users.id, userId));
+  }
+
+  // Replaces the user's unused tokens for the same purpose, so only the most
+  // recent email's link works
+  async createAccountToken(userId: number, purpose: AccountTokenPurpose, tokenHash: string, expiresAt: Date): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(accountTokens).where(and(
+        eq(accountTokens.userId, userId),
+        eq(accountTokens.purpose, purpose),
+        isNull(accountTokens.usedAt),
+      ));
+      await tx.insert(accountTokens).values({ userId, purpose, tokenHash, expiresAt });
+    });
+  }
+
+  // Uses the token up in the same statement that checks it, like question tokens
+  async redeemAccountToken(tokenHash: string, purpose: AccountTokenPurpose): Promise<AccountToken | undefined> {
+    const [token] = await db.update(accountTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(accountTokens.tokenHash, tokenHash),
+        eq(accountTokens.purpose, purpose),
+        isNull(accountTokens.usedAt),
+        gte(accountTokens.expiresAt, new Date()),
+      ))
+      .returning();
+    return token;
+  }
+
+  async getSubjects(): Promise<Subject[]> {
+    return await db.select().from(subjects).orderBy(subjects.id);
+  }
+
+  async upsertSubject(subject: InsertSubject): Promise<Subject> {
+    const { slug, ...fields } = subject;
+    const [s] = await db.insert(subjects)
+      .values(subject)
+      .onConflictDoUpdate({ target: subjects.slug, set: fields })
+      .returning();
+    return s;
+  }
+
   async getTopics(stage?: string): Promise<Topic[]> {
     if (stage) {
-      return await db.select().from(topics).where(eq(topics.stage, stage));
+      return await db.select().from(topics).where(eq(topics.stage, stage as Topic["stage"]));
     }
     return await db.select().from(topics);
   }
 
+  // Topics are keyed by slug so reloading the catalogue keeps their ids, and
+  // with them questions, mastery and assignments
+  async upsertTopic(topic: InsertTopic): Promise<Topic> {
+    const { slug, ...fields } = topic;
+    const [t] = await db.insert(topics)
+      .values(topic)
+      .onConflictDoUpdate({ target: topics.slug, set: fields })
+      .returning();
+    return t;
+  }
+
+  async getCurriculumStatements(): Promise<CurriculumStatement[]> {
+    return await db.select().from(curriculumStatements).orderBy(curriculumStatements.id);
+  }
+
+  async upsertCurriculumStatement(statement: Omit<CurriculumStatement, "id">): Promise<void> {
+    const { code, ...fields } = statement;
+    await db.insert(curriculumStatements)
+      .values(statement)
+      .onConflictDoUpdate({ target: curriculumStatements.code, set: fields });
+  }
+
   async getQuestion(id: number): Promise<Question | undefined> {
     const [q] = await db.select().from(questions).where(eq(questions.id, id));
     return q;
   }
 
-  async getQuestionsByTopic(topicId: number, limit: number = 10): Promise<Question[]> {
+  async getTopic(id: number): Promise<Topic | undefined> {
+    const [t] = await db.select().from(topics).where(eq(topics.id, id));
+    return t;
+  }
+
+  // The shared authored bank only; generated questions are served once and kept for
+  // history, and teachers' private questions are only played through their quizzes
+  async getQuestionsByTopic(topicId: number, limit?: number): Promise<Question[]> {
+    const query = db.select().from(questions)
+      .where(and(eq(questions.topicId, topicId), eq(questions.generated, false), isNull(questions.ownerId)))
+      .orderBy(questions.id);
+    return limit ? await query.limit(limit) : await query;
+  }
+
+  // A generated question at this level the user has never answered, so asking
+  // again reuses it rather than storing another
+  async getUnansweredGeneratedQuestion(userId: number, topicId: number, skillId: number | null, difficulty: number): Promise<Question | undefined> {
+    const [q] = await db.select({ question: questions }).from(questions)
+      .leftJoin(learningEvents, and(eq(learningEvents.questionId, questions.id), eq(learningEvents.userId, userId)))
+      .where(and(
+        eq(questions.topicId, topicId),
+        eq(questions.generated, true),
+        skillId === null ? isNull(questions.skillId) : eq(questions.skillId, skillId),
+        eq(questions.difficulty, difficulty),
+        isNull(learningEvents.id),
+      ))
+      .orderBy(questions.id)
+      .limit(1);
+    return q?.question;
+  }
+
+  async createQuestion(question: InsertQuestion): Promise<Question> {
+    const [q] = await db.insert(questions).values(question).returning();
+    return q;
+  }
+
+  async createQuestions(list: InsertQuestion[]): Promise<void> {
+    if (list.length === 0) return;
+    await db.insert(questions).values(list);
+  }
+
+  async getQuestionsByOwner(ownerId: number): Promise<Question[]> {
     return await db.select().from(questions)
-      .where(eq(questions.topicId, topicId))
-      .limit(limit);
+      .where(eq(questions.ownerId, ownerId))
+      .orderBy(questions.topicId, questions.id);
+  }
+
+  async updateQuestion(id: number, updates: Partial<InsertQuestion>): Promise<Question> {
+    const [q] = await db.update(questions).set(updates).where(eq(questions.id, id)).returning();
+    return q;
+  }
+
+  // Answers already given keep their learning events; the question just leaves any quiz
+  async deleteQuestion(id: number): Promise<void> {
+    await db.delete(quizQuestions).where(eq(quizQuestions.questionId, id));
+    await db.delete(questions).where(eq(questions.id, id));
+  }
+
+  async getQuiz(id: number): Promise<Quiz | undefined> {
+    const [quiz] = await db.select().from(quizzes).where(eq(quizzes.id, id));
+    return quiz;
+  }
+
+  async getQuizzesByTeacher(teacherId: number): Promise<Quiz[]> {
+    return await db.select().from(quizzes)
+      .where(eq(quizzes.teacherId, teacherId))
+      .orderBy(desc(quizzes.createdAt));
+  }
+
+  async getQuizQuestions(quizId: number): Promise<Question[]> {
+    const rows = await db.select({ question: questions })
+      .from(quizQuestions)
+      .innerJoin(questions, eq(quizQuestions.questionId, questions.id))
+      .where(eq(quizQuestions.quizId, quizId))
+      .orderBy(quizQuestions.position);
+    return rows.map(r => r.question);
+  }
+
+  async createQuiz(teacherId: number, name: string, questionIds: number[]): Promise<Quiz> {
+    const [quiz] = await db.insert(quizzes).values({ teacherId, name }).returning();
+    await this.setQuizQuestions(quiz.id, questionIds);
+    return quiz;
+  }
+
+  async updateQuiz(id: number, updates: { name?: string; questionIds?: number[] }): Promise<Quiz> {
+    if (updates.questionIds) await this.setQuizQuestions(id, updates.questionIds);
+    if (updates.name === undefined) return (await this.getQuiz(id))!;
+    const [quiz] = await db.update(quizzes).set({ name: updates.name }).where(eq(quizzes.id, id)).returning();
+    return quiz;
+  }
+
+  async deleteQuiz(id: number): Promise<void> {
+    await db.delete(quizQuestions).where(eq(quizQuestions.quizId, id));
+    await db.delete(quizzes).where(eq(quizzes.id, id));
+  }
+
+  // Replaces the quiz contents; the order given is the order played
+  private async setQuizQuestions(quizId: number, questionIds: number[]): Promise<void> {
+    await db.delete(quizQuestions).where(eq(quizQuestions.quizId, quizId));
+    if (questionIds.length === 0) return;
+    await db.insert(quizQuestions).values(questionIds.map((questionId, position) => ({ quizId, questionId, position })));
   }
 
   async getMastery(userId: number, topicId: number): Promise<Mastery | undefined> {
@@ -71,12 +476,14 @@ export class DatabaseStorage implements IStorage {
     return m;
   }
 
-  async updateMastery(userId: number, topicId: number, score: number): Promise<void> {
+  // Stores a score already computed by the mastery model
+  async saveMastery(userId: number, topicId: number, score: number, untaggedScore?: number): Promise<void> {
     const existing = await this.getMastery(userId, topicId);
     if (existing) {
       await db.update(mastery)
         .set({ 
-          score: sql`${mastery.score} * 0.9 + ${score} * 0.1`, // Simple weighted moving average
+          score,
+          untaggedScore,
           questionsAnswered: sql`${mastery.questionsAnswered} + 1`,
           lastPracticed: new Date()
         })
@@ -86,12 +493,76 @@ export class DatabaseStorage implements IStorage {
         userId,
         topicId,
         score,
+        untaggedScore,
         questionsAnswered: 1,
         lastPracticed: new Date()
       });
     }
   }
 
+  async getSkillsByTopic(topicId: number): Promise<Skill[]> {
+    return await db.select().from(skills)
+      .where(eq(skills.topicId, topicId))
+      .orderBy(skills.sortOrder, skills.id);
+  }
+
+  async getSkillScores(userId: number, topicId: number): Promise<SkillScore[]> {
+    const rows = await db.select({
+      skillId: skills.id,
+      name: skills.name,
+      sortOrder: skills.sortOrder,
+      score: skillMastery.score,
+    })
+      .from(skills)
+      .leftJoin(skillMastery, and(eq(skillMastery.skillId, skills.id), eq(skillMastery.userId, userId)))
+      .where(eq(skills.topicId, topicId))
+      .orderBy(skills.sortOrder, skills.id);
+    return rows.map(r => ({ ...r, sortOrder: r.sortOrder ?? 0, score: r.score ?? undefined }));
+  }
+
+  async saveSkillMastery(userId: number, skillId: number, score: number): Promise<void> {
+    await db.insert(skillMastery)
+      .values({ userId, skillId, score, questionsAnswered: 1, lastPracticed: new Date() })
+      .onConflictDoUpdate({
+        target: [skillMastery.userId, skillMastery.skillId],
+        set: {
+          score,
+          questionsAnswered: sql`${skillMastery.questionsAnswered} + 1`,
+          lastPracticed: new Date(),
+        },
+      });
+  }
+
+  async getMasteryParams(topicId: number): Promise<BktParams | undefined> {
+    const [p] = await db.select().from(masteryParams).where(eq(masteryParams.topicId, topicId));
+    return p ? { pInit: p.pInit, pLearn: p.pLearn, pGuess: p.pGuess, pSlip: p.pSlip } : undefined;
+  }
+
+  async saveMasteryParams(topicId: number, params: BktParams): Promise<void> {
+    await db.insert(masteryParams)
+      .values({ topicId, ...params })
+      .onConflictDoUpdate({ target: masteryParams.topicId, set: params });
+  }
+
+  async issueQuestion(userId: number, questionId: number, token: string): Promise<QuestionIssue> {
+    const [issue] = await db.insert(questionIssues).values({ userId, questionId, token }).returning();
+    return issue;
+  }
+
+  // Marks the token answered in the same statement that checks it, so a token
+  // cannot be redeemed twice by concurrent requests
+  async redeemQuestionIssue(token: string, userId: number): Promise<QuestionIssue | undefined> {
+    const [issue] = await db.update(questionIssues)
+      .set({ answeredAt: new Date() })
+      .where(and(
+        eq(questionIssues.token, token),
+        eq(questionIssues.userId, userId),
+        isNull(questionIssues.answeredAt),
+      ))
+      .returning();
+    return issue;
+  }
+
   async logLearningEvent(userId: number, questionId: number, isCorrect: boolean, timeTaken: number): Promise<void> {
     await db.insert(learningEvents).values({
       userId,
@@ -108,30 +579,372 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getClassesByTeacher(teacherId: number): Promise<any[]> {
-    return await db.select().from(classes).where(eq(classes.teacherId, teacherId));
+  async getClass(id: number): Promise<Class | undefined> {
+    const [c] = await db.select().from(classes).where(eq(classes.id, id));
+    return c;
+  }
+
+  async getClassByCode(code: string): Promise<Class | undefined> {
+    const [c] = await db.select().from(classes).where(eq(classes.code, code));
+    return c;
+  }
+
+  async getRecentAnswers(userId: number, topicId: number, limit: number = 20): Promise<AnswerRecord[]> {
+    return await db.select({
+      questionId: learningEvents.questionId,
+      skillId: questions.skillId,
+      difficulty: sql<number>`coalesce(${questions.difficulty}, 1)::int`,
+      isCorrect: learningEvents.isCorrect,
+      timeTaken: learningEvents.timeTaken,
+    })
+      .from(learningEvents)
+      .innerJoin(questions, eq(learningEvents.questionId, questions.id))
+      .where(and(eq(learningEvents.userId, userId), eq(questions.topicId, topicId)))
+      .orderBy(desc(learningEvents.timestamp), desc(learningEvents.id))
+      .limit(limit);
+  }
+
+  async getMasteryByTopic(userId: number): Promise<TopicMastery[]> {
+    return await db.select({
+      topicId: topics.id,
+      topic: topics.name,
+      score: sql<number>`coalesce(${mastery.score}, 0)::float`,
+      questionsAnswered: sql<number>`coalesce(${mastery.questionsAnswered}, 0)::int`,
+    })
+      .from(mastery)
+      .innerJoin(topics, eq(mastery.topicId, topics.id))
+      .where(eq(mastery.userId, userId))
+      .orderBy(topics.name);
+  }
+
+  async getRecentActivity(userId: number, limit: number = 10): Promise<ActivityEntry[]> {
+    return await db.select({
+      topic: topics.name,
+      isCorrect: learningEvents.isCorrect,
+      timeTaken: learningEvents.timeTaken,
+      timestamp: learningEvents.timestamp,
+    })
+      .from(learningEvents)
+      .innerJoin(questions, eq(learningEvents.questionId, questions.id))
+      .innerJoin(topics, eq(questions.topicId, topics.id))
+      .where(eq(learningEvents.userId, userId))
+      .orderBy(desc(learningEvents.timestamp))
+      .limit(limit);
+  }
+
+  async getTimeSpentSince(userId: number, since: Date): Promise<number> {
+    const [row] = await db.select({
+      total: sql<number>`coalesce(sum(${learningEvents.timeTaken}), 0)::int`,
+    })
+      .from(learningEvents)
+      .where(and(eq(learningEvents.userId, userId), gte(learningEvents.timestamp, since)));
+    return row?.total ?? 0;
   }
 
-  async createClass(name: string, teacherId: number, code: string): Promise<any> {
+  async getClassesByTeacher(teacherId: number): Promise<ClassWithCount[]> {
+    return await db.select({
+      id: classes.id,
+      name: classes.name,
+      teacherId: classes.teacherId,
+      code: classes.code,
+      pictureGridSize: classes.pictureGridSize,
+      picturePasswordLength: classes.picturePasswordLength,
+      studentCount: sql<number>`count(${users.id})::int`,
+      pendingRequests: sql<number>`(
+        select count(*) from ${classJoinRequests}
+        where ${classJoinRequests.classId} = ${classes.id} and ${classJoinRequests.status} = 'pending'
+      )::int`,
+    })
+      .from(classes)
+      .leftJoin(users, and(eq(users.classId, classes.id), eq(users.role, "student")))
+      .where(eq(classes.teacherId, teacherId))
+      .groupBy(classes.id)
+      .orderBy(classes.name);
+  }
+
+  async createClass(name: string, teacherId: number, code: string): Promise<Class> {
     const [newClass] = await db.insert(classes).values({ name, teacherId, code }).returning();
     return newClass;
   }
 
-  async getClassAnalytics(classId: number): Promise<any[]> {
-    // Simplified analytics query
-    const classStudents = await db.select().from(users).where(eq(users.classId, classId));
-    
-    // Mocking aggregations for now as we'd need complex joins
-    return classStudents.map(s => ({
-      studentId: s.id,
-      name: s.firstName,
-      averageMastery: 0.75, // Placeholder
-      topicsCompleted: 3
-    }));
+  async updateClassCode(classId: number, code: string): Promise<Class> {
+    const [updated] = await db.update(classes).set({ code }).where(eq(classes.id, classId)).returning();
+    return updated;
+  }
+
+  async updatePictureSettings(classId: number, settings: Pick<Class, "pictureGridSize" | "picturePasswordLength">): Promise<Class> {
+    const [updated] = await db.update(classes).set(settings).where(eq(classes.id, classId)).returning();
+    return updated;
+  }
+
+  async getClassAnalytics(classId: number, filters: AnalyticsFilters = {}): Promise<StudentAnalytics[]> {
+    const classStudents = await db.select().from(users)
+      .where(and(eq(users.classId, classId), eq(users.role, "student")));
+    if (classStudents.length === 0) return [];
+
+    const studentIds = classStudents.map(s => s.id);
+
+    // Mastery is a current snapshot, so only the subject filter applies to it
+    const masteryConditions: SQL[] = [inArray(mastery.userId, studentIds)];
+    if (filters.subjectId) masteryConditions.push(eq(topics.subjectId, filters.subjectId));
+
+    const masteryRows = await db.select({
+      userId: mastery.userId,
+      averageMastery: sql<number>`coalesce(avg(${mastery.score}), 0)::float`,
+      topicsCompleted: sql<number>`count(*) filter (where ${mastery.score} >= ${MASTERY_THRESHOLD})::int`,
+    })
+      .from(mastery)
+      .innerJoin(topics, eq(mastery.topicId, topics.id))
+      .where(and(...masteryConditions))
+      .groupBy(mastery.userId);
+
+    const eventConditions: SQL[] = [inArray(learningEvents.userId, studentIds)];
+    if (filters.subjectId) eventConditions.push(eq(topics.subjectId, filters.subjectId));
+    if (filters.from) eventConditions.push(gte(learningEvents.timestamp, filters.from));
+    // `to` is a day, so activity up to the end of it counts
+    if (filters.to) eventConditions.push(lt(learningEvents.timestamp, new Date(filters.to.getTime() + 24 * 60 * 60 * 1000)));
+
+    const eventRows = await db.select({
+      userId: learningEvents.userId,
+      totalQuestions: sql<number>`count(*)::int`,
+      correctAnswers: sql<number>`count(*) filter (where ${learningEvents.isCorrect})::int`,
+      timeSpent: sql<number>`coalesce(sum(${learningEvents.timeTaken}), 0)::int`,
+      lastActive: sql<Date | null>`max(${learningEvents.timestamp})`,
+    })
+      .from(learningEvents)
+      .innerJoin(questions, eq(learningEvents.questionId, questions.id))
+      .innerJoin(topics, eq(questions.topicId, topics.id))
+      .where(and(...eventConditions))
+      .groupBy(learningEvents.userId);
+
+    const masteryByUser = new Map(masteryRows.map(r => [r.userId, r]));
+    const eventsByUser = new Map(eventRows.map(r => [r.userId, r]));
+
+    return classStudents.map(s => {
+      const m = masteryByUser.get(s.id);
+      const e = eventsByUser.get(s.id);
+      return {
+        studentId: s.id,
+        name: s.firstName,
+        averageMastery: m?.averageMastery ?? 0,
+        topicsCompleted: m?.topicsCompleted ?? 0,
+        accuracy: e && e.totalQuestions > 0 ? e.correctAnswers / e.totalQuestions : 0,
+        totalQuestions: e?.totalQuestions ?? 0,
+        timeSpent: e?.timeSpent ?? 0,
+        lastActive: e?.lastActive ? new Date(e.lastActive) : null,
+      };
+    });
+  }
+
+  async getStudentsInClass(classId: number): Promise<User[]> {
+    return await db.select().from(users)
+      .where(and(eq(users.classId, classId), eq(users.role, "student")))
+      .orderBy(users.firstName);
+  }
+
+  // A new request replaces any the student still has waiting, so each
+  // student is only ever pending for one class
+  async createJoinRequest(classId: number, studentId: number, requestedBy: number): Promise<ClassJoinRequest> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(classJoinRequests)
+        .where(and(eq(classJoinRequests.studentId, studentId), eq(classJoinRequests.status, "pending")));
+      const [request] = await tx.insert(classJoinRequests).values({ classId, studentId, requestedBy }).returning();
+      return request;
+    });
+  }
+
+  async getJoinRequest(id: number): Promise<ClassJoinRequest | undefined> {
+    const [request] = await db.select().from(classJoinRequests).where(eq(classJoinRequests.id, id));
+    return request;
+  }
+
+  async getLatestJoinRequest(studentId: number): Promise<JoinRequestWithClass | undefined> {
+    const [row] = await db.select({ request: classJoinRequests, className: classes.name })
+      .from(classJoinRequests)
+      .innerJoin(classes, eq(classJoinRequests.classId, classes.id))
+      .where(eq(classJoinRequests.studentId, studentId))
+      .orderBy(desc(classJoinRequests.createdAt), desc(classJoinRequests.id))
+      .limit(1);
+    return row && { ...row.request, className: row.className };
+  }
+
+  async getPendingJoinRequests(classId: number): Promise<PendingJoinRequest[]> {
+    return await db.select({
+      id: classJoinRequests.id,
+      studentId: users.id,
+      firstName: users.firstName,
+      yearGroup: users.yearGroup,
+      viaParent: sql<boolean>`${classJoinRequests.requestedBy} <> ${classJoinRequests.studentId}`,
+      createdAt: classJoinRequests.createdAt,
+    })
+      .from(classJoinRequests)
+      .innerJoin(users, eq(classJoinRequests.studentId, users.id))
+      .where(and(eq(classJoinRequests.classId, classId), eq(classJoinRequests.status, "pending")))
+      .orderBy(classJoinRequests.createdAt);
+  }
+
+  // Approving moves the student into the class, out of any they were in
+  async decideJoinRequest(id: number, approve: boolean): Promise<ClassJoinRequest> {
+    return await db.transaction(async (tx) => {
+      const [request] = await tx.update(classJoinRequests)
+        .set({ status: approve ? "approved" : "rejected", decidedAt: new Date() })
+        .where(eq(classJoinRequests.id, id))
+        .returning();
+      if (approve) {
+        await tx.update(users).set({ classId: request.classId }).where(eq(users.id, request.studentId));
+      }
+      return request;
+    });
+  }
+
+  async getAssignment(id: number): Promise<Assignment | undefined> {
+    const [a] = await db.select().from(assignments).where(eq(assignments.id, id));
+    return a;
+  }
+
+  async getAssignmentsByTeacher(teacherId: number): Promise<Assignment[]> {
+    return await db.select().from(assignments)
+      .where(eq(assignments.teacherId, teacherId))
+      .orderBy(desc(assignments.createdAt));
+  }
+
+  async getAssignmentsForStudent(student: User): Promise<Assignment[]> {
+    const scope = student.classId
+      ? or(eq(assignments.studentId, student.id), eq(assignments.classId, student.classId))
+      : eq(assignments.studentId, student.id);
+    return await db.select().from(assignments)
+      .where(scope)
+      .orderBy(assignments.dueDate);
+  }
+
+  async createAssignment(assignment: InsertAssignment): Promise<Assignment> {
+    const [a] = await db.insert(assignments).values(assignment).returning();
+    return a;
+  }
+
+  async updateAssignment(id: number, updates: Partial<InsertAssignment> & { completed?: boolean }): Promise<Assignment> {
+    const [a] = await db.update(assignments).set(updates).where(eq(assignments.id, id)).returning();
+    return a;
+  }
+
+  async deleteAssignment(id: number): Promise<void> {
+    await db.delete(assignmentCompletions).where(eq(assignmentCompletions.assignmentId, id));
+    await db.delete(assignments).where(eq(assignments.id, id));
+  }
+
+  async getCompletedStudentIds(assignmentId: number): Promise<number[]> {
+    const rows = await db.select({ studentId: assignmentCompletions.studentId })
+      .from(assignmentCompletions)
+      .where(eq(assignmentCompletions.assignmentId, assignmentId));
+    return rows.map(r => r.studentId);
+  }
+
+  async completeAssignment(assignmentId: number, studentId: number): Promise<void> {
+    await db.insert(assignmentCompletions)
+      .values({ assignmentId, studentId })
+      .onConflictDoNothing();
+  }
+
+  async countTopicAnswersSince(userId: number, topicId: number, since: Date): Promise<number> {
+    const [row] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(learningEvents)
+      .innerJoin(questions, eq(learningEvents.questionId, questions.id))
+      .where(and(
+        eq(learningEvents.userId, userId),
+        eq(questions.topicId, topicId),
+        gte(learningEvents.timestamp, since),
+      ));
+    return row?.count ?? 0;
+  }
+
+  async getAnsweredQuestionIds(userId: number, questionIds: number[], since: Date): Promise<number[]> {
+    if (questionIds.length === 0) return [];
+    const rows = await db.selectDistinct({ questionId: learningEvents.questionId })
+      .from(learningEvents)
+      .where(and(
+        eq(learningEvents.userId, userId),
+        inArray(learningEvents.questionId, questionIds),
+        gte(learningEvents.timestamp, since),
+      ));
+    return rows.map(r => r.questionId);
   }
 
   async getChildren(parentId: number): Promise<User[]> {
-    return await db.select().from(users).where(eq(users.parentId, parentId));
+    const rows = await db.select({ child: users }).from(guardians)
+      .innerJoin(users, eq(guardians.studentId, users.id))
+      .where(and(eq(guardians.parentId, parentId), eq(users.role, "student")))
+      .orderBy(users.firstName);
+    return rows.map(r => r.child);
+  }
+
+  async isGuardianOf(parentId: number, studentId: number): Promise<boolean> {
+    const [link] = await db.select({ id: guardians.id }).from(guardians)
+      .where(and(eq(guardians.parentId, parentId), eq(guardians.studentId, studentId)));
+    return !!link;
+  }
+
+  async addGuardian(parentId: number, studentId: number): Promise<void> {
+    await db.insert(guardians).values({ parentId, studentId }).onConflictDoNothing();
+  }
+
+  async removeGuardian(parentId: number, studentId: number): Promise<void> {
+    await db.delete(guardians)
+      .where(and(eq(guardians.parentId, parentId), eq(guardians.studentId, studentId)));
+  }
+
+  // First names of each student's linked parents, for the teacher's roster
+  async getGuardianNames(studentIds: number[]): Promise<Map<number, string[]>> {
+    const names = new Map<number, string[]>();
+    if (studentIds.length === 0) return names;
+
+    const rows = await db.select({ studentId: guardians.studentId, firstName: users.firstName })
+      .from(guardians)
+      .innerJoin(users, eq(guardians.parentId, users.id))
+      .where(inArray(guardians.studentId, studentIds))
+      .orderBy(users.firstName);
+    for (const row of rows) {
+      names.set(row.studentId, [...(names.get(row.studentId) ?? []), row.firstName]);
+    }
+    return names;
+  }
+
+  // Replaces any unused code for the student, so only the latest one printed works
+  async createLinkCode(studentId: number, createdBy: number, code: string, expiresAt: Date): Promise<GuardianLinkCode> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(guardianLinkCodes)
+        .where(and(eq(guardianLinkCodes.studentId, studentId), isNull(guardianLinkCodes.usedAt)));
+      const [created] = await tx.insert(guardianLinkCodes)
+        .values({ studentId, createdBy, code, expiresAt })
+        .returning();
+      return created;
+    });
+  }
+
+  // Uses the code up in the same statement that checks it, so it links one
+  // parent only, then records the link
+  async redeemLinkCode(code: string, parentId: number): Promise<GuardianLinkCode | undefined> {
+    const [used] = await db.update(guardianLinkCodes)
+      .set({ usedAt: new Date(), usedBy: parentId })
+      .where(and(
+        eq(guardianLinkCodes.code, code),
+        isNull(guardianLinkCodes.usedAt),
+        gte(guardianLinkCodes.expiresAt, new Date()),
+      ))
+      .returning();
+    if (used) await this.addGuardian(parentId, used.studentId);
+    return used;
+  }
+
+  // One-off move of the old single users.parentId link into guardians
+  async migrateParentLinks(): Promise<number> {
+    const legacy = await db.select({ id: users.id, parentId: users.parentId }).from(users)
+      .where(isNotNull(users.parentId));
+
+    for (const row of legacy) {
+      await this.addGuardian(row.parentId!, row.id);
+      await db.update(users).set({ parentId: null }).where(eq(users.id, row.id));
+    }
+    return legacy.length;
   }
 }
 
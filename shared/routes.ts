@@ -1,6 +1,8 @@
 
 import { z } from 'zod';
-import { insertUserSchema, insertClassSchema, insertAssignmentSchema, users, questions, mastery } from './schema';
+import { KEY_STAGES, MAX_PICTURE_PASSWORD_LENGTH, MIN_PICTURE_GRID_SIZE, MIN_PICTURE_PASSWORD_LENGTH, PICTURE_PASSWORD_ICONS, insertUserSchema, insertClassSchema, insertAssignmentSchema, insertQuestionSchema, answerSchema, users, questions, mastery, type PublicUser, type Role } from './schema';
+
+export type { User, PublicUser } from './schema';
 
 export const errorSchemas = {
   validation: z.object({
@@ -13,8 +15,18 @@ export const errorSchemas = {
   unauthorized: z.object({
     message: z.string(),
   }),
+  forbidden: z.object({
+    message: z.string(),
+  }),
+  rateLimited: z.object({
+    message: z.string(),
+  }),
 };
 
+// Who may call an endpoint: anyone, any signed-in user, or only these roles.
+// Every route declares one and server/authz.ts enforces it.
+export type RouteAccess = 'public' | 'signedIn' | readonly Role[];
+
 // Login schemas
 export const loginSchema = z.object({
   username: z.string(),
@@ -23,73 +35,387 @@ export const loginSchema = z.object({
   role: z.enum(["student", "teacher", "parent"]),
 });
 
+const newPasswordSchema = z.string().min(8, "Use at least 8 characters").max(200);
+
+// Self-service sign-up for staff and parents; students are added by their teacher
+export const registerSchema = insertUserSchema.pick({
+  username: true, password: true, firstName: true, email: true, role: true,
+}).extend({
+  username: z.string().trim().min(3, "Use at least 3 characters").max(30)
+    .regex(/^[a-zA-Z0-9._-]+$/, "Letters, numbers, dots, dashes and underscores only"),
+  password: newPasswordSchema,
+  firstName: z.string().trim().min(1, "Enter your first name").max(50),
+  email: z.string().trim().email("Enter a valid email address").max(254),
+  role: z.enum(["teacher", "parent"]),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1), // From the emailed link
+  password: newPasswordSchema,
+});
+
+const assignmentInput = insertAssignmentSchema.omit({ teacherId: true }).extend({
+  dueDate: z.coerce.date().nullable().optional(),
+  targetQuestions: z.number().int().min(1).max(100).optional(),
+  targetMastery: z.number().min(0).max(1).optional(),
+});
+
+// A teacher's own question; ownership and the generated flag are set by the server
+const questionInput = insertQuestionSchema.omit({ ownerId: true, generated: true }).extend({
+  content: z.string().trim().min(1),
+  correctAnswer: z.string().trim().min(1),
+  distractors: z.array(z.string().trim().min(1)).max(5),
+  difficulty: z.number().int().min(1).max(10).optional(),
+});
+
+const quizInput = z.object({
+  name: z.string().trim().min(1),
+  questionIds: z.array(z.number()).min(1, "Add at least one question"),
+});
+
+// What a student is sent: never the answer or explanation, and multiple-choice
+// options arrive already mixed so the correct one cannot be picked out
+const servedQuestionSchema = z.object({
+  id: z.number(),
+  topicId: z.number(),
+  skillId: z.number().nullable(),
+  content: z.string(),
+  type: z.enum(["multiple_choice", "drag_drop", "numeric"]).nullable(),
+  difficulty: z.number().nullable(),
+  config: z.unknown(),
+  options: z.array(z.string()), // Empty except for multiple choice
+  token: z.string(), // Redeemed when answering
+});
+
+const assignmentStatusSchema = z.enum(["active", "completed", "overdue"]);
+
+const packFormatSchema = z.enum(["csv", "json"]);
+
+// Display metadata carried by subjects and topics
+const displaySchema = z.object({
+  icon: z.string(), // Emoji
+  color: z.string(), // Hex, e.g. "#3b82f6"
+});
+
+const subjectSchema = displaySchema.extend({
+  id: z.number(),
+  slug: z.string(),
+  name: z.string(),
+});
+
+// A student's most recent request to join a class by its code
+const joinRequestSchema = z.object({
+  id: z.number(),
+  classId: z.number(),
+  className: z.string(),
+  status: z.enum(["pending", "approved", "rejected"]),
+  createdAt: z.string(),
+});
+
+const classCodeInput = z.object({
+  code: z.string().trim().min(1, "Enter a class code"),
+});
+
+// What a young student sees after entering their class code: their
+// classmates to pick from and the school's picture grid
+const classLoginSchema = z.object({
+  className: z.string(),
+  icons: z.array(z.string()), // Ids from PICTURE_PASSWORD_ICONS, in grid order
+  students: z.array(z.object({
+    id: z.number(),
+    firstName: z.string(),
+    pictureCount: z.number(), // How many pictures this student's password has
+  })),
+});
+
+export const pictureLoginSchema = classCodeInput.extend({
+  studentId: z.number().int(),
+  picturePassword: z.array(z.string()).min(1),
+});
+
+const childSummarySchema = z.object({
+  id: z.number(),
+  firstName: z.string(),
+  yearGroup: z.number().nullable(),
+  className: z.string().nullable(),
+  joinRequest: joinRequestSchema.nullable(),
+  coins: z.number(),
+  masterySummary: z.array(z.object({
+    topic: z.string(),
+    score: z.number(),
+  })),
+  timeSpentThisWeek: z.number(), // in seconds, since Monday
+  strengths: z.array(z.string()),
+  weaknesses: z.array(z.string()),
+  recentActivity: z.array(z.object({
+    topic: z.string(),
+    correct: z.boolean(),
+    timestamp: z.string().nullable(),
+  })),
+});
+
+// A class's picture login; null goes back to the school's default
+const pictureSettingsSchema = z.object({
+  pictureGridSize: z.number().int().min(MIN_PICTURE_GRID_SIZE).max(PICTURE_PASSWORD_ICONS.length).nullable(),
+  picturePasswordLength: z.number().int().min(MIN_PICTURE_PASSWORD_LENGTH).max(MAX_PICTURE_PASSWORD_LENGTH).nullable(),
+}).refine(
+  s => s.pictureGridSize === null || s.picturePasswordLength === null || s.picturePasswordLength <= s.pictureGridSize,
+  { message: "A password cannot have more pictures than the grid shows", path: ["picturePasswordLength"] },
+);
+
+// A student's sign-in details, printed on a card for the teacher to hand out
+const loginCardSchema = z.object({
+  id: z.number(),
+  firstName: z.string(),
+  username: z.string(),
+  yearGroup: z.number().nullable(),
+  picturePassword: z.array(z.string()),
+});
+
+// A student on the teacher's roster, with the parents linked to them. Their
+// pictures are left out; only the login cards endpoint returns them.
+const rosterStudentSchema = loginCardSchema.omit({ picturePassword: true }).extend({
+  guardians: z.array(z.string()), // Parents' first names
+  lastLoginAt: z.string().nullable(),
+  lockedUntil: z.string().nullable(), // Set while too many wrong tries keep the student out
+});
+
+const rowErrorSchema = z.object({
+  row: z.number(), // 0 when the file as a whole could not be read
+  field: z.string().optional(),
+  message: z.string(),
+});
+
+const curriculumTreeSchema = z.array(subjectSchema.extend({
+  stages: z.array(z.object({
+    stage: z.enum(KEY_STAGES),
+    topics: z.array(displaySchema.extend({
+      id: z.number(),
+      slug: z.string(),
+      name: z.string(),
+      description: z.string().nullable(),
+      yearGroups: z.array(z.number()),
+      statements: z.array(z.object({
+        code: z.string(), // e.g. "MA-Y3-AS-1"
+        text: z.string(),
+        yearGroup: z.number().nullable(), // Null for KS3
+      })),
+    })),
+  })),
+}));
+
 export const api = {
   auth: {
     login: {
       method: 'POST' as const,
       path: '/api/auth/login',
+      access: 'public' as const,
       input: loginSchema,
       responses: {
-        200: z.custom<typeof users.$inferSelect>(),
+        200: z.custom<PublicUser>(),
         401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden, // Email address not yet confirmed
+        429: errorSchemas.rateLimited, // Too many wrong tries from here, or the account is locked
+      },
+    },
+    // Class login for young students: enter the class code, tap your name,
+    // then tap your pictures
+    classLogin: {
+      method: 'POST' as const,
+      path: '/api/auth/class',
+      access: 'public' as const,
+      input: classCodeInput,
+      responses: {
+        200: classLoginSchema,
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+        429: errorSchemas.rateLimited,
+      },
+    },
+    pictureLogin: {
+      method: 'POST' as const,
+      path: '/api/auth/picture-login',
+      access: 'public' as const,
+      input: pictureLoginSchema,
+      responses: {
+        200: z.custom<PublicUser>(),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        429: errorSchemas.rateLimited, // The account is locked for a while
+      },
+    },
+    register: {
+      method: 'POST' as const,
+      path: '/api/auth/register',
+      access: 'public' as const,
+      input: registerSchema,
+      responses: {
+        201: z.object({ message: z.string() }), // Also sent when the email already has an account
+        400: errorSchemas.validation, // Includes a taken username
+        429: errorSchemas.rateLimited,
+      },
+    },
+    verifyEmail: {
+      method: 'POST' as const,
+      path: '/api/auth/verify-email',
+      access: 'public' as const,
+      input: z.object({ token: z.string().min(1) }),
+      responses: {
+        200: z.object({ message: z.string() }),
+        400: errorSchemas.validation, // Unknown, used or expired link
+      },
+    },
+    resendVerification: {
+      method: 'POST' as const,
+      path: '/api/auth/resend-verification',
+      access: 'public' as const,
+      input: z.object({ email: z.string().trim().email() }),
+      responses: {
+        200: z.object({ message: z.string() }), // The same whether or not the address is known
+        400: errorSchemas.validation,
+        429: errorSchemas.rateLimited,
+      },
+    },
+    forgotPassword: {
+      method: 'POST' as const,
+      path: '/api/auth/forgot-password',
+      access: 'public' as const,
+      input: z.object({ email: z.string().trim().email("Enter a valid email address") }),
+      responses: {
+        200: z.object({ message: z.string() }), // The same whether or not the address is known
+        400: errorSchemas.validation,
+        429: errorSchemas.rateLimited,
+      },
+    },
+    resetPassword: {
+      method: 'POST' as const,
+      path: '/api/auth/reset-password',
+      access: 'public' as const,
+      input: resetPasswordSchema,
+      responses: {
+        200: z.object({ message: z.string() }),
+        400: errorSchemas.validation, // Includes unknown, used or expired links
       },
     },
     logout: {
       method: 'POST' as const,
       path: '/api/auth/logout',
+      access: 'public' as const,
+      responses: {
+        200: z.object({ message: z.string() }),
+      },
+    },
+    logoutAll: {
+      method: 'POST' as const,
+      path: '/api/auth/logout-all',
+      access: 'signedIn' as const,
       responses: {
         200: z.object({ message: z.string() }),
+        401: errorSchemas.unauthorized,
       },
     },
     me: {
       method: 'GET' as const,
       path: '/api/auth/me',
+      access: 'signedIn' as const,
       responses: {
-        200: z.custom<typeof users.$inferSelect>(),
+        200: z.custom<PublicUser>(),
         401: errorSchemas.unauthorized,
       },
     },
   },
   learning: {
+    getSubjects: {
+      method: 'GET' as const,
+      path: '/api/subjects',
+      access: 'signedIn' as const,
+      input: z.object({ stage: z.string().optional() }).optional(), // Only subjects with topics at this stage
+      responses: {
+        200: z.array(subjectSchema),
+        401: errorSchemas.unauthorized,
+      },
+    },
     getTopics: {
       method: 'GET' as const,
       path: '/api/topics',
+      access: 'signedIn' as const,
       input: z.object({ stage: z.string().optional() }).optional(),
       responses: {
-        200: z.array(z.object({
+        200: z.array(displaySchema.extend({
           id: z.number(),
+          subjectId: z.number(),
           name: z.string(),
           stage: z.string(),
           description: z.string().nullable(),
-          mastery: z.number().optional(), // Personalised mastery if student
+          mastery: z.number().optional(), // Personalised mastery if student, rolled up from skills
+          skills: z.array(z.object({
+            id: z.number(),
+            name: z.string(),
+            mastery: z.number(),
+          })).optional(),
         })),
+        401: errorSchemas.unauthorized,
       },
     },
     getNextQuestion: {
       method: 'GET' as const,
       path: '/api/learning/question',
-      input: z.object({ topicId: z.coerce.number() }),
+      access: 'signedIn' as const,
+      input: z.object({ topicId: z.coerce.number().int().positive() }),
       responses: {
-        200: z.custom<typeof questions.$inferSelect>(),
+        200: servedQuestionSchema,
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
         404: errorSchemas.notFound,
+        429: errorSchemas.rateLimited,
+      },
+    },
+    getQuizQuestion: {
+      method: 'GET' as const,
+      path: '/api/learning/quiz-question',
+      access: ['student'] as const,
+      input: z.object({ assignmentId: z.coerce.number().int().positive() }),
+      responses: {
+        200: servedQuestionSchema,
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound, // Also once every question has been answered
       },
     },
     submitAnswer: {
       method: 'POST' as const,
       path: '/api/learning/answer',
+      access: 'signedIn' as const,
       input: z.object({
-        questionId: z.number(),
-        answer: z.string(),
-        timeTaken: z.number(),
+        token: z.string().min(1), // From the served question; response time is measured from when it was issued
+        answer: answerSchema,
       }),
       responses: {
         200: z.object({
           correct: z.boolean(),
-          correctAnswer: z.string(),
+          correctAnswer: answerSchema,
+          explanation: z.string().nullable(),
           coinsEarned: z.number(),
           newMastery: z.number(),
           feedback: z.string().optional(),
         }),
+        400: errorSchemas.validation, // Includes tokens never issued or already answered
+        401: errorSchemas.unauthorized,
+        429: errorSchemas.rateLimited,
+      },
+    },
+  },
+  curriculum: {
+    getTree: {
+      method: 'GET' as const,
+      path: '/api/curriculum',
+      access: 'signedIn' as const,
+      input: z.object({ stage: z.enum(KEY_STAGES).optional() }).optional(),
+      responses: {
+        200: curriculumTreeSchema,
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
       },
     },
   },
@@ -97,56 +423,578 @@ export const api = {
     getClasses: {
       method: 'GET' as const,
       path: '/api/teacher/classes',
+      access: ['teacher'] as const,
       responses: {
         200: z.array(z.object({
           id: z.number(),
           name: z.string(),
+          code: z.string(),
+          pictureGridSize: z.number().nullable(), // Null uses the school's default
+          picturePasswordLength: z.number().nullable(),
           studentCount: z.number(),
+          pendingRequests: z.number(), // Join requests waiting for approval
         })),
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
       },
     },
     createClass: {
       method: 'POST' as const,
       path: '/api/teacher/classes',
-      input: insertClassSchema,
+      access: ['teacher'] as const,
+      // The owning teacher and join code are assigned by the server
+      input: insertClassSchema.pick({ name: true }).extend({ name: z.string().trim().min(1) }),
       responses: {
         201: z.object({ id: z.number(), code: z.string() }),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+      },
+    },
+    regenerateCode: {
+      method: 'POST' as const,
+      path: '/api/teacher/classes/:id/code',
+      access: ['teacher'] as const,
+      // The old code stops working; requests already made with it still stand
+      responses: {
+        200: z.object({ id: z.number(), code: z.string() }),
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+      },
+    },
+    // Existing pictures keep working; new and reset ones follow these
+    updatePictureSettings: {
+      method: 'PUT' as const,
+      path: '/api/teacher/classes/:id/pictures',
+      access: ['teacher'] as const,
+      input: pictureSettingsSchema,
+      responses: {
+        200: z.object({ id: z.number(), pictureGridSize: z.number().nullable(), picturePasswordLength: z.number().nullable() }),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
       },
     },
     getAnalytics: {
       method: 'GET' as const,
       path: '/api/teacher/analytics',
-      input: z.object({ classId: z.coerce.number().optional() }).optional(),
+      access: ['teacher'] as const,
+      input: z.object({
+        classId: z.coerce.number().int().positive().optional(),
+        subjectId: z.coerce.number().int().positive().optional(),
+        from: z.coerce.date().optional(), // Inclusive bounds on learning activity, as days
+        to: z.coerce.date().optional(), // The whole of this day is included
+      }).optional(),
       responses: {
         200: z.array(z.object({
           studentId: z.number(),
           name: z.string(),
           averageMastery: z.number(),
           topicsCompleted: z.number(),
+          accuracy: z.number(), // 0.0 to 1.0 over the filtered answers
+          totalQuestions: z.number(),
+          timeSpent: z.number(), // in seconds
+          lastActive: z.string().nullable(),
         })),
+        400: errorSchemas.validation, // e.g. a from or to that is not a date
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
       },
     },
   },
-  parent: {
-    getChildren: {
+  roster: {
+    list: {
       method: 'GET' as const,
-      path: '/api/parent/children',
+      path: '/api/teacher/classes/:id/students',
+      access: ['teacher'] as const,
+      responses: {
+        200: z.array(rosterStudentSchema),
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+      },
+    },
+    loginCards: {
+      method: 'GET' as const,
+      path: '/api/teacher/classes/:id/login-cards',
+      access: ['teacher'] as const,
+      responses: {
+        200: z.array(loginCardSchema),
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+      },
+    },
+    addStudent: {
+      method: 'POST' as const,
+      path: '/api/teacher/classes/:id/students',
+      access: ['teacher'] as const,
+      // The username and picture password are generated by the server
+      input: z.object({
+        firstName: z.string().trim().min(1).max(50),
+        yearGroup: z.number().int().min(1).max(9),
+      }),
+      responses: {
+        201: loginCardSchema,
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+      },
+    },
+    import: {
+      method: 'POST' as const,
+      path: '/api/teacher/classes/:id/roster',
+      access: ['teacher'] as const,
+      input: z.object({
+        data: z.string().min(1), // CSV with "first name" and "year group" columns
+        dryRun: z.boolean().optional(),
+      }),
+      responses: {
+        200: z.object({
+          dryRun: z.boolean(),
+          count: z.number(), // Students added, or that would be on a dry run
+          created: z.array(loginCardSchema), // Empty on a dry run or when any row has an error
+          errors: z.array(rowErrorSchema),
+        }),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+      },
+    },
+  },
+  classJoin: {
+    status: {
+      method: 'GET' as const,
+      path: '/api/classes/join',
+      access: ['student'] as const,
+      responses: {
+        200: z.object({
+          className: z.string().nullable(),
+          joinRequest: joinRequestSchema.nullable(),
+        }),
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+      },
+    },
+    join: {
+      method: 'POST' as const,
+      path: '/api/classes/join',
+      access: ['student'] as const,
+      input: classCodeInput,
+      responses: {
+        201: joinRequestSchema, // Pending until the teacher approves
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+        429: errorSchemas.rateLimited,
+      },
+    },
+    joinForChild: {
+      method: 'POST' as const,
+      path: '/api/parent/children/:id/class',
+      access: ['parent'] as const,
+      input: classCodeInput,
+      responses: {
+        201: joinRequestSchema,
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+        429: errorSchemas.rateLimited,
+      },
+    },
+    pending: {
+      method: 'GET' as const,
+      path: '/api/teacher/classes/:id/join-requests',
+      access: ['teacher'] as const,
       responses: {
         200: z.array(z.object({
           id: z.number(),
+          studentId: z.number(),
           firstName: z.string(),
-          yearGroup: z.number(),
-          coins: z.number(),
-          masterySummary: z.array(z.object({
-            topic: z.string(),
-            score: z.number(),
-          })),
+          yearGroup: z.number().nullable(),
+          viaParent: z.boolean(), // Made by a parent rather than the student
+          createdAt: z.string(),
+        })),
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+      },
+    },
+    decide: {
+      method: 'POST' as const,
+      path: '/api/teacher/classes/:id/join-requests/:requestId',
+      access: ['teacher'] as const,
+      input: z.object({ approve: z.boolean() }),
+      responses: {
+        200: z.object({ id: z.number(), status: z.enum(["approved", "rejected"]) }),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound, // Also when already decided
+      },
+    },
+  },
+  assignments: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/teacher/assignments',
+      access: ['teacher'] as const,
+      responses: {
+        200: z.array(z.object({
+          id: z.number(),
+          topicId: z.number().nullable(),
+          quizId: z.number().nullable(),
+          topic: z.string(), // Topic or quiz name
+          classId: z.number().nullable(),
+          studentId: z.number().nullable(),
+          assignedTo: z.string(), // Class name or student first name
+          dueDate: z.string().nullable(),
+          targetQuestions: z.number(),
+          targetMastery: z.number(),
+          assignedCount: z.number(),
+          completedCount: z.number(),
+          status: assignmentStatusSchema,
+        })),
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/teacher/assignments',
+      access: ['teacher'] as const,
+      input: assignmentInput.refine(
+        (a) => !!a.classId !== !!a.studentId,
+        { message: "Assign to either a class or a student", path: ["classId"] },
+      ).refine(
+        (a) => !!a.topicId !== !!a.quizId,
+        { message: "Set either a topic or a quiz", path: ["topicId"] },
+      ),
+      responses: {
+        201: z.object({ id: z.number() }),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+      },
+    },
+    update: {
+      method: 'PATCH' as const,
+      path: '/api/teacher/assignments/:id',
+      access: ['teacher'] as const,
+      input: assignmentInput.pick({ topicId: true, dueDate: true, targetQuestions: true, targetMastery: true }).partial(),
+      responses: {
+        200: z.object({ id: z.number() }),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+    delete: {
+      method: 'DELETE' as const,
+      path: '/api/teacher/assignments/:id',
+      access: ['teacher'] as const,
+      responses: {
+        204: z.void(),
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+    mine: {
+      method: 'GET' as const,
+      path: '/api/student/assignments',
+      access: ['student'] as const,
+      responses: {
+        200: z.array(z.object({
+          id: z.number(),
+          topicId: z.number().nullable(),
+          quizId: z.number().nullable(),
+          topic: z.string(), // Topic or quiz name
+          dueDate: z.string().nullable(),
+          targetQuestions: z.number(),
+          questionsAnswered: z.number(),
+          status: assignmentStatusSchema,
         })),
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+      },
+    },
+  },
+  questions: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/teacher/questions',
+      access: ['teacher'] as const,
+      responses: {
+        200: z.array(z.custom<typeof questions.$inferSelect>()),
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/teacher/questions',
+      access: ['teacher'] as const,
+      input: questionInput,
+      responses: {
+        201: z.custom<typeof questions.$inferSelect>(),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+      },
+    },
+    update: {
+      method: 'PATCH' as const,
+      path: '/api/teacher/questions/:id',
+      access: ['teacher'] as const,
+      input: questionInput.partial(),
+      responses: {
+        200: z.custom<typeof questions.$inferSelect>(),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+    delete: {
+      method: 'DELETE' as const,
+      path: '/api/teacher/questions/:id',
+      access: ['teacher'] as const,
+      responses: {
+        204: z.void(),
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  quizzes: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/teacher/quizzes',
+      access: ['teacher'] as const,
+      responses: {
+        200: z.array(z.object({
+          id: z.number(),
+          name: z.string(),
+          questionIds: z.array(z.number()), // In play order
+          createdAt: z.string().nullable(),
+        })),
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/teacher/quizzes',
+      access: ['teacher'] as const,
+      input: quizInput,
+      responses: {
+        201: z.object({ id: z.number() }),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+      },
+    },
+    update: {
+      method: 'PATCH' as const,
+      path: '/api/teacher/quizzes/:id',
+      access: ['teacher'] as const,
+      input: quizInput.partial(),
+      responses: {
+        200: z.object({ id: z.number() }),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+    delete: {
+      method: 'DELETE' as const,
+      path: '/api/teacher/quizzes/:id',
+      access: ['teacher'] as const,
+      responses: {
+        204: z.void(),
+        400: errorSchemas.validation, // Still assigned
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  questionBank: {
+    // An admin imports into the shared bank; a teacher's questions are their own
+    import: {
+      method: 'POST' as const,
+      path: '/api/teacher/questions/import',
+      access: ['teacher', 'admin'] as const,
+      input: z.object({
+        format: packFormatSchema,
+        data: z.string().min(1),
+        dryRun: z.boolean().optional(),
+      }),
+      responses: {
+        200: z.object({
+          dryRun: z.boolean(),
+          imported: z.number(),
+          skipped: z.number(), // Already in the bank
+          errors: z.array(rowErrorSchema),
+        }),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+      },
+    },
+    export: {
+      method: 'GET' as const,
+      path: '/api/teacher/questions/export',
+      access: ['teacher', 'admin'] as const,
+      input: z.object({
+        format: packFormatSchema.default("json"),
+        topic: z.string().optional(), // Topic slug; every topic when omitted
+      }),
+      responses: {
+        200: z.string(),
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+      },
+    },
+  },
+  admin: {
+    getUsers: {
+      method: 'GET' as const,
+      path: '/api/admin/users',
+      access: ['admin'] as const,
+      responses: {
+        200: z.array(z.object({
+          id: z.number(),
+          username: z.string(),
+          firstName: z.string(),
+          role: z.string(),
+          classId: z.number().nullable(),
+          lastLoginAt: z.string().nullable(),
+        })),
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+      },
+    },
+    // Tunes the BKT mastery model for one topic; topics without these use its defaults
+    setMasteryParams: {
+      method: 'PUT' as const,
+      path: '/api/admin/topics/:id/mastery-params',
+      access: ['admin'] as const,
+      input: z.object({
+        pInit: z.number().min(0).max(1),
+        pLearn: z.number().min(0).max(1),
+        // Above a half, a right answer would count as evidence against knowing it
+        pGuess: z.number().min(0).max(0.5),
+        pSlip: z.number().min(0).max(0.5),
+      }),
+      responses: {
+        200: z.object({ pInit: z.number(), pLearn: z.number(), pGuess: z.number(), pSlip: z.number() }),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  parent: {
+    getChildren: {
+      method: 'GET' as const,
+      path: '/api/parent/children',
+      access: ['parent'] as const,
+      responses: {
+        200: z.array(childSummarySchema),
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+      },
+    },
+    getChild: {
+      method: 'GET' as const,
+      path: '/api/parent/children/:id',
+      access: ['parent'] as const,
+      responses: {
+        200: childSummarySchema,
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+      },
+    },
+    linkChild: {
+      method: 'POST' as const,
+      path: '/api/parent/children/link',
+      access: ['parent'] as const,
+      input: z.object({
+        code: z.string().trim().min(1, "Enter the code from school"),
+      }),
+      responses: {
+        201: z.object({ id: z.number(), firstName: z.string() }),
+        400: errorSchemas.validation, // Unknown, used or expired codes
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+        429: errorSchemas.rateLimited,
+      },
+    },
+    unlinkChild: {
+      method: 'DELETE' as const,
+      path: '/api/parent/children/:id',
+      access: ['parent'] as const,
+      responses: {
+        204: z.void(),
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+      },
+    },
+  },
+  students: {
+    resetPicturePassword: {
+      method: 'POST' as const,
+      path: '/api/students/:id/picture-password',
+      access: ['teacher', 'admin', 'parent'] as const,
+      // New pictures are generated; the student is signed out everywhere
+      responses: {
+        200: loginCardSchema,
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+      },
+    },
+  },
+  guardians: {
+    createLinkCode: {
+      method: 'POST' as const,
+      path: '/api/teacher/students/:id/link-code',
+      access: ['teacher', 'admin'] as const,
+      // Any earlier unused code for the student stops working
+      responses: {
+        201: z.object({
+          studentId: z.number(),
+          code: z.string(),
+          expiresAt: z.string(),
+        }),
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
       },
     },
   },
 };
 
+export type RegisterInput = z.infer<typeof registerSchema>;
+export type InsertClass = z.infer<typeof api.teacher.createClass.input>;
+export type AddStudentInput = z.infer<typeof api.roster.addStudent.input>;
+export type PictureSettings = z.infer<typeof pictureSettingsSchema>;
+export type LoginCard = z.infer<typeof loginCardSchema>;
+export type ClassLogin = z.infer<typeof classLoginSchema>;
+export type JoinRequest = z.infer<typeof joinRequestSchema>;
+export type CreateAssignmentInput = z.infer<typeof api.assignments.create.input>;
+export type CurriculumTree = z.infer<typeof curriculumTreeSchema>;
+export type ServedQuestion = z.infer<typeof servedQuestionSchema>;
+export type SubmitAnswerInput = z.infer<typeof api.learning.submitAnswer.input>;
+export type QuestionInput = z.infer<typeof api.questions.create.input>;
+export type QuizInput = z.infer<typeof api.quizzes.create.input>;
+export type UpdateAssignmentInput = z.infer<typeof api.assignments.update.input>;
+export type AnalyticsFilters = Omit<NonNullable<z.infer<typeof api.teacher.getAnalytics.input>>, "classId">;
+
 export function buildUrl(path: string, params?: Record<string, string | number>): string {
   let url = path;
   if (params) {
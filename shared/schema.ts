@@ -1,20 +1,41 @@
 
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb, real } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, json, real, unique, varchar, index } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
 // === USER & AUTH ===
+// Picture passwords are a sequence of these icons, as drawn by PicturePassword.tsx.
+// A class's login grid shows the first few of them (see
+// server/picture-password.ts), so new icons are only ever added at the end.
+export const PICTURE_PASSWORD_ICONS = [
+  "apple", "sun", "cat", "car", "star", "moon", "dog", "cloud", "circle",
+  "fish", "bird", "flower", "tree", "heart", "rocket", "bike",
+  "house", "umbrella", "leaf", "snowflake", "rabbit", "turtle", "banana", "cake", "carrot",
+] as const;
+
+export const MIN_PICTURE_GRID_SIZE = 4;
+export const MIN_PICTURE_PASSWORD_LENGTH = 2;
+export const MAX_PICTURE_PASSWORD_LENGTH = 6;
+
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").unique().notNull(),
   password: text("password"), // Nullable for students using picture passwords
-  role: text("role", { enum: ["student", "teacher", "parent"] }).notNull(),
+  role: text("role", { enum: ["student", "teacher", "parent", "admin"] }).notNull(),
   picturePassword: text("picture_password").array(), // Array of image IDs/names
   firstName: text("first_name").notNull(),
+  email: text("email").unique(), // Teachers and parents who registered; stored lower case
+  emailVerifiedAt: timestamp("email_verified_at"), // Accounts with an email cannot sign in until it is set
   yearGroup: integer("year_group"), // 1-9
   classId: integer("class_id"), // Link to class for students
-  parentId: integer("parent_id"), // Link to parent for students
+  parentId: integer("parent_id"), // Legacy single-parent link, moved into guardians at startup; no longer written
+  failedLogins: integer("failed_logins").notNull().default(0), // Wrong passwords or pictures since the last success or lockout
+  lockCount: integer("lock_count").notNull().default(0), // Lockouts since the last success; each one lasts twice as long
+  lockedUntil: timestamp("locked_until"),
+  lastLoginAt: timestamp("last_login_at"),
+  lastLoginIp: text("last_login_ip"),
+  lastLoginUserAgent: text("last_login_user_agent"),
   coins: integer("coins").default(0),
   avatarConfig: jsonb("avatar_config").default({}),
   createdAt: timestamp("created_at").defaultNow(),
@@ -25,13 +46,95 @@ export const classes = pgTable("classes", {
   name: text("name").notNull(),
   teacherId: integer("teacher_id").notNull(),
   code: text("code").unique().notNull(), // For joining
+  // The class's picture login; null uses the deployment's default
+  pictureGridSize: integer("picture_grid_size"),
+  picturePasswordLength: integer("picture_password_length"),
+});
+
+// A student asking to join a class by its code, themselves or through a
+// parent. users.classId only changes once the class teacher approves.
+export const classJoinRequests = pgTable("class_join_requests", {
+  id: serial("id").primaryKey(),
+  classId: integer("class_id").notNull(),
+  studentId: integer("student_id").notNull(),
+  requestedBy: integer("requested_by").notNull(), // The student, or their parent
+  status: text("status", { enum: ["pending", "approved", "rejected"] }).notNull().default("pending"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  decidedAt: timestamp("decided_at"),
+});
+
+// Single-use links sent by email. Only a hash of the token is kept, so the
+// table cannot be used to take over accounts if it leaks.
+export const ACCOUNT_TOKEN_PURPOSES = ["verify_email", "reset_password"] as const;
+
+export const accountTokens = pgTable("account_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  purpose: text("purpose", { enum: ACCOUNT_TOKEN_PURPOSES }).notNull(),
+  tokenHash: text("token_hash").unique().notNull(), // sha256, hex
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+});
+
+// Audit trail of password and picture-password resets: whose, by whom, when.
+// Self-service resets by email record the user as resetting their own.
+export const credentialResets = pgTable("credential_resets", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  resetBy: integer("reset_by").notNull(),
+  kind: text("kind", { enum: ["password", "picture_password"] }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A parent or carer linked to a student; a child may have several
+export const guardians = pgTable("guardians", {
+  id: serial("id").primaryKey(),
+  parentId: integer("parent_id").notNull(),
+  studentId: integer("student_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (t) => [unique().on(t.parentId, t.studentId)]);
+
+// One-time codes a teacher or the school hands to a parent, who enters it to
+// link their account to the student. Each student has at most one unused code.
+export const guardianLinkCodes = pgTable("guardian_link_codes", {
+  id: serial("id").primaryKey(),
+  studentId: integer("student_id").notNull(),
+  code: text("code").unique().notNull(),
+  createdBy: integer("created_by").notNull(), // Teacher or admin
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  usedBy: integer("used_by"), // The parent who redeemed it
 });
 
+// Login sessions, read and written by connect-pg-simple. Declared here so
+// drizzle-kit push creates the table and leaves it alone.
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (t) => [index("IDX_session_expire").on(t.expire)]);
+
 // === CURRICULUM & CONTENT ===
+export const KEY_STAGES = ["KS1", "KS2", "KS3"] as const;
+export type KeyStage = (typeof KEY_STAGES)[number];
+
+// Key stage for an English school year: Years 1-2 are KS1, 3-6 KS2, 7-9 KS3
+export function stageForYearGroup(yearGroup: number | null | undefined): KeyStage | undefined {
+  if (!yearGroup) return undefined;
+  if (yearGroup <= 2) return "KS1";
+  if (yearGroup <= 6) return "KS2";
+  if (yearGroup <= 9) return "KS3";
+  return undefined;
+}
+
 export const subjects = pgTable("subjects", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(), // e.g., "Science"
   slug: text("slug").unique().notNull(),
+  icon: text("icon").notNull().default("📚"), // Emoji shown on subject tabs
+  color: text("color").notNull().default("#94a3b8"), // Hex colour for tabs and tiles
 });
 
 export const topics = pgTable("topics", {
@@ -39,29 +142,107 @@ export const topics = pgTable("topics", {
   subjectId: integer("subject_id").notNull(),
   name: text("name").notNull(), // e.g., "Electricity", "Space", "Plants"
   slug: text("slug").unique().notNull(),
-  stage: text("stage", { enum: ["KS1", "KS2", "KS3"] }).notNull(),
+  stage: text("stage", { enum: KEY_STAGES }).notNull(),
   description: text("description"),
+  icon: text("icon").notNull().default("📚"),
+  color: text("color").notNull().default("#94a3b8"),
+  yearGroups: integer("year_groups").array(), // School years the topic is taught in
+});
+
+// National Curriculum statements, loaded from server/curriculum
+export const curriculumStatements = pgTable("curriculum_statements", {
+  id: serial("id").primaryKey(),
+  topicId: integer("topic_id").notNull(),
+  code: text("code").unique().notNull(), // e.g. "MA-Y3-AS-1"
+  text: text("text").notNull(),
+  yearGroup: integer("year_group"), // Null for KS3, which is not split by year
+});
+
+export const skills = pgTable("skills", {
+  id: serial("id").primaryKey(),
+  topicId: integer("topic_id").notNull(),
+  name: text("name").notNull(), // e.g., "Adding with carrying"
+  slug: text("slug").unique().notNull(),
+  description: text("description"),
+  sortOrder: integer("sort_order").default(0), // Teaching order within the topic
 });
 
 export const questions = pgTable("questions", {
   id: serial("id").primaryKey(),
   topicId: integer("topic_id").notNull(),
+  skillId: integer("skill_id"), // Null for questions not yet tagged with a skill
   content: text("content").notNull(),
-  type: text("type", { enum: ["multiple_choice", "drag_drop"] }).default("multiple_choice"),
+  type: text("type", { enum: ["multiple_choice", "drag_drop", "numeric"] }).default("multiple_choice"),
   correctAnswer: text("correct_answer").notNull(),
   distractors: jsonb("distractors").notNull(), // Array of strings
   difficulty: integer("difficulty").default(1), // 1-10
   explanation: text("explanation"),
+  config: jsonb("config"), // Type-specific settings, e.g. drag-drop items and buckets
+  generated: boolean("generated").default(false), // Produced by a topic generator rather than authored
+  ownerId: integer("owner_id"), // Teacher who wrote it; null for the shared bank
 });
 
+// Drag-drop questions store the correct answer as JSON in correctAnswer:
+// ordering  -> the items in the right order, e.g. ["Mercury","Venus","Earth"]
+// bucketing -> item to bucket, e.g. {"Copper":"Conductor","Wood":"Insulator"}
+export const dragDropConfigSchema = z.discriminatedUnion("variant", [
+  z.object({
+    variant: z.literal("ordering"),
+    items: z.array(z.string()).min(2),
+    prompt: z.string().optional(), // e.g. "Closest to the Sun first"
+  }),
+  z.object({
+    variant: z.literal("bucketing"),
+    items: z.array(z.string()).min(1),
+    buckets: z.array(z.string()).min(2),
+  }),
+]);
+
+// Numeric questions are typed on a number pad and marked tolerantly
+export const numericConfigSchema = z.object({
+  unit: z.string().optional(), // Shown next to the pad, e.g. "cm"
+  acceptedUnits: z.array(z.string()).optional(), // Other spellings, e.g. ["centimetres"]
+  requireUnit: z.boolean().optional(),
+  tolerance: z.number().nonnegative().optional(), // Absolute, e.g. 0.01
+});
+
+export const answerSchema = z.union([
+  z.string(), // multiple choice or numeric
+  z.array(z.string()), // ordering
+  z.record(z.string()), // bucketing
+]);
+
 // === ADAPTIVE LEARNING & PROGRESS ===
 export const mastery = pgTable("mastery", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
   topicId: integer("topic_id").notNull(),
   score: real("score").default(0.0), // 0.0 to 1.0
+  // In a topic with skills, the estimate from questions not tagged with one;
+  // it counts as one more skill in the roll-up once practised
+  untaggedScore: real("untagged_score"),
+  questionsAnswered: integer("questions_answered").default(0),
+  lastPracticed: timestamp("last_practiced"),
+});
+
+// Topic mastery for topics with skills is rolled up from these rows
+export const skillMastery = pgTable("skill_mastery", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  skillId: integer("skill_id").notNull(),
+  score: real("score").default(0.0), // 0.0 to 1.0
   questionsAnswered: integer("questions_answered").default(0),
   lastPracticed: timestamp("last_practiced"),
+}, (t) => [unique().on(t.userId, t.skillId)]);
+
+// Per-topic Bayesian Knowledge Tracing parameters; topics without a row use the defaults
+export const masteryParams = pgTable("mastery_params", {
+  id: serial("id").primaryKey(),
+  topicId: integer("topic_id").unique().notNull(),
+  pInit: real("p_init").notNull(),
+  pLearn: real("p_learn").notNull(),
+  pGuess: real("p_guess").notNull(),
+  pSlip: real("p_slip").notNull(),
 });
 
 export const learningEvents = pgTable("learning_events", {
@@ -73,21 +254,57 @@ export const learningEvents = pgTable("learning_events", {
   timestamp: timestamp("timestamp").defaultNow(),
 });
 
+// One row per question served; an answer must redeem the token it was issued with
+export const questionIssues = pgTable("question_issues", {
+  id: serial("id").primaryKey(),
+  token: text("token").unique().notNull(),
+  userId: integer("user_id").notNull(),
+  questionId: integer("question_id").notNull(),
+  issuedAt: timestamp("issued_at").defaultNow().notNull(),
+  answeredAt: timestamp("answered_at"), // Set when redeemed, so each token is answered once
+});
+
 export const assignments = pgTable("assignments", {
   id: serial("id").primaryKey(),
   teacherId: integer("teacher_id").notNull(),
   classId: integer("class_id"), // Null if individual
   studentId: integer("student_id"), // Null if whole class
-  topicId: integer("topic_id").notNull(),
+  topicId: integer("topic_id"), // Null when a quiz is set instead
+  quizId: integer("quiz_id"), // Null when a topic is set instead
   dueDate: timestamp("due_date"),
-  completed: boolean("completed").default(false),
+  completed: boolean("completed").default(false), // Set once every assigned student has completed
+  targetQuestions: integer("target_questions").default(10), // Questions answered on the topic to complete
+  targetMastery: real("target_mastery").default(0.8), // Or reaching this topic mastery
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A teacher's named set of questions, played in order
+export const quizzes = pgTable("quizzes", {
+  id: serial("id").primaryKey(),
+  teacherId: integer("teacher_id").notNull(),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const quizQuestions = pgTable("quiz_questions", {
+  id: serial("id").primaryKey(),
+  quizId: integer("quiz_id").notNull(),
+  questionId: integer("question_id").notNull(),
+  position: integer("position").notNull(),
+}, (t) => [unique().on(t.quizId, t.questionId)]);
+
+export const assignmentCompletions = pgTable("assignment_completions", {
+  id: serial("id").primaryKey(),
+  assignmentId: integer("assignment_id").notNull(),
+  studentId: integer("student_id").notNull(),
+  completedAt: timestamp("completed_at").defaultNow(),
+}, (t) => [unique().on(t.assignmentId, t.studentId)]);
+
 // === RELATIONS ===
 export const usersRelations = relations(users, ({ one, many }) => ({
   class: one(classes, { fields: [users.classId], references: [classes.id] }),
-  parent: one(users, { fields: [users.parentId], references: [users.id], relationName: "parent_child" }),
-  children: many(users, { relationName: "parent_child" }),
+  guardians: many(guardians, { relationName: "student_guardians" }),
+  children: many(guardians, { relationName: "parent_children" }),
   mastery: many(mastery),
   events: many(learningEvents),
 }));
@@ -95,25 +312,83 @@ export const usersRelations = relations(users, ({ one, many }) => ({
 export const classesRelations = relations(classes, ({ one, many }) => ({
   teacher: one(users, { fields: [classes.teacherId], references: [users.id] }),
   students: many(users),
+  joinRequests: many(classJoinRequests),
+}));
+
+export const guardiansRelations = relations(guardians, ({ one }) => ({
+  parent: one(users, { fields: [guardians.parentId], references: [users.id], relationName: "parent_children" }),
+  student: one(users, { fields: [guardians.studentId], references: [users.id], relationName: "student_guardians" }),
+}));
+
+export const classJoinRequestsRelations = relations(classJoinRequests, ({ one }) => ({
+  class: one(classes, { fields: [classJoinRequests.classId], references: [classes.id] }),
+  student: one(users, { fields: [classJoinRequests.studentId], references: [users.id] }),
 }));
 
 export const topicsRelations = relations(topics, ({ many }) => ({
   questions: many(questions),
+  skills: many(skills),
+  statements: many(curriculumStatements),
+}));
+
+export const curriculumStatementsRelations = relations(curriculumStatements, ({ one }) => ({
+  topic: one(topics, { fields: [curriculumStatements.topicId], references: [topics.id] }),
+}));
+
+export const skillsRelations = relations(skills, ({ one, many }) => ({
+  topic: one(topics, { fields: [skills.topicId], references: [topics.id] }),
+  questions: many(questions),
 }));
 
 export const questionsRelations = relations(questions, ({ one }) => ({
   topic: one(topics, { fields: [questions.topicId], references: [topics.id] }),
+  skill: one(skills, { fields: [questions.skillId], references: [skills.id] }),
+  owner: one(users, { fields: [questions.ownerId], references: [users.id] }),
+}));
+
+export const quizzesRelations = relations(quizzes, ({ one, many }) => ({
+  teacher: one(users, { fields: [quizzes.teacherId], references: [users.id] }),
+  questions: many(quizQuestions),
+}));
+
+export const quizQuestionsRelations = relations(quizQuestions, ({ one }) => ({
+  quiz: one(quizzes, { fields: [quizQuestions.quizId], references: [quizzes.id] }),
+  question: one(questions, { fields: [quizQuestions.questionId], references: [questions.id] }),
 }));
 
 // === ZOD SCHEMAS ===
-export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true, coins: true });
+export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true, coins: true, parentId: true, emailVerifiedAt: true, failedLogins: true, lockCount: true, lockedUntil: true, lastLoginAt: true, lastLoginIp: true, lastLoginUserAgent: true });
 export const insertClassSchema = createInsertSchema(classes).omit({ id: true });
 export const insertQuestionSchema = createInsertSchema(questions).omit({ id: true });
-export const insertAssignmentSchema = createInsertSchema(assignments).omit({ id: true, completed: true });
+export const insertAssignmentSchema = createInsertSchema(assignments).omit({ id: true, completed: true, createdAt: true });
 
 // === TYPES ===
 export type User = typeof users.$inferSelect;
+// What a user's own session and other pages see: no credentials, lockout state
+// or sign-in addresses
+export type PublicUser = Omit<User, "password" | "picturePassword" | "failedLogins" | "lockCount" | "lockedUntil" | "lastLoginIp" | "lastLoginUserAgent">;
+export type Role = User["role"];
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type Question = typeof questions.$inferSelect;
+export type InsertQuestion = z.infer<typeof insertQuestionSchema>;
+export type DragDropConfig = z.infer<typeof dragDropConfigSchema>;
+export type NumericConfig = z.infer<typeof numericConfigSchema>;
+export type Answer = z.infer<typeof answerSchema>;
+export type Subject = typeof subjects.$inferSelect;
+export type InsertSubject = typeof subjects.$inferInsert;
 export type Topic = typeof topics.$inferSelect;
+export type InsertTopic = typeof topics.$inferInsert;
+export type CurriculumStatement = typeof curriculumStatements.$inferSelect;
+export type Skill = typeof skills.$inferSelect;
+export type SkillMastery = typeof skillMastery.$inferSelect;
 export type Mastery = typeof mastery.$inferSelect;
+export type Class = typeof classes.$inferSelect;
+export type GuardianLinkCode = typeof guardianLinkCodes.$inferSelect;
+export type AccountToken = typeof accountTokens.$inferSelect;
+export type AccountTokenPurpose = AccountToken["purpose"];
+export type CredentialReset = typeof credentialResets.$inferSelect;
+export type ClassJoinRequest = typeof classJoinRequests.$inferSelect;
+export type Assignment = typeof assignments.$inferSelect;
+export type InsertAssignment = z.infer<typeof insertAssignmentSchema>;
+export type Quiz = typeof quizzes.$inferSelect;
+export type QuestionIssue = typeof questionIssues.$inferSelect;